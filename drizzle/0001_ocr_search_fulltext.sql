@@ -0,0 +1,2 @@
+-- FULLTEXT index backing ocr.search; drizzle-kit cannot declare FULLTEXT indexes in schema.ts
+ALTER TABLE `ocrResults` ADD FULLTEXT INDEX `ocrResults_fulltext` (`extractedText`, `imageFileName`);
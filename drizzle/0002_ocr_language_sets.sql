@@ -0,0 +1 @@
+ALTER TABLE `ocrResults` MODIFY COLUMN `language` varchar(64) NOT NULL DEFAULT 'eng';
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `ocrLayouts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ocrResultId` int NOT NULL,
+	`layout` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ocrLayouts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrLayouts_ocrResultId_unique` UNIQUE(`ocrResultId`)
+);
@@ -0,0 +1,28 @@
+CREATE TABLE `ocrJobItems` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`position` int NOT NULL,
+	`fileName` varchar(255) NOT NULL,
+	`mimeType` varchar(100) NOT NULL,
+	`language` varchar(64) NOT NULL DEFAULT 'eng',
+	`imageKey` varchar(512),
+	`imageUrl` text,
+	`status` enum('queued','running','succeeded','failed','cancelled') NOT NULL DEFAULT 'queued',
+	`progress` int NOT NULL DEFAULT 0,
+	`ocrResultId` int,
+	`error` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ocrJobItems_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `ocrJobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`status` enum('queued','running','succeeded','failed','cancelled') NOT NULL DEFAULT 'queued',
+	`totalItems` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	`finishedAt` timestamp,
+	CONSTRAINT `ocrJobs_id` PRIMARY KEY(`id`)
+);
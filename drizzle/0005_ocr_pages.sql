@@ -0,0 +1,17 @@
+CREATE TABLE `ocrPages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ocrResultId` int NOT NULL,
+	`pageNumber` int NOT NULL,
+	`imageUrl` text NOT NULL,
+	`extractedText` text NOT NULL,
+	`confidence` int NOT NULL DEFAULT 0,
+	`processingTimeMs` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ocrPages_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrPages_result_page` UNIQUE(`ocrResultId`,`pageNumber`)
+);
+--> statement-breakpoint
+ALTER TABLE `ocrLayouts` DROP INDEX `ocrLayouts_ocrResultId_unique`;--> statement-breakpoint
+ALTER TABLE `ocrLayouts` ADD `pageNumber` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `pageCount` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrLayouts` ADD CONSTRAINT `ocrLayouts_result_page` UNIQUE(`ocrResultId`,`pageNumber`);
\ No newline at end of file
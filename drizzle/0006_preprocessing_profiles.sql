@@ -0,0 +1,2 @@
+ALTER TABLE `ocrJobItems` ADD `preprocessing` json;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `preprocessing` json;
\ No newline at end of file
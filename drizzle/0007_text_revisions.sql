@@ -0,0 +1,18 @@
+CREATE TABLE `ocrTextRevisions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ocrResultId` int NOT NULL,
+	`revision` int NOT NULL,
+	`userId` int NOT NULL,
+	`text` text NOT NULL,
+	`diff` json NOT NULL,
+	`charsInserted` int NOT NULL DEFAULT 0,
+	`charsDeleted` int NOT NULL DEFAULT 0,
+	`editsFromOriginal` int NOT NULL DEFAULT 0,
+	`revertedTo` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ocrTextRevisions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrTextRevisions_result_revision` UNIQUE(`ocrResultId`,`revision`)
+);
+--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `originalText` text;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `revision` int DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `ocrJobItems` ADD `engine` varchar(64) DEFAULT 'tesseract' NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `engine` varchar(64) DEFAULT 'tesseract' NOT NULL;
\ No newline at end of file
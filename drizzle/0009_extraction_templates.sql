@@ -0,0 +1,24 @@
+CREATE TABLE `extractionTemplates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`fields` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `extractionTemplates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `extractionTemplates_user_name` UNIQUE(`userId`,`name`)
+);
+--> statement-breakpoint
+CREATE TABLE `ocrExtractions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ocrResultId` int NOT NULL,
+	`templateId` int NOT NULL,
+	`templateName` varchar(100) NOT NULL,
+	`status` enum('valid','invalid') NOT NULL,
+	`fields` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ocrExtractions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrExtractions_result_template` UNIQUE(`ocrResultId`,`templateId`)
+);
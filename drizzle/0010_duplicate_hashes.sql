@@ -0,0 +1,4 @@
+ALTER TABLE `ocrJobItems` ADD `duplicates` enum('reuseIfSameSettings','reuse','rerun') DEFAULT 'reuseIfSameSettings' NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `sha256` varchar(64);--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `perceptualHash` varchar(16);--> statement-breakpoint
+CREATE INDEX `ocrResults_user_sha256` ON `ocrResults` (`userId`,`sha256`);
\ No newline at end of file
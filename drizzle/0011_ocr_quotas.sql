@@ -0,0 +1,21 @@
+CREATE TABLE `ocrUsage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`day` varchar(10) NOT NULL,
+	`images` int NOT NULL DEFAULT 0,
+	`pages` int NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ocrUsage_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrUsage_user_day` UNIQUE(`userId`,`day`)
+);
+--> statement-breakpoint
+CREATE TABLE `userQuotas` (
+	`userId` int NOT NULL,
+	`imagesPerDay` int,
+	`pagesPerMonth` int,
+	`storageBytes` bigint,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `userQuotas_userId` PRIMARY KEY(`userId`)
+);
+--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `storageBytes` int DEFAULT 0 NOT NULL;
\ No newline at end of file
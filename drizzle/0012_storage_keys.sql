@@ -0,0 +1,2 @@
+ALTER TABLE `ocrPages` ADD `imageKey` varchar(512);--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `imageKey` varchar(512);
\ No newline at end of file
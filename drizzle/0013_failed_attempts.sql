@@ -0,0 +1,5 @@
+ALTER TABLE `ocrResults` MODIFY COLUMN `imageUrl` text;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `status` enum('pending','succeeded','failed') DEFAULT 'succeeded' NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `errorCode` varchar(64);--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `errorMessage` text;--> statement-breakpoint
+CREATE INDEX `ocrResults_user_status` ON `ocrResults` (`userId`,`status`);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `ocrRegions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ocrResultId` int NOT NULL,
+	`position` int NOT NULL,
+	`label` varchar(100) NOT NULL,
+	`pageNumber` int NOT NULL DEFAULT 1,
+	`bounds` json NOT NULL,
+	`extractedText` text NOT NULL,
+	`confidence` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ocrRegions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrRegions_result_position` UNIQUE(`ocrResultId`,`position`)
+);
+--> statement-breakpoint
+ALTER TABLE `ocrJobItems` ADD `rotation` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrJobItems` ADD `regions` json;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `rotation` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `regions` json;
\ No newline at end of file
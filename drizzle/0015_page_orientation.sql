@@ -0,0 +1,4 @@
+ALTER TABLE `ocrResults` ADD `orientation` int;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `orientationConfidence` double;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `script` varchar(32);--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `scriptConfidence` double;
\ No newline at end of file
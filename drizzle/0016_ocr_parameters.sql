@@ -0,0 +1,2 @@
+ALTER TABLE `ocrJobItems` ADD `parameters` json;--> statement-breakpoint
+ALTER TABLE `ocrResults` ADD `parameters` json;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE `ocrCorrections` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`ocrResultId` int NOT NULL,
+	`position` int NOT NULL,
+	`kind` enum('rule','word') NOT NULL,
+	`dictionaryId` int NOT NULL,
+	`dictionaryName` varchar(100) NOT NULL,
+	`original` varchar(255) NOT NULL,
+	`suggestion` varchar(255) NOT NULL,
+	`startOffset` int NOT NULL,
+	`endOffset` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ocrCorrections_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrCorrections_result_position` UNIQUE(`ocrResultId`,`position`)
+);
+--> statement-breakpoint
+CREATE TABLE `ocrDictionaries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`words` json NOT NULL,
+	`rules` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ocrDictionaries_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ocrDictionaries_user_name` UNIQUE(`userId`,`name`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `ocrResults` MODIFY COLUMN `extractedText` mediumtext NOT NULL;
\ No newline at end of file
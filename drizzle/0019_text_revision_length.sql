@@ -0,0 +1,2 @@
+ALTER TABLE `ocrResults` MODIFY COLUMN `originalText` mediumtext;--> statement-breakpoint
+ALTER TABLE `ocrTextRevisions` MODIFY COLUMN `text` mediumtext NOT NULL;
\ No newline at end of file
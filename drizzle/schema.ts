@@ -1,4 +1,24 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  bigint,
+  boolean,
+  double,
+  index,
+  int,
+  json,
+  mediumtext,
+  mysqlEnum,
+  mysqlTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import type { DictionaryRule } from "../shared/dictionaries";
+import type { ExtractedField, ExtractionField } from "../shared/extraction";
+import type { OcrParameters } from "../shared/ocrParameters";
+import type { OcrRegion } from "../shared/ocrRegions";
+import type { PreprocessingProfile } from "../shared/preprocessing";
+import type { TextDiffOp } from "../shared/textDiff";
 
 /**
  * Core user table backing auth flow.
@@ -20,20 +40,398 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
 /**
- * OCR results table to store recognized text from images
+ * OCR results table to store recognized text from images.
+ * Multi-page uploads (PDF, multi-frame TIFF) are one row with their
+ * per-page results in `ocrPages`. The FULLTEXT index on extractedText and
+ * imageFileName is created by the custom migration 0001_ocr_search_fulltext.sql.
+ * `extractedText` is the current (possibly corrected) text; the machine
+ * output is copied to `originalText` on the first correction.
+ * Failed attempts are kept as "failed" rows with an error and, when it was
+ * stored, the original image so ocr.retry can run them again.
  */
-export const ocrResults = mysqlTable("ocrResults", {
+export const OCR_RESULT_STATUSES = ["pending", "succeeded", "failed"] as const;
+export type OcrResultStatus = (typeof OCR_RESULT_STATUSES)[number];
+
+export const ocrResults = mysqlTable(
+  "ocrResults",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    imageFileName: varchar("imageFileName", { length: 255 }).notNull(),
+    /** Null when the upload failed before it could be stored. */
+    imageUrl: text("imageUrl"),
+    /** Storage key of the upload; null on rows saved before keys were kept. */
+    imageKey: varchar("imageKey", { length: 512 }),
+    /** Joined text of every page; multi-page documents outgrow `text` (64 KB). */
+    extractedText: mediumtext("extractedText").notNull(),
+    confidence: int("confidence").default(0).notNull(), // 0-100 confidence score
+    language: varchar("language", { length: 64 }).default("eng").notNull(),
+    /** OCR engine that produced the text (see server/ocrEngine.ts). */
+    engine: varchar("engine", { length: 64 }).default("tesseract").notNull(),
+    processingTimeMs: int("processingTimeMs").default(0).notNull(),
+    pageCount: int("pageCount").default(1).notNull(),
+    /** Preprocessing profile applied before recognition, for reproducibility. */
+    preprocessing: json("preprocessing").$type<PreprocessingProfile>(),
+    /** Clockwise degrees the pages were rotated before recognition. */
+    rotation: int("rotation").default(0).notNull(),
+    /**
+     * Requested regions of interest; null when whole pages were recognized.
+     * Their text is in `ocrRegions`.
+     */
+    regions: json("regions").$type<OcrRegion[]>(),
+    /** Engine parameters the request set (PSM, character lists, ...); null for defaults. */
+    parameters: json("parameters").$type<OcrParameters>(),
+    /**
+     * Tesseract OSD result for the first page: the clockwise rotation that
+     * makes it upright and its script, with OSD's unbounded confidence
+     * scores. Null when the engine has no orientation detection.
+     */
+    orientation: int("orientation"),
+    orientationConfidence: double("orientationConfidence"),
+    script: varchar("script", { length: 32 }),
+    scriptConfidence: double("scriptConfidence"),
+    /** Machine output, set once when the text is first corrected. */
+    originalText: mediumtext("originalText"),
+    /** Latest entry in ocrTextRevisions; 0 = uncorrected machine output. */
+    revision: int("revision").default(0).notNull(),
+    /** SHA-256 of the uploaded file, for exact duplicate lookup. */
+    sha256: varchar("sha256", { length: 64 }),
+    /** 64-bit dHash of the first page as hex, for near-duplicates. */
+    perceptualHash: varchar("perceptualHash", { length: 16 }),
+    /** Bytes this result added to storage (upload plus page images). */
+    storageBytes: int("storageBytes").default(0).notNull(),
+    /** "pending" while ocr.retry runs a failed attempt again. */
+    status: mysqlEnum("status", OCR_RESULT_STATUSES).default("succeeded").notNull(),
+    /** Why the last attempt failed, e.g. "OCR_RECOGNITION_FAILED". */
+    errorCode: varchar("errorCode", { length: 64 }),
+    errorMessage: text("errorMessage"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  t => [
+    index("ocrResults_user_sha256").on(t.userId, t.sha256),
+    index("ocrResults_user_status").on(t.userId, t.status),
+  ]
+);
+
+export type OcrResult = typeof ocrResults.$inferSelect;
+export type InsertOcrResult = typeof ocrResults.$inferInsert;
+/** Pixel bounding box, relative to the recognized page image. */
+export type OcrBbox = { x0: number; y0: number; x1: number; y1: number };
+
+export type OcrLayoutWord = { text: string; confidence: number; bbox: OcrBbox };
+export type OcrLayoutLine = OcrLayoutWord & { words: OcrLayoutWord[] };
+export type OcrLayoutParagraph = OcrLayoutWord & { lines: OcrLayoutLine[] };
+export type OcrLayoutBlock = OcrLayoutWord & {
+  blockType: string;
+  paragraphs: OcrLayoutParagraph[];
+};
+
+/**
+ * Page layout as recognized by the OCR engine:
+ * page -> block -> paragraph -> line -> word, each with bbox and 0-100 confidence.
+ */
+export type OcrLayout = {
+  width: number;
+  height: number;
+  confidence: number;
+  blocks: OcrLayoutBlock[];
+  /** Missing on layouts saved before transforms were recorded. */
+  transform?: OcrImageTransform;
+};
+
+/**
+ * How the stored page image became the image the layout was recognized
+ * on: EXIF orientation, then `rotation` clockwise degrees (caller rotation
+ * and detected orientation), then each deskew rotation in order, then
+ * scaling to the layout's width and height.
+ */
+export type OcrImageTransform = { rotation: number; deskew: number[] };
+
+/**
+ * Structured layout for an OCR result, one row per recognized page
+ */
+export const ocrLayouts = mysqlTable(
+  "ocrLayouts",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ocrResultId: int("ocrResultId").notNull(),
+    pageNumber: int("pageNumber").default(1).notNull(),
+    layout: json("layout").$type<OcrLayout>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  t => [uniqueIndex("ocrLayouts_result_page").on(t.ocrResultId, t.pageNumber)]
+);
+
+export type OcrLayoutRow = typeof ocrLayouts.$inferSelect;
+export type InsertOcrLayout = typeof ocrLayouts.$inferInsert;
+
+/**
+ * Ordered page results of a multi-page OCR result
+ */
+export const ocrPages = mysqlTable(
+  "ocrPages",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ocrResultId: int("ocrResultId").notNull(),
+    pageNumber: int("pageNumber").notNull(), // 1-based
+    imageUrl: text("imageUrl").notNull(), // rendered page image
+    imageKey: varchar("imageKey", { length: 512 }),
+    extractedText: text("extractedText").notNull(),
+    confidence: int("confidence").default(0).notNull(),
+    processingTimeMs: int("processingTimeMs").default(0).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  t => [uniqueIndex("ocrPages_result_page").on(t.ocrResultId, t.pageNumber)]
+);
+
+export type OcrPage = typeof ocrPages.$inferSelect;
+export type InsertOcrPage = typeof ocrPages.$inferInsert;
+
+/**
+ * Labeled region-of-interest results of an OCR result, in request order
+ */
+export const ocrRegions = mysqlTable(
+  "ocrRegions",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ocrResultId: int("ocrResultId").notNull(),
+    position: int("position").notNull(), // 0-based request order
+    label: varchar("label", { length: 100 }).notNull(),
+    pageNumber: int("pageNumber").default(1).notNull(),
+    /** Page fractions, as requested (see shared/ocrRegions.ts). */
+    bounds: json("bounds")
+      .$type<Pick<OcrRegion, "x" | "y" | "width" | "height">>()
+      .notNull(),
+    extractedText: text("extractedText").notNull(),
+    confidence: int("confidence").default(0).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  t => [uniqueIndex("ocrRegions_result_position").on(t.ocrResultId, t.position)]
+);
+
+export type OcrRegionRow = typeof ocrRegions.$inferSelect;
+export type InsertOcrRegion = typeof ocrRegions.$inferInsert;
+
+/**
+ * User corrections of an OCR result's text, one row per saved version
+ */
+export const ocrTextRevisions = mysqlTable(
+  "ocrTextRevisions",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ocrResultId: int("ocrResultId").notNull(),
+    revision: int("revision").notNull(), // 1-based; 0 is the machine output
+    userId: int("userId").notNull(),
+    /** Up to the 1,000,000 characters ocr.updateText accepts. */
+    text: mediumtext("text").notNull(),
+    /** Changes against the previous revision. */
+    diff: json("diff").$type<TextDiffOp[]>().notNull(),
+    charsInserted: int("charsInserted").default(0).notNull(),
+    charsDeleted: int("charsDeleted").default(0).notNull(),
+    /** Characters inserted + deleted relative to the machine output. */
+    editsFromOriginal: int("editsFromOriginal").default(0).notNull(),
+    /** Set when this revision restores an earlier one. */
+    revertedTo: int("revertedTo"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  t => [uniqueIndex("ocrTextRevisions_result_revision").on(t.ocrResultId, t.revision)]
+);
+
+export type OcrTextRevision = typeof ocrTextRevisions.$inferSelect;
+export type InsertOcrTextRevision = typeof ocrTextRevisions.$inferInsert;
+
+/**
+ * User-defined field extraction templates (see shared/extraction.ts)
+ */
+export const extractionTemplates = mysqlTable(
+  "extractionTemplates",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    fields: json("fields").$type<ExtractionField[]>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  t => [uniqueIndex("extractionTemplates_user_name").on(t.userId, t.name)]
+);
+
+export type ExtractionTemplate = typeof extractionTemplates.$inferSelect;
+export type InsertExtractionTemplate = typeof extractionTemplates.$inferInsert;
+
+export const OCR_EXTRACTION_STATUSES = ["valid", "invalid"] as const;
+export type OcrExtractionStatus = (typeof OCR_EXTRACTION_STATUSES)[number];
+
+/**
+ * Fields extracted from an OCR result by a template; re-applying the same
+ * template replaces the previous output
+ */
+export const ocrExtractions = mysqlTable(
+  "ocrExtractions",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ocrResultId: int("ocrResultId").notNull(),
+    templateId: int("templateId").notNull(),
+    /** Template name at the time of extraction. */
+    templateName: varchar("templateName", { length: 100 }).notNull(),
+    /** "invalid" if any field failed validation or a required one is missing. */
+    status: mysqlEnum("status", OCR_EXTRACTION_STATUSES).notNull(),
+    fields: json("fields").$type<ExtractedField[]>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  t => [uniqueIndex("ocrExtractions_result_template").on(t.ocrResultId, t.templateId)]
+);
+
+export type OcrExtraction = typeof ocrExtractions.$inferSelect;
+export type InsertOcrExtraction = typeof ocrExtractions.$inferInsert;
+
+/**
+ * User word lists and replacement rules applied to new results after
+ * recognition (see shared/dictionaries.ts)
+ */
+export const ocrDictionaries = mysqlTable(
+  "ocrDictionaries",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    enabled: boolean("enabled").default(true).notNull(),
+    words: json("words").$type<string[]>().notNull(),
+    rules: json("rules").$type<DictionaryRule[]>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  t => [uniqueIndex("ocrDictionaries_user_name").on(t.userId, t.name)]
+);
+
+export type OcrDictionary = typeof ocrDictionaries.$inferSelect;
+export type InsertOcrDictionary = typeof ocrDictionaries.$inferInsert;
+
+/** "rule" for replacements and character swaps, "word" for word list matches. */
+export const OCR_CORRECTION_KINDS = ["rule", "word"] as const;
+export type OcrCorrectionKind = (typeof OCR_CORRECTION_KINDS)[number];
+
+/**
+ * Changes the user's dictionaries made to a result's machine output, in
+ * text order. Offsets are into the corrected text (revision 0).
+ */
+export const ocrCorrections = mysqlTable(
+  "ocrCorrections",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    ocrResultId: int("ocrResultId").notNull(),
+    position: int("position").notNull(),
+    kind: mysqlEnum("kind", OCR_CORRECTION_KINDS).notNull(),
+    /** Dictionary that made the change; its name is kept if it is deleted. */
+    dictionaryId: int("dictionaryId").notNull(),
+    dictionaryName: varchar("dictionaryName", { length: 100 }).notNull(),
+    /** Recognized token(s), and what replaced them. */
+    original: varchar("original", { length: 255 }).notNull(),
+    suggestion: varchar("suggestion", { length: 255 }).notNull(),
+    startOffset: int("startOffset").notNull(),
+    endOffset: int("endOffset").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  t => [uniqueIndex("ocrCorrections_result_position").on(t.ocrResultId, t.position)]
+);
+
+export type OcrCorrection = typeof ocrCorrections.$inferSelect;
+export type InsertOcrCorrection = typeof ocrCorrections.$inferInsert;
+
+/**
+ * What recognizeAndSave does when the user already has a result for the
+ * identical file: "reuseIfSameSettings" returns it only if language,
+ * engine and preprocessing match, "reuse" always returns it, "rerun"
+ * always recognizes again. The stored image is reused in every case.
+ */
+export const OCR_DUPLICATE_POLICIES = ["reuseIfSameSettings", "reuse", "rerun"] as const;
+export type OcrDuplicatePolicy = (typeof OCR_DUPLICATE_POLICIES)[number];
+
+export const OCR_JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+export type OcrJobStatus = (typeof OCR_JOB_STATUSES)[number];
+
+/**
+ * Background OCR jobs submitted through ocr.submitJob
+ */
+export const ocrJobs = mysqlTable("ocrJobs", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
-  imageFileName: varchar("imageFileName", { length: 255 }).notNull(),
-  imageUrl: text("imageUrl").notNull(),
-  extractedText: text("extractedText").notNull(),
-  confidence: int("confidence").default(0).notNull(), // 0-100 confidence score
-  language: varchar("language", { length: 10 }).default("eng").notNull(),
-  processingTimeMs: int("processingTimeMs").default(0).notNull(),
+  status: mysqlEnum("status", OCR_JOB_STATUSES).default("queued").notNull(),
+  totalItems: int("totalItems").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
 });
 
-export type OcrResult = typeof ocrResults.$inferSelect;
-export type InsertOcrResult = typeof ocrResults.$inferInsert;
\ No newline at end of file
+export type OcrJob = typeof ocrJobs.$inferSelect;
+export type InsertOcrJob = typeof ocrJobs.$inferInsert;
+
+/**
+ * One image of an OCR job. The source image is uploaded to storage on submit.
+ */
+export const ocrJobItems = mysqlTable("ocrJobItems", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull(),
+  position: int("position").notNull(),
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  mimeType: varchar("mimeType", { length: 100 }).notNull(),
+  language: varchar("language", { length: 64 }).default("eng").notNull(),
+  engine: varchar("engine", { length: 64 }).default("tesseract").notNull(),
+  preprocessing: json("preprocessing").$type<PreprocessingProfile>(),
+  rotation: int("rotation").default(0).notNull(),
+  regions: json("regions").$type<OcrRegion[]>(),
+  parameters: json("parameters").$type<OcrParameters>(),
+  duplicates: mysqlEnum("duplicates", OCR_DUPLICATE_POLICIES)
+    .default("reuseIfSameSettings")
+    .notNull(),
+  imageKey: varchar("imageKey", { length: 512 }),
+  imageUrl: text("imageUrl"),
+  status: mysqlEnum("status", OCR_JOB_STATUSES).default("queued").notNull(),
+  progress: int("progress").default(0).notNull(), // 0-100 recognition progress
+  ocrResultId: int("ocrResultId"),
+  error: text("error"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type OcrJobItem = typeof ocrJobItems.$inferSelect;
+export type InsertOcrJobItem = typeof ocrJobItems.$inferInsert;
+
+/**
+ * Per-user overrides of the OCR quota defaults in ENV; null keeps the
+ * default and 0 means unlimited
+ */
+export const userQuotas = mysqlTable("userQuotas", {
+  userId: int("userId").primaryKey(),
+  imagesPerDay: int("imagesPerDay"),
+  pagesPerMonth: int("pagesPerMonth"),
+  storageBytes: bigint("storageBytes", { mode: "number" }),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type UserQuota = typeof userQuotas.$inferSelect;
+export type InsertUserQuota = typeof userQuotas.$inferInsert;
+
+/**
+ * Images and pages recognized per user per UTC day, counted against quotas.
+ * Deleting results does not give usage back.
+ */
+export const ocrUsage = mysqlTable(
+  "ocrUsage",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** UTC date, YYYY-MM-DD. */
+    day: varchar("day", { length: 10 }).notNull(),
+    images: int("images").default(0).notNull(),
+    pages: int("pages").default(0).notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  t => [uniqueIndex("ocrUsage_user_day").on(t.userId, t.day)]
+);
+
+export type OcrUsage = typeof ocrUsage.$inferSelect;
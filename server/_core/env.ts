@@ -7,4 +7,34 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  storageBackend: process.env.STORAGE_BACKEND ?? "",
+  localStorageDir: process.env.LOCAL_STORAGE_DIR ?? "data/storage",
+  s3Bucket: process.env.S3_BUCKET ?? "",
+  s3Region: process.env.S3_REGION ?? "us-east-1",
+  s3Endpoint: process.env.S3_ENDPOINT ?? "",
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID ?? "",
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+  s3UrlExpiresSeconds: parseInt(process.env.S3_URL_EXPIRES_SECONDS || "900"),
+  ocrEngine: process.env.OCR_ENGINE ?? "tesseract",
+  tesseractLangPath: process.env.TESSERACT_LANG_PATH ?? "",
+  ocrWorkerIdleMs: parseInt(process.env.OCR_WORKER_IDLE_MS || "300000"),
+  ocrJobConcurrency: parseInt(process.env.OCR_JOB_CONCURRENCY || "2"),
+  ocrJobPollMs: parseInt(process.env.OCR_JOB_POLL_MS || "2000"),
+  ocrMaxUploadMb: parseInt(process.env.OCR_MAX_UPLOAD_MB || "10"),
+  ocrMaxResumableUploadMb: parseInt(process.env.OCR_MAX_RESUMABLE_UPLOAD_MB || "200"),
+  ocrMaxImagePixels: parseInt(process.env.OCR_MAX_IMAGE_PIXELS || "100000000"),
+  ocrMaxImageDimension: parseInt(process.env.OCR_MAX_IMAGE_DIMENSION || "20000"),
+  ocrUploadChunkMb: parseInt(process.env.OCR_UPLOAD_CHUNK_MB || "5"),
+  ocrRateLimitPerMinute: parseInt(process.env.OCR_RATE_LIMIT_PER_MINUTE || "30"),
+  ocrMaxBatchSize: parseInt(process.env.OCR_MAX_BATCH_SIZE || "20"),
+  ocrQuotaImagesPerDay: parseInt(process.env.OCR_QUOTA_IMAGES_PER_DAY || "500"),
+  ocrQuotaPagesPerMonth: parseInt(process.env.OCR_QUOTA_PAGES_PER_MONTH || "5000"),
+  ocrQuotaStorageMb: parseInt(process.env.OCR_QUOTA_STORAGE_MB || "1024"),
+  ocrMaxPages: parseInt(process.env.OCR_MAX_PAGES || "50"),
+  pdftoppmPath: process.env.PDFTOPPM_PATH ?? "pdftoppm",
+  pdfinfoPath: process.env.PDFINFO_PATH ?? "pdfinfo",
+  pdfRenderDpi: parseInt(process.env.PDF_RENDER_DPI || "300"),
+  regexTimeoutMs: parseInt(process.env.REGEX_TIMEOUT_MS || "1000"),
+  regexBudgetMs: parseInt(process.env.REGEX_BUDGET_MS || "5000"),
 };
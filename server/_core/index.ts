@@ -5,6 +5,10 @@ import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
+import { startOcrJobWorker } from "../ocrJobQueue";
+import { registerOcrRoutes } from "../ocrRoutes";
+import { registerOcrUploadRoutes } from "../ocrUpload";
+import { registerStorageRoutes } from "../storageRoutes";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 
@@ -30,11 +34,17 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
-  // Configure body parser with larger size limit for file uploads
+  // Configure body parser with larger size limit for base64 images in
+  // ocr.processBatch/submitJob; single files use /api/ocr/upload instead
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // OCR uploads and downloads under /api/ocr/*
+  registerOcrUploadRoutes(app);
+  registerOcrRoutes(app);
+  // Stored images of the s3 and local storage backends under /api/storage/*
+  registerStorageRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +70,9 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background OCR job worker for ocr.submitJob
+  await startOcrJobWorker();
 }
 
 startServer().catch(console.error);
@@ -29,7 +29,10 @@ const GET_USER_INFO_PATH = `/AuthPath/GetUserInfo`;
 const GET_USER_INFO_WITH_JWT_PATH = `/AuthPath/GetUserInfoWithJwt`;
 
 class OAuthService {
-  constructor(private client: ReturnType<typeof axios.create>) {
+  private client: ReturnType<typeof axios.create>;
+
+  constructor(client: ReturnType<typeof axios.create>) {
+    this.client = client;
     console.log("[OAuth] Initialized with baseURL:", ENV.oAuthServerUrl);
     if (!ENV.oAuthServerUrl) {
       console.error(
@@ -1,10 +1,22 @@
 import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
-import { initTRPC, TRPCError } from "@trpc/server";
+import { HttpError } from "@shared/_core/errors";
+import { initTRPC, TRPCError, type TRPC_ERROR_CODE_KEY } from "@trpc/server";
 import superjson from "superjson";
+import { enforceOcrLimits } from "../ocrQuotas";
 import type { TrpcContext } from "./context";
 
 const initTrpcContext = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Machine-readable reason from an HttpError cause, e.g. "IMAGE_TOO_LARGE"
+        errorCode: error.cause instanceof HttpError ? (error.cause.code ?? null) : null,
+      },
+    };
+  },
 });
 
 export const router = initTrpcContext.router;
@@ -43,3 +55,55 @@ export const adminProcedure = initTrpcContext.procedure.use(
     });
   }),
 );
+
+const HTTP_STATUS_TRPC_CODES: Record<number, TRPC_ERROR_CODE_KEY> = {
+  400: "BAD_REQUEST",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  413: "PAYLOAD_TOO_LARGE",
+  415: "UNSUPPORTED_MEDIA_TYPE",
+  422: "UNPROCESSABLE_CONTENT",
+  429: "TOO_MANY_REQUESTS",
+  502: "BAD_GATEWAY",
+};
+
+/**
+ * TRPCError for an HttpError, keeping it as the cause so its code is sent
+ * as `data.errorCode`
+ */
+export function toTrpcError(error: HttpError) {
+  return new TRPCError({
+    code: HTTP_STATUS_TRPC_CODES[error.statusCode] ?? "BAD_REQUEST",
+    message: error.message,
+    cause: error,
+  });
+}
+
+function ocrRequestCost(input: unknown) {
+  const images =
+    input && typeof input === "object" && "images" in input && Array.isArray(input.images)
+      ? (input.images as unknown[])
+      : [input];
+  const bytes = images.reduce<number>((sum, image) => {
+    const data = (image as { imageData?: unknown } | undefined)?.imageData;
+    // Decoded size of the base64 payload
+    return sum + (typeof data === "string" ? Math.floor((data.length * 3) / 4) : 0);
+  }, 0);
+  return { images: images.length, bytes };
+}
+
+/**
+ * Procedures that start OCR: adds the per-user rate limit, batch size cap
+ * and quotas from server/ocrQuotas.ts
+ */
+export const ocrProcedure = protectedProcedure.use(async opts => {
+  const { ctx, next, getRawInput } = opts;
+
+  try {
+    await enforceOcrLimits(ctx.user.id, ocrRequestCost(await getRawInput()));
+  } catch (error) {
+    throw error instanceof HttpError ? toTrpcError(error) : error;
+  }
+
+  return next();
+});
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { purgeOcrResults, setUserRole } from "./db";
+import { storageDelete } from "./storage";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  purgeOcrResults: vi.fn(),
+  setUserRole: vi.fn(async () => true),
+}));
+
+vi.mock("./storage", () => ({
+  storageDelete: vi.fn(async () => undefined),
+}));
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(role: AuthenticatedUser["role"]): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "filler",
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+describe("admin router", () => {
+  beforeEach(() => {
+    vi.mocked(purgeOcrResults).mockReset();
+    vi.mocked(setUserRole).mockClear();
+    vi.mocked(storageDelete).mockReset();
+  });
+
+  it("should reject users without the admin role", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(caller.admin.listUsers()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.admin.purgeUserResults({ userId: 2 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(purgeOcrResults).not.toHaveBeenCalled();
+  });
+
+  it("should not let admins change their own role", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.admin.setUserRole({ userId: 1, role: "user" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(setUserRole).not.toHaveBeenCalled();
+
+    await expect(caller.admin.setUserRole({ userId: 2, role: "admin" })).resolves.toEqual({
+      success: true,
+    });
+    expect(setUserRole).toHaveBeenCalledWith(2, "admin");
+  });
+
+  it("should purge results and report images that fail to delete", async () => {
+    vi.mocked(purgeOcrResults).mockResolvedValue({
+      deleted: 3,
+      imageKeys: ["ocr/2/a.png", "ocr/2/b.png"],
+      unkeyedImages: 1,
+    });
+    vi.mocked(storageDelete).mockImplementation(async key => {
+      if (key === "ocr/2/b.png") throw new Error("storage unavailable");
+    });
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    const result = await caller.admin.purgeUserResults({ userId: 2, resultIds: [4, 5, 6] });
+
+    expect(purgeOcrResults).toHaveBeenCalledWith(2, [4, 5, 6]);
+    expect(storageDelete).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      deletedResults: 3,
+      deletedImages: 1,
+      failedImages: ["ocr/2/b.png"],
+      skippedImages: 1,
+    });
+  });
+
+  it("should report worker and queue health", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    const health = await caller.admin.health();
+
+    expect(health.engines).toContain("tesseract");
+    expect(health.workers).toEqual(expect.any(Array));
+    expect(health.jobWorker).toMatchObject({ polling: false, running: 0 });
+  });
+});
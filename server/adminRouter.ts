@@ -0,0 +1,231 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { adminProcedure, router } from "./_core/trpc";
+import {
+  getOcrJobQueueCounts,
+  getOcrPages,
+  getOcrResultById,
+  getOcrResultStats,
+  getUserById,
+  getUserQuota,
+  listOcrResults,
+  listUsersWithOcrStats,
+  purgeOcrResults,
+  setUserRole,
+  upsertUserQuota,
+} from "./db";
+import { getOcrJobWorkerStats } from "./ocrJobQueue";
+import { listOcrEngines } from "./ocrEngine";
+import { getOcrUsage } from "./ocrQuotas";
+import { getOcrWorkerPoolStats } from "./ocrWorkerPool";
+import { storageDelete } from "./storage";
+
+const userIdInput = z.object({ userId: z.number().int() });
+
+/** null keeps the ENV default, 0 means unlimited. */
+const quotaLimitInput = z.number().int().min(0).nullable();
+
+async function findUser(userId: number) {
+  let user;
+  try {
+    user = await getUserById(userId);
+  } catch (error) {
+    console.error("[Admin] Failed to get user:", error);
+    throw new Error("Failed to retrieve user");
+  }
+  if (!user) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+  }
+  return user;
+}
+
+/**
+ * Operations console: users and roles, per-user OCR statistics and
+ * quotas, inspecting and purging any user's results, and worker health.
+ * Every procedure requires the admin role.
+ */
+export const adminRouter = router({
+  listUsers: adminProcedure
+    .input(
+      z
+        .object({
+          search: z.string().trim().max(320).optional(),
+          limit: z.number().int().min(1).max(100).default(50),
+          offset: z.number().int().min(0).default(0),
+        })
+        .default({ limit: 50, offset: 0 })
+    )
+    .query(async ({ input }) => {
+      try {
+        return await listUsersWithOcrStats({ ...input, search: input.search || undefined });
+      } catch (error) {
+        console.error("[Admin] Failed to list users:", error);
+        throw new Error("Failed to list users");
+      }
+    }),
+
+  /**
+   * Admins cannot change their own role, so the last admin can't lock
+   * everyone out by accident
+   */
+  setUserRole: adminProcedure
+    .input(userIdInput.extend({ role: z.enum(["user", "admin"]) }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.userId === ctx.user.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot change your own role" });
+      }
+
+      let updated;
+      try {
+        updated = await setUserRole(input.userId, input.role);
+      } catch (error) {
+        console.error("[Admin] Failed to set user role:", error);
+        throw new Error("Failed to update user role");
+      }
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * A user's result totals, quota usage and quota overrides
+   */
+  getUserStats: adminProcedure.input(userIdInput).query(async ({ input }) => {
+    const user = await findUser(input.userId);
+    try {
+      const [results, usage, quota] = await Promise.all([
+        getOcrResultStats(user.id),
+        getOcrUsage(user.id),
+        getUserQuota(user.id),
+      ]);
+      return {
+        user,
+        results,
+        usage,
+        quota: {
+          imagesPerDay: quota?.imagesPerDay ?? null,
+          pagesPerMonth: quota?.pagesPerMonth ?? null,
+          storageBytes: quota?.storageBytes ?? null,
+        },
+      };
+    } catch (error) {
+      console.error("[Admin] Failed to get user stats:", error);
+      throw new Error("Failed to retrieve user statistics");
+    }
+  }),
+
+  setUserQuota: adminProcedure
+    .input(
+      userIdInput.extend({
+        imagesPerDay: quotaLimitInput,
+        pagesPerMonth: quotaLimitInput,
+        storageBytes: quotaLimitInput,
+      })
+    )
+    .mutation(async ({ input }) => {
+      await findUser(input.userId);
+      try {
+        await upsertUserQuota(input);
+      } catch (error) {
+        console.error("[Admin] Failed to set user quota:", error);
+        throw new Error("Failed to update user quota");
+      }
+      return { success: true };
+    }),
+
+  /**
+   * A page of a user's results, newest first (without full text)
+   */
+  listUserResults: adminProcedure
+    .input(
+      userIdInput.extend({
+        cursor: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        return await listOcrResults(input.userId, {
+          cursor: input.cursor,
+          limit: input.limit,
+          sortBy: "date",
+          sortOrder: "desc",
+        });
+      } catch (error) {
+        console.error("[Admin] Failed to list user results:", error);
+        throw new Error("Failed to retrieve OCR results");
+      }
+    }),
+
+  getUserResult: adminProcedure
+    .input(userIdInput.extend({ id: z.number() }))
+    .query(async ({ input }) => {
+      let result;
+      let pages;
+      try {
+        result = await getOcrResultById(input.id, input.userId);
+        pages = result ? await getOcrPages(input.id, input.userId) : [];
+      } catch (error) {
+        console.error("[Admin] Failed to get user result:", error);
+        throw new Error("Failed to retrieve OCR result");
+      }
+      if (!result) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "OCR result not found" });
+      }
+      return { ...result, pages };
+    }),
+
+  /**
+   * Delete a user's results (all of them unless `resultIds` is given) and
+   * their stored images. Images that fail to delete are reported rather
+   * than failing the purge, since the rows are already gone.
+   */
+  purgeUserResults: adminProcedure
+    .input(userIdInput.extend({ resultIds: z.array(z.number()).min(1).max(1000).optional() }))
+    .mutation(async ({ input }) => {
+      let purged;
+      try {
+        purged = await purgeOcrResults(input.userId, input.resultIds);
+      } catch (error) {
+        console.error("[Admin] Failed to purge user results:", error);
+        throw new Error("Failed to purge OCR results");
+      }
+
+      const failedImages: string[] = [];
+      for (const key of purged.imageKeys) {
+        try {
+          await storageDelete(key);
+        } catch (error) {
+          console.error(`[Admin] Failed to delete stored image ${key}:`, error);
+          failedImages.push(key);
+        }
+      }
+
+      return {
+        deletedResults: purged.deleted,
+        deletedImages: purged.imageKeys.length - failedImages.length,
+        failedImages,
+        skippedImages: purged.unkeyedImages,
+      };
+    }),
+
+  /**
+   * OCR engines, pooled Tesseract workers and the background job queue
+   */
+  health: adminProcedure.query(async () => {
+    let queue;
+    try {
+      queue = await getOcrJobQueueCounts();
+    } catch (error) {
+      console.error("[Admin] Failed to get job queue counts:", error);
+      throw new Error("Failed to retrieve job queue status");
+    }
+    return {
+      engines: listOcrEngines().map(engine => engine.name),
+      workers: getOcrWorkerPoolStats(),
+      jobWorker: getOcrJobWorkerStats(),
+      queue: queue ?? null,
+    };
+  }),
+});
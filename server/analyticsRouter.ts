@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { adminProcedure, protectedProcedure, router } from "./_core/trpc";
+import { OCR_ANALYTICS_MAX_DAYS, getOcrAnalytics } from "./ocrAnalytics";
+
+const analyticsInput = z
+  .object({ days: z.number().int().min(1).max(OCR_ANALYTICS_MAX_DAYS).default(30) })
+  .default({ days: 30 });
+
+/**
+ * Throughput, processing time, confidence and failure-rate analytics for
+ * the user's own results, or for every user through `getGlobal`
+ */
+export const analyticsRouter = router({
+  get: protectedProcedure.input(analyticsInput).query(async ({ ctx, input }) => {
+    try {
+      return await getOcrAnalytics({ userId: ctx.user.id }, input.days);
+    } catch (error) {
+      console.error("[Analytics] Failed to get analytics:", error);
+      throw new Error("Failed to retrieve analytics");
+    }
+  }),
+
+  getGlobal: adminProcedure.input(analyticsInput).query(async ({ input }) => {
+    try {
+      return await getOcrAnalytics({}, input.days);
+    } catch (error) {
+      console.error("[Analytics] Failed to get global analytics:", error);
+      throw new Error("Failed to retrieve analytics");
+    }
+  }),
+});
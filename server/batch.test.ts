@@ -1,6 +1,20 @@
-import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { describe, expect, it, vi } from "vitest";
 import { appRouter } from "./routers";
 import type { TrpcContext } from "./_core/context";
+import { createFixtureOcrEngine } from "./fixtureOcrEngine";
+import { registerOcrEngine } from "./ocrEngine";
+
+vi.mock("./storage", () => ({
+  storagePut: async (key: string) => ({ key, url: `https://storage.test/${key}` }),
+}));
+
+registerOcrEngine(
+  createFixtureOcrEngine([
+    { width: 120, height: 40, text: "first page" },
+    { width: 160, height: 40, text: "second page" },
+  ])
+);
 
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
@@ -25,7 +39,7 @@ function createAuthContext(): { ctx: TrpcContext } {
     } as TrpcContext["req"],
     res: {
       clearCookie: () => {},
-    } as TrpcContext["res"],
+    } as unknown as TrpcContext["res"],
   };
 
   return { ctx };
@@ -84,8 +98,8 @@ describe("OCR Batch Processing", () => {
         images: [
           {
             imageData: validBase64,
-            fileName: "test.pdf",
-            mimeType: "application/pdf",
+            fileName: "test.zip",
+            mimeType: "application/zip",
             language: "eng",
           },
         ],
@@ -94,10 +108,78 @@ describe("OCR Batch Processing", () => {
       expect(result.success).toBe(true);
       expect(result.results).toHaveLength(0);
       expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].code).toBe("IMAGE_UNSUPPORTED_FORMAT");
       expect(result.totalFailed).toBe(1);
     });
 
+    it("should recognize valid images with the selected engine", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+      const image = (width: number) =>
+        sharp({ create: { width, height: 40, channels: 3, background: "#ffffff" } })
+          .png()
+          .toBuffer()
+          .then(buffer => buffer.toString("base64"));
+
+      const result = await caller.ocr.processBatch({
+        images: [
+          { imageData: await image(120), fileName: "a.png", mimeType: "image/png", engine: "fixture" },
+          { imageData: await image(160), fileName: "b.png", mimeType: "image/png", engine: "fixture" },
+          { imageData: await image(80), fileName: "c.png", mimeType: "image/png", engine: "fixture" },
+        ],
+      });
+
+      expect(result.results.map(item => [item.fileName, item.text, item.engine])).toEqual([
+        ["a.png", "first page", "fixture"],
+        ["b.png", "second page", "fixture"],
+      ]);
+      expect(result.errors).toEqual([
+        {
+          fileName: "c.png",
+          error: "No OCR fixture matches 80x40 image (eng)",
+          code: "OCR_RECOGNITION_FAILED",
+        },
+      ]);
+    });
+
+    it("should reject unknown engines", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
 
+      await expect(
+        caller.ocr.processBatch({
+          images: [
+            { imageData: "dGVzdA==", fileName: "a.png", mimeType: "image/png", engine: "nope" },
+          ],
+        })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+
+    it("should report mismatched content with a structured code", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(
+        caller.ocr.processImage({
+          imageData: Buffer.from("%PDF-1.4\n%%EOF\n").toString("base64"),
+          fileName: "renamed.png",
+          mimeType: "image/png",
+        })
+      ).rejects.toMatchObject({
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        cause: { code: "IMAGE_FORMAT_MISMATCH" },
+      });
+    });
+
+    it("should reject batches larger than the batch size cap", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+      const image = { imageData: "dGVzdA==", fileName: "a.png", mimeType: "image/png" };
+
+      await expect(
+        caller.ocr.processBatch({ images: Array.from({ length: 21 }, () => image) })
+      ).rejects.toMatchObject({ code: "BAD_REQUEST", cause: { code: "BATCH_TOO_LARGE" } });
+    });
 
     it("should track correct statistics", async () => {
       const { ctx } = createAuthContext();
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+describe("History Cursor", () => {
+  it("should round-trip dates, numbers and strings", () => {
+    const date = new Date("2026-03-14T09:30:00.000Z");
+    expect(decodeCursor(encodeCursor(date, 7))).toEqual({ value: date, id: 7 });
+    expect(decodeCursor(encodeCursor(93, 8))).toEqual({ value: 93, id: 8 });
+    expect(decodeCursor(encodeCursor("invoice.png", 9))).toEqual({
+      value: "invoice.png",
+      id: 9,
+    });
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor")).toBeUndefined();
+    expect(decodeCursor(Buffer.from('{"v":1}').toString("base64url"))).toBeUndefined();
+  });
+});
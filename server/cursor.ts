@@ -0,0 +1,32 @@
+/**
+ * Opaque keyset-pagination cursors: the sort value and id of the last row
+ * of a page, base64url encoded so clients treat them as tokens.
+ */
+
+export type CursorValue = string | number | Date;
+
+type EncodedCursor = { v: string | number; d?: true; id: number };
+
+export function encodeCursor(value: CursorValue, id: number): string {
+  const payload: EncodedCursor =
+    value instanceof Date ? { v: value.toISOString(), d: true, id } : { v: value, id };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decode a cursor; returns undefined for malformed input
+ */
+export function decodeCursor(cursor: string): { value: CursorValue; id: number } | undefined {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8")
+    ) as EncodedCursor;
+    if (typeof payload.id !== "number") return undefined;
+    if (typeof payload.v !== "string" && typeof payload.v !== "number") return undefined;
+    const value = payload.d ? new Date(payload.v) : payload.v;
+    if (value instanceof Date && Number.isNaN(value.getTime())) return undefined;
+    return { value, id: payload.id };
+  } catch {
+    return undefined;
+  }
+}
@@ -1,7 +1,55 @@
-import { and, desc, eq } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  like,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, ocrResults, InsertOcrResult } from "../drizzle/schema";
+import {
+  type InsertUser,
+  type User,
+  users,
+  ocrResults,
+  type InsertOcrResult,
+  type OcrResultStatus,
+  ocrLayouts,
+  type OcrLayout,
+  ocrJobs,
+  ocrJobItems,
+  type InsertOcrJobItem,
+  OCR_JOB_STATUSES,
+  type OcrJobStatus,
+  ocrPages,
+  type InsertOcrPage,
+  ocrRegions,
+  type InsertOcrRegion,
+  ocrTextRevisions,
+  type InsertOcrTextRevision,
+  extractionTemplates,
+  type InsertExtractionTemplate,
+  ocrExtractions,
+  type InsertOcrExtraction,
+  ocrDictionaries,
+  type InsertOcrDictionary,
+  ocrCorrections,
+  type InsertOcrCorrection,
+  userQuotas,
+  type InsertUserQuota,
+  ocrUsage,
+} from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { decodeCursor, encodeCursor } from "./cursor";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -89,25 +137,370 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getUserById(id: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get user: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Page through all users, most recently signed in first, with totals
+ * from their OCR results (storage includes failed attempts). `search`
+ * matches name, email or openId.
+ */
+export async function listUsersWithOcrStats(options: {
+  search?: string;
+  limit: number;
+  offset: number;
+}) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list users: database not available");
+    return { items: [], total: 0 };
+  }
+
+  const pattern = options.search ? `%${options.search.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+  const where = pattern
+    ? or(like(users.name, pattern), like(users.email, pattern), like(users.openId, pattern))
+    : undefined;
+
+  try {
+    const succeeded = sql`${ocrResults.status} = 'succeeded'`;
+    const stats = db
+      .select({
+        userId: ocrResults.userId,
+        results: sql<number>`SUM(${succeeded})`.as("results"),
+        avgConfidence: sql<number | null>`AVG(IF(${succeeded}, ${ocrResults.confidence}, NULL))`.as(
+          "avgConfidence"
+        ),
+        totalProcessingTimeMs: sql<number>`SUM(IF(${succeeded}, ${ocrResults.processingTimeMs}, 0))`.as(
+          "totalProcessingTimeMs"
+        ),
+        storageBytes: sql<number>`SUM(${ocrResults.storageBytes})`.as("storageBytes"),
+      })
+      .from(ocrResults)
+      .groupBy(ocrResults.userId)
+      .as("stats");
+
+    const rows = await db
+      .select({
+        id: users.id,
+        openId: users.openId,
+        name: users.name,
+        email: users.email,
+        loginMethod: users.loginMethod,
+        role: users.role,
+        createdAt: users.createdAt,
+        lastSignedIn: users.lastSignedIn,
+        results: stats.results,
+        avgConfidence: stats.avgConfidence,
+        totalProcessingTimeMs: stats.totalProcessingTimeMs,
+        storageBytes: stats.storageBytes,
+      })
+      .from(users)
+      .leftJoin(stats, eq(stats.userId, users.id))
+      .where(where)
+      .orderBy(desc(users.lastSignedIn), desc(users.id))
+      .limit(options.limit)
+      .offset(options.offset);
+    const [count] = await db
+      .select({ total: sql<number>`COUNT(*)` })
+      .from(users)
+      .where(where);
+
+    return {
+      items: rows.map(row => ({
+        ...row,
+        results: Number(row.results ?? 0),
+        // MySQL returns AVG and SUM as decimal strings
+        avgConfidence: row.avgConfidence === null ? null : Number(row.avgConfidence),
+        totalProcessingTimeMs: Number(row.totalProcessingTimeMs ?? 0),
+        storageBytes: Number(row.storageBytes ?? 0),
+      })),
+      total: Number(count?.total ?? 0),
+    };
+  } catch (error) {
+    console.error("[Database] Failed to list users:", error);
+    throw error;
+  }
+}
+
+/**
+ * Change a user's role; false if the user does not exist
+ */
+export async function setUserRole(id: number, role: User["role"]) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot set user role: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db.update(users).set({ role }).where(eq(users.id, id));
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to set user role:", error);
+    throw error;
+  }
+}
+
+export const OCR_HISTORY_SORT_FIELDS = ["date", "confidence", "processingTime", "fileName"] as const;
+export type OcrHistorySortField = (typeof OCR_HISTORY_SORT_FIELDS)[number];
+
+const historySortColumns = {
+  date: ocrResults.createdAt,
+  confidence: ocrResults.confidence,
+  processingTime: ocrResults.processingTimeMs,
+  fileName: ocrResults.imageFileName,
+} as const;
+
+export type OcrHistoryOptions = {
+  cursor?: string;
+  limit: number;
+  sortBy: OcrHistorySortField;
+  sortOrder: "asc" | "desc";
+  language?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+  dateFrom?: Date;
+  dateTo?: Date;
+  status?: OcrResultStatus;
+};
+
 /**
- * Get all OCR results for a user
+ * Page through a user's OCR results with keyset pagination.
+ * Rows omit extractedText; use getOcrResultById for the full result.
  */
-export async function getUserOcrResults(userId: number) {
+export async function listOcrResults(userId: number, options: OcrHistoryOptions) {
   const db = await getDb();
   if (!db) {
     console.warn("[Database] Cannot get OCR results: database not available");
+    return { items: [], nextCursor: null };
+  }
+
+  const sortColumn = historySortColumns[options.sortBy];
+  const conditions: (SQL | undefined)[] = [eq(ocrResults.userId, userId)];
+  if (options.language) conditions.push(eq(ocrResults.language, options.language));
+  if (options.minConfidence !== undefined) {
+    conditions.push(gte(ocrResults.confidence, options.minConfidence));
+  }
+  if (options.maxConfidence !== undefined) {
+    conditions.push(lte(ocrResults.confidence, options.maxConfidence));
+  }
+  if (options.dateFrom) conditions.push(gte(ocrResults.createdAt, options.dateFrom));
+  if (options.dateTo) conditions.push(lte(ocrResults.createdAt, options.dateTo));
+  if (options.status) conditions.push(eq(ocrResults.status, options.status));
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (!cursor) throw new Error("Invalid history cursor");
+    // Rows after (value, id) in the current order; id breaks ties.
+    const after = options.sortOrder === "desc" ? lt : gt;
+    conditions.push(
+      or(
+        after(sortColumn, cursor.value),
+        and(eq(sortColumn, cursor.value), after(ocrResults.id, cursor.id))
+      )
+    );
+  }
+
+  const direction = options.sortOrder === "desc" ? desc : asc;
+
+  try {
+    const rows = await db
+      .select({
+        id: ocrResults.id,
+        imageFileName: ocrResults.imageFileName,
+        imageUrl: ocrResults.imageUrl,
+        confidence: ocrResults.confidence,
+        language: ocrResults.language,
+        engine: ocrResults.engine,
+        processingTimeMs: ocrResults.processingTimeMs,
+        pageCount: ocrResults.pageCount,
+        status: ocrResults.status,
+        errorCode: ocrResults.errorCode,
+        errorMessage: ocrResults.errorMessage,
+        createdAt: ocrResults.createdAt,
+        textPreview: sql<string>`LEFT(${ocrResults.extractedText}, 200)`,
+      })
+      .from(ocrResults)
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(ocrResults.id))
+      .limit(options.limit + 1);
+
+    const items = rows.slice(0, options.limit);
+    const last = items[items.length - 1];
+    const sortValue = (row: (typeof rows)[number]) =>
+      ({
+        date: row.createdAt,
+        confidence: row.confidence,
+        processingTime: row.processingTimeMs,
+        fileName: row.imageFileName,
+      })[options.sortBy];
+
+    return {
+      items,
+      nextCursor:
+        rows.length > options.limit && last ? encodeCursor(sortValue(last), last.id) : null,
+    };
+  } catch (error) {
+    console.error("[Database] Failed to get OCR results:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get one OCR result owned by the user
+ */
+export async function getOcrResultById(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR result: database not available");
+    return undefined;
+  }
+
+  try {
+    const result = await db
+      .select()
+      .from(ocrResults)
+      .where(and(eq(ocrResults.id, id), eq(ocrResults.userId, userId)))
+      .limit(1);
+    return result.length > 0 ? result[0] : undefined;
+  } catch (error) {
+    console.error("[Database] Failed to get OCR result:", error);
+    throw error;
+  }
+}
+
+/**
+ * The user's results for an identical upload, newest first
+ */
+export async function findOcrResultsBySha256(userId: number, sha256: string) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot look up OCR results by hash: database not available");
     return [];
   }
 
   try {
-    const results = await db
+    return await db
       .select()
       .from(ocrResults)
-      .where(eq(ocrResults.userId, userId))
-      .orderBy((t) => desc(t.createdAt));
-    return results;
+      .where(and(eq(ocrResults.userId, userId), eq(ocrResults.sha256, sha256)))
+      .orderBy(desc(ocrResults.createdAt), desc(ocrResults.id))
+      .limit(20);
   } catch (error) {
-    console.error("[Database] Failed to get OCR results:", error);
+    console.error("[Database] Failed to look up OCR results by hash:", error);
+    throw error;
+  }
+}
+
+/**
+ * The user's other results whose perceptual hash is within `maxDistance`
+ * bits of `perceptualHash`, closest first
+ */
+export async function findSimilarOcrResults(
+  userId: number,
+  excludeId: number,
+  perceptualHash: string,
+  maxDistance: number,
+  limit: number
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot find similar OCR results: database not available");
+    return [];
+  }
+
+  try {
+    const distance = sql<number>`BIT_COUNT(CAST(CONV(${ocrResults.perceptualHash}, 16, 10) AS UNSIGNED) ^ CAST(CONV(${perceptualHash}, 16, 10) AS UNSIGNED))`;
+    const rows = await db
+      .select({
+        id: ocrResults.id,
+        imageFileName: ocrResults.imageFileName,
+        imageUrl: ocrResults.imageUrl,
+        confidence: ocrResults.confidence,
+        language: ocrResults.language,
+        sha256: ocrResults.sha256,
+        createdAt: ocrResults.createdAt,
+        distance,
+      })
+      .from(ocrResults)
+      .where(
+        and(
+          eq(ocrResults.userId, userId),
+          ne(ocrResults.id, excludeId),
+          isNotNull(ocrResults.perceptualHash),
+          sql`${distance} <= ${maxDistance}`
+        )
+      )
+      .orderBy(asc(distance), desc(ocrResults.createdAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row, distance: Number(row.distance) }));
+  } catch (error) {
+    console.error("[Database] Failed to find similar OCR results:", error);
+    throw error;
+  }
+}
+
+export type OcrSearchFilters = {
+  /** MySQL boolean-mode full-text expression. */
+  booleanQuery: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  language?: string;
+  minConfidence?: number;
+  limit: number;
+  offset: number;
+};
+
+/**
+ * Full-text search over a user's OCR results, best matches first
+ */
+export async function searchOcrResults(userId: number, filters: OcrSearchFilters) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot search OCR results: database not available");
+    return [];
+  }
+
+  try {
+    // Backed by the FULLTEXT index of drizzle/0001_ocr_search_fulltext.sql
+    const score = sql<number>`MATCH(${ocrResults.extractedText}, ${ocrResults.imageFileName}) AGAINST (${filters.booleanQuery} IN BOOLEAN MODE)`;
+    const conditions: SQL[] = [eq(ocrResults.userId, userId), sql`${score} > 0`];
+    if (filters.dateFrom) conditions.push(gte(ocrResults.createdAt, filters.dateFrom));
+    if (filters.dateTo) conditions.push(lte(ocrResults.createdAt, filters.dateTo));
+    if (filters.language) conditions.push(eq(ocrResults.language, filters.language));
+    if (filters.minConfidence !== undefined) {
+      conditions.push(gte(ocrResults.confidence, filters.minConfidence));
+    }
+
+    return await db
+      .select({
+        id: ocrResults.id,
+        imageFileName: ocrResults.imageFileName,
+        imageUrl: ocrResults.imageUrl,
+        extractedText: ocrResults.extractedText,
+        confidence: ocrResults.confidence,
+        language: ocrResults.language,
+        engine: ocrResults.engine,
+        pageCount: ocrResults.pageCount,
+        createdAt: ocrResults.createdAt,
+        score,
+      })
+      .from(ocrResults)
+      .where(and(...conditions))
+      .orderBy(desc(score), desc(ocrResults.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  } catch (error) {
+    console.error("[Database] Failed to search OCR results:", error);
     throw error;
   }
 }
@@ -123,8 +516,8 @@ export async function saveOcrResult(result: InsertOcrResult) {
   }
 
   try {
-    await db.insert(ocrResults).values(result);
-    return result;
+    const [{ id }] = await db.insert(ocrResults).values(result).$returningId();
+    return { ...result, id };
   } catch (error) {
     console.error("[Database] Failed to save OCR result:", error);
     throw error;
@@ -132,23 +525,1303 @@ export async function saveOcrResult(result: InsertOcrResult) {
 }
 
 /**
- * Delete OCR result by ID
+ * Delete OCR result by ID with its dependent rows; returns the storage keys
+ * no remaining result refers to (see purgeOcrResults)
  */
 export async function deleteOcrResult(id: number, userId: number) {
+  return purgeOcrResults(userId, [id]);
+}
+
+/**
+ * Update an OCR result owned by the user; false if there is none
+ */
+export async function updateOcrResult(
+  id: number,
+  userId: number,
+  values: Partial<Omit<InsertOcrResult, "id" | "userId">>
+) {
   const db = await getDb();
   if (!db) {
-    console.warn("[Database] Cannot delete OCR result: database not available");
+    console.warn("[Database] Cannot update OCR result: database not available");
     return false;
   }
 
   try {
-    // Ensure user can only delete their own results
-    const result = await db
-      .delete(ocrResults)
+    const [result] = await db
+      .update(ocrResults)
+      .set(values)
       .where(and(eq(ocrResults.id, id), eq(ocrResults.userId, userId)));
-    return true;
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to update OCR result:", error);
+    throw error;
+  }
+}
+
+/** Retries still "pending" after this long are assumed to have died with their process. */
+const OCR_RETRY_STALE_MS = 15 * 60 * 1000;
+
+/**
+ * Mark a failed result "pending" for a retry. False if it is not failed,
+ * e.g. because another retry claimed it first.
+ */
+export async function claimFailedOcrResult(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot claim OCR result: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db
+      .update(ocrResults)
+      .set({ status: "pending" })
+      .where(
+        and(
+          eq(ocrResults.id, id),
+          eq(ocrResults.userId, userId),
+          or(
+            eq(ocrResults.status, "failed"),
+            and(
+              eq(ocrResults.status, "pending"),
+              lt(ocrResults.updatedAt, new Date(Date.now() - OCR_RETRY_STALE_MS))
+            )
+          )
+        )
+      );
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to claim OCR result:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the structured layout for an OCR result
+ */
+export async function saveOcrLayout(
+  ocrResultId: number,
+  layout: OcrLayout,
+  pageNumber = 1
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save OCR layout: database not available");
+    return;
+  }
+
+  try {
+    await db.insert(ocrLayouts).values({ ocrResultId, pageNumber, layout });
+  } catch (error) {
+    console.error("[Database] Failed to save OCR layout:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the layout of one page of an OCR result owned by the user
+ */
+export async function getOcrLayout(
+  ocrResultId: number,
+  userId: number,
+  pageNumber = 1
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR layout: database not available");
+    return undefined;
+  }
+
+  try {
+    const result = await db
+      .select({ layout: ocrLayouts.layout })
+      .from(ocrLayouts)
+      .innerJoin(ocrResults, eq(ocrLayouts.ocrResultId, ocrResults.id))
+      .where(
+        and(
+          eq(ocrLayouts.ocrResultId, ocrResultId),
+          eq(ocrLayouts.pageNumber, pageNumber),
+          eq(ocrResults.userId, userId)
+        )
+      )
+      .limit(1);
+    return result.length > 0 ? result[0].layout : undefined;
+  } catch (error) {
+    console.error("[Database] Failed to get OCR layout:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the layouts of every page of an OCR result, in page order
+ */
+export async function getOcrLayouts(ocrResultId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR layouts: database not available");
+    return [];
+  }
+
+  try {
+    return await db
+      .select({ pageNumber: ocrLayouts.pageNumber, layout: ocrLayouts.layout })
+      .from(ocrLayouts)
+      .innerJoin(ocrResults, eq(ocrLayouts.ocrResultId, ocrResults.id))
+      .where(and(eq(ocrLayouts.ocrResultId, ocrResultId), eq(ocrResults.userId, userId)))
+      .orderBy(asc(ocrLayouts.pageNumber));
+  } catch (error) {
+    console.error("[Database] Failed to get OCR layouts:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the ordered page results of a multi-page OCR result
+ */
+export async function saveOcrPages(
+  ocrResultId: number,
+  pages: Omit<InsertOcrPage, "ocrResultId">[]
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save OCR pages: database not available");
+    return;
+  }
+
+  try {
+    await db.insert(ocrPages).values(pages.map(page => ({ ...page, ocrResultId })));
+  } catch (error) {
+    console.error("[Database] Failed to save OCR pages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the ordered pages of an OCR result owned by the user
+ */
+export async function getOcrPages(ocrResultId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR pages: database not available");
+    return [];
+  }
+
+  try {
+    const rows = await db
+      .select({ page: ocrPages })
+      .from(ocrPages)
+      .innerJoin(ocrResults, eq(ocrPages.ocrResultId, ocrResults.id))
+      .where(and(eq(ocrPages.ocrResultId, ocrResultId), eq(ocrResults.userId, userId)))
+      .orderBy(asc(ocrPages.pageNumber));
+    return rows.map(row => row.page);
+  } catch (error) {
+    console.error("[Database] Failed to get OCR pages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the region-of-interest results of an OCR result
+ */
+export async function saveOcrRegions(
+  ocrResultId: number,
+  regions: Omit<InsertOcrRegion, "ocrResultId">[]
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save OCR regions: database not available");
+    return;
+  }
+
+  try {
+    await db.delete(ocrRegions).where(eq(ocrRegions.ocrResultId, ocrResultId));
+    if (regions.length > 0) {
+      await db.insert(ocrRegions).values(regions.map(region => ({ ...region, ocrResultId })));
+    }
+  } catch (error) {
+    console.error("[Database] Failed to save OCR regions:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the regions of an OCR result owned by the user, in request order
+ */
+export async function getOcrRegions(ocrResultId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR regions: database not available");
+    return [];
+  }
+
+  try {
+    const rows = await db
+      .select({ region: ocrRegions })
+      .from(ocrRegions)
+      .innerJoin(ocrResults, eq(ocrRegions.ocrResultId, ocrResults.id))
+      .where(and(eq(ocrRegions.ocrResultId, ocrResultId), eq(ocrResults.userId, userId)))
+      .orderBy(asc(ocrRegions.position));
+    return rows.map(row => row.region);
+  } catch (error) {
+    console.error("[Database] Failed to get OCR regions:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the dictionary corrections of an OCR result
+ */
+export async function saveOcrCorrections(
+  ocrResultId: number,
+  corrections: Omit<InsertOcrCorrection, "ocrResultId">[]
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save OCR corrections: database not available");
+    return;
+  }
+
+  try {
+    await db.delete(ocrCorrections).where(eq(ocrCorrections.ocrResultId, ocrResultId));
+    if (corrections.length > 0) {
+      await db
+        .insert(ocrCorrections)
+        .values(corrections.map(correction => ({ ...correction, ocrResultId })));
+    }
+  } catch (error) {
+    console.error("[Database] Failed to save OCR corrections:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the dictionary corrections of an OCR result owned by the user, in text order
+ */
+export async function getOcrCorrections(ocrResultId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR corrections: database not available");
+    return [];
+  }
+
+  try {
+    const rows = await db
+      .select({ correction: ocrCorrections })
+      .from(ocrCorrections)
+      .innerJoin(ocrResults, eq(ocrCorrections.ocrResultId, ocrResults.id))
+      .where(and(eq(ocrCorrections.ocrResultId, ocrResultId), eq(ocrResults.userId, userId)))
+      .orderBy(asc(ocrCorrections.position));
+    return rows.map(row => row.correction);
+  } catch (error) {
+    console.error("[Database] Failed to get OCR corrections:", error);
+    throw error;
+  }
+}
+
+/**
+ * Store a corrected text as the result's next revision.
+ * Returns undefined if `baseRevision` is no longer the latest revision.
+ */
+export async function saveOcrTextRevision(
+  ocrResultId: number,
+  baseRevision: number,
+  revision: InsertOcrTextRevision
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save OCR text revision: database not available");
+    return undefined;
+  }
+
+  try {
+    return await db.transaction(async tx => {
+      // Compare-and-set on the revision counter guards against concurrent edits
+      const [updated] = await tx
+        .update(ocrResults)
+        .set({
+          originalText: sql`COALESCE(${ocrResults.originalText}, ${ocrResults.extractedText})`,
+          extractedText: revision.text,
+          revision: revision.revision,
+        })
+        .where(
+          and(
+            eq(ocrResults.id, ocrResultId),
+            eq(ocrResults.userId, revision.userId),
+            eq(ocrResults.revision, baseRevision)
+          )
+        );
+      if (updated.affectedRows === 0) return undefined;
+
+      const [{ id }] = await tx.insert(ocrTextRevisions).values(revision).$returningId();
+      return { ...revision, id };
+    });
+  } catch (error) {
+    console.error("[Database] Failed to save OCR text revision:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get all text revisions of an OCR result owned by the user, oldest first
+ */
+export async function getOcrTextRevisions(ocrResultId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR text revisions: database not available");
+    return [];
+  }
+
+  try {
+    const rows = await db
+      .select({ revision: ocrTextRevisions })
+      .from(ocrTextRevisions)
+      .innerJoin(ocrResults, eq(ocrTextRevisions.ocrResultId, ocrResults.id))
+      .where(and(eq(ocrTextRevisions.ocrResultId, ocrResultId), eq(ocrResults.userId, userId)))
+      .orderBy(asc(ocrTextRevisions.revision));
+    return rows.map(row => row.revision);
+  } catch (error) {
+    console.error("[Database] Failed to get OCR text revisions:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get one text revision of an OCR result owned by the user
+ */
+export async function getOcrTextRevision(ocrResultId: number, userId: number, revision: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR text revision: database not available");
+    return undefined;
+  }
+
+  try {
+    const rows = await db
+      .select({ revision: ocrTextRevisions })
+      .from(ocrTextRevisions)
+      .innerJoin(ocrResults, eq(ocrTextRevisions.ocrResultId, ocrResults.id))
+      .where(
+        and(
+          eq(ocrTextRevisions.ocrResultId, ocrResultId),
+          eq(ocrTextRevisions.revision, revision),
+          eq(ocrResults.userId, userId)
+        )
+      )
+      .limit(1);
+    return rows.length > 0 ? rows[0].revision : undefined;
+  } catch (error) {
+    console.error("[Database] Failed to get OCR text revision:", error);
+    throw error;
+  }
+}
+
+/**
+ * List the user's extraction templates by name
+ */
+export async function listExtractionTemplates(userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list extraction templates: database not available");
+    return [];
+  }
+
+  try {
+    return await db
+      .select()
+      .from(extractionTemplates)
+      .where(eq(extractionTemplates.userId, userId))
+      .orderBy(asc(extractionTemplates.name));
+  } catch (error) {
+    console.error("[Database] Failed to list extraction templates:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get one extraction template owned by the user
+ */
+export async function getExtractionTemplate(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get extraction template: database not available");
+    return undefined;
+  }
+
+  try {
+    const result = await db
+      .select()
+      .from(extractionTemplates)
+      .where(and(eq(extractionTemplates.id, id), eq(extractionTemplates.userId, userId)))
+      .limit(1);
+    return result.length > 0 ? result[0] : undefined;
+  } catch (error) {
+    console.error("[Database] Failed to get extraction template:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create an extraction template
+ */
+export async function createExtractionTemplate(template: InsertExtractionTemplate) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot create extraction template: database not available");
+    return undefined;
+  }
+
+  try {
+    const [{ id }] = await db.insert(extractionTemplates).values(template).$returningId();
+    return { ...template, id };
+  } catch (error) {
+    console.error("[Database] Failed to create extraction template:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace an extraction template's definition; false if not found
+ */
+export async function updateExtractionTemplate(
+  id: number,
+  userId: number,
+  values: Pick<InsertExtractionTemplate, "name" | "description" | "fields">
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot update extraction template: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db
+      .update(extractionTemplates)
+      .set(values)
+      .where(and(eq(extractionTemplates.id, id), eq(extractionTemplates.userId, userId)));
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to update extraction template:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an extraction template; extractions made with it are kept
+ */
+export async function deleteExtractionTemplate(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot delete extraction template: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db
+      .delete(extractionTemplates)
+      .where(and(eq(extractionTemplates.id, id), eq(extractionTemplates.userId, userId)));
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to delete extraction template:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save a template's output for a result, replacing any earlier run
+ */
+export async function saveOcrExtraction(extraction: InsertOcrExtraction) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save OCR extraction: database not available");
+    return;
+  }
+
+  try {
+    await db
+      .insert(ocrExtractions)
+      .values(extraction)
+      .onDuplicateKeyUpdate({
+        set: {
+          templateName: extraction.templateName,
+          status: extraction.status,
+          fields: extraction.fields,
+        },
+      });
+  } catch (error) {
+    console.error("[Database] Failed to save OCR extraction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get all template outputs stored for an OCR result owned by the user
+ */
+export async function getOcrExtractions(ocrResultId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR extractions: database not available");
+    return [];
+  }
+
+  try {
+    const rows = await db
+      .select({ extraction: ocrExtractions })
+      .from(ocrExtractions)
+      .innerJoin(ocrResults, eq(ocrExtractions.ocrResultId, ocrResults.id))
+      .where(and(eq(ocrExtractions.ocrResultId, ocrResultId), eq(ocrResults.userId, userId)))
+      .orderBy(asc(ocrExtractions.templateName));
+    return rows.map(row => row.extraction);
+  } catch (error) {
+    console.error("[Database] Failed to get OCR extractions:", error);
+    throw error;
+  }
+}
+
+/**
+ * List the user's dictionaries by name
+ */
+export async function listOcrDictionaries(userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list OCR dictionaries: database not available");
+    return [];
+  }
+
+  try {
+    return await db
+      .select()
+      .from(ocrDictionaries)
+      .where(eq(ocrDictionaries.userId, userId))
+      .orderBy(asc(ocrDictionaries.name));
+  } catch (error) {
+    console.error("[Database] Failed to list OCR dictionaries:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get one dictionary owned by the user
+ */
+export async function getOcrDictionary(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR dictionary: database not available");
+    return undefined;
+  }
+
+  try {
+    const result = await db
+      .select()
+      .from(ocrDictionaries)
+      .where(and(eq(ocrDictionaries.id, id), eq(ocrDictionaries.userId, userId)))
+      .limit(1);
+    return result.length > 0 ? result[0] : undefined;
+  } catch (error) {
+    console.error("[Database] Failed to get OCR dictionary:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create a dictionary
+ */
+export async function createOcrDictionary(dictionary: InsertOcrDictionary) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot create OCR dictionary: database not available");
+    return undefined;
+  }
+
+  try {
+    const [{ id }] = await db.insert(ocrDictionaries).values(dictionary).$returningId();
+    return { ...dictionary, id };
+  } catch (error) {
+    console.error("[Database] Failed to create OCR dictionary:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a dictionary's words and rules; false if not found
+ */
+export async function updateOcrDictionary(
+  id: number,
+  userId: number,
+  values: Pick<InsertOcrDictionary, "name" | "description" | "enabled" | "words" | "rules">
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot update OCR dictionary: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db
+      .update(ocrDictionaries)
+      .set(values)
+      .where(and(eq(ocrDictionaries.id, id), eq(ocrDictionaries.userId, userId)));
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to update OCR dictionary:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a dictionary; corrections it made are kept
+ */
+export async function deleteOcrDictionary(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot delete OCR dictionary: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db
+      .delete(ocrDictionaries)
+      .where(and(eq(ocrDictionaries.id, id), eq(ocrDictionaries.userId, userId)));
+    return result.affectedRows > 0;
+  } catch (error) {
+    console.error("[Database] Failed to delete OCR dictionary:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create an OCR job with its items in submission order
+ */
+export async function createOcrJob(
+  userId: number,
+  items: Omit<InsertOcrJobItem, "jobId" | "position">[]
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot create OCR job: database not available");
+    return undefined;
+  }
+
+  try {
+    return await db.transaction(async tx => {
+      const [{ id: jobId }] = await tx
+        .insert(ocrJobs)
+        .values({ userId, totalItems: items.length })
+        .$returningId();
+      if (items.length > 0) {
+        await tx
+          .insert(ocrJobItems)
+          .values(items.map((item, position) => ({ ...item, jobId, position })));
+      }
+      return jobId;
+    });
+  } catch (error) {
+    console.error("[Database] Failed to create OCR job:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get an OCR job owned by the user, with its items
+ */
+export async function getOcrJob(jobId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR job: database not available");
+    return undefined;
+  }
+
+  try {
+    const jobs = await db
+      .select()
+      .from(ocrJobs)
+      .where(and(eq(ocrJobs.id, jobId), eq(ocrJobs.userId, userId)))
+      .limit(1);
+    if (jobs.length === 0) return undefined;
+
+    const items = await db
+      .select()
+      .from(ocrJobItems)
+      .where(eq(ocrJobItems.jobId, jobId))
+      .orderBy(asc(ocrJobItems.position));
+    return { ...jobs[0], items };
+  } catch (error) {
+    console.error("[Database] Failed to get OCR job:", error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a job and its queued items. Items already running finish normally.
+ * Returns false if the job does not exist or has already finished.
+ */
+export async function cancelOcrJob(jobId: number, userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot cancel OCR job: database not available");
+    return false;
+  }
+
+  try {
+    const [result] = await db
+      .update(ocrJobs)
+      .set({ status: "cancelled", finishedAt: new Date() })
+      .where(
+        and(
+          eq(ocrJobs.id, jobId),
+          eq(ocrJobs.userId, userId),
+          inArray(ocrJobs.status, ["queued", "running"])
+        )
+      );
+    if (result.affectedRows === 0) return false;
+
+    await db
+      .update(ocrJobItems)
+      .set({ status: "cancelled" })
+      .where(and(eq(ocrJobItems.jobId, jobId), eq(ocrJobItems.status, "queued")));
+    return true;
+  } catch (error) {
+    console.error("[Database] Failed to cancel OCR job:", error);
+    throw error;
+  }
+}
+
+/**
+ * Atomically claim the oldest queued item of an active job
+ */
+export async function claimNextOcrJobItem() {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  try {
+    const candidates = await db
+      .select({ item: ocrJobItems, userId: ocrJobs.userId })
+      .from(ocrJobItems)
+      .innerJoin(ocrJobs, eq(ocrJobItems.jobId, ocrJobs.id))
+      .where(
+        and(
+          eq(ocrJobItems.status, "queued"),
+          inArray(ocrJobs.status, ["queued", "running"])
+        )
+      )
+      .orderBy(asc(ocrJobItems.id))
+      .limit(1);
+    if (candidates.length === 0) return undefined;
+
+    const { item, userId } = candidates[0];
+    const [result] = await db
+      .update(ocrJobItems)
+      .set({ status: "running", progress: 0 })
+      .where(and(eq(ocrJobItems.id, item.id), eq(ocrJobItems.status, "queued")));
+    // Another worker got it first; the caller simply polls again.
+    if (result.affectedRows === 0) return undefined;
+
+    await db
+      .update(ocrJobs)
+      .set({ status: "running" })
+      .where(and(eq(ocrJobs.id, item.jobId), eq(ocrJobs.status, "queued")));
+    return { item: { ...item, status: "running" as const }, userId };
+  } catch (error) {
+    console.error("[Database] Failed to claim OCR job item:", error);
+    throw error;
+  }
+}
+
+/**
+ * Update progress or outcome of a job item
+ */
+export async function updateOcrJobItem(
+  id: number,
+  values: Partial<Pick<InsertOcrJobItem, "status" | "progress" | "ocrResultId" | "error">>
+) {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db.update(ocrJobItems).set(values).where(eq(ocrJobItems.id, id));
+  } catch (error) {
+    console.error("[Database] Failed to update OCR job item:", error);
+    throw error;
+  }
+}
+
+/**
+ * Mark a job finished once none of its items are queued or running.
+ * A job fails only if it had items and none of them succeeded.
+ */
+export async function finalizeOcrJob(jobId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    const counts = await db
+      .select({ status: ocrJobItems.status, count: sql<number>`count(*)` })
+      .from(ocrJobItems)
+      .where(eq(ocrJobItems.jobId, jobId))
+      .groupBy(ocrJobItems.status);
+    const byStatus = new Map(counts.map(row => [row.status, Number(row.count)]));
+    if ((byStatus.get("queued") ?? 0) + (byStatus.get("running") ?? 0) > 0) {
+      return;
+    }
+
+    const status =
+      (byStatus.get("failed") ?? 0) > 0 && !byStatus.get("succeeded")
+        ? "failed"
+        : "succeeded";
+    await db
+      .update(ocrJobs)
+      .set({ status, finishedAt: new Date() })
+      .where(and(eq(ocrJobs.id, jobId), inArray(ocrJobs.status, ["queued", "running"])));
+  } catch (error) {
+    console.error("[Database] Failed to finalize OCR job:", error);
+    throw error;
+  }
+}
+
+/**
+ * Put items left running by a previous server process back in the queue
+ */
+export async function requeueInterruptedOcrJobItems() {
+  const db = await getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .update(ocrJobItems)
+      .set({ status: "queued", progress: 0 })
+      .where(eq(ocrJobItems.status, "running"));
+  } catch (error) {
+    console.error("[Database] Failed to requeue OCR job items:", error);
+    throw error;
+  }
+}
+
+/**
+ * A user's quota overrides, if any
+ */
+export async function getUserQuota(userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get user quota: database not available");
+    return undefined;
+  }
+
+  try {
+    const [quota] = await db
+      .select()
+      .from(userQuotas)
+      .where(eq(userQuotas.userId, userId))
+      .limit(1);
+    return quota;
+  } catch (error) {
+    console.error("[Database] Failed to get user quota:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create or replace a user's quota overrides
+ */
+export async function upsertUserQuota(quota: InsertUserQuota) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot save user quota: database not available");
+    return;
+  }
+
+  try {
+    await db
+      .insert(userQuotas)
+      .values(quota)
+      .onDuplicateKeyUpdate({
+        set: {
+          imagesPerDay: quota.imagesPerDay ?? null,
+          pagesPerMonth: quota.pagesPerMonth ?? null,
+          storageBytes: quota.storageBytes ?? null,
+        },
+      });
+  } catch (error) {
+    console.error("[Database] Failed to save user quota:", error);
+    throw error;
+  }
+}
+
+/**
+ * Add recognized images and pages to a user's usage for a UTC day
+ */
+export async function addOcrUsage(userId: number, day: string, images: number, pages: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot record OCR usage: database not available");
+    return;
+  }
+
+  try {
+    await db
+      .insert(ocrUsage)
+      .values({ userId, day, images, pages })
+      .onDuplicateKeyUpdate({
+        set: {
+          images: sql`${ocrUsage.images} + ${images}`,
+          pages: sql`${ocrUsage.pages} + ${pages}`,
+        },
+      });
+  } catch (error) {
+    console.error("[Database] Failed to record OCR usage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Images and pages a user recognized on days `fromDay`..`toDay` (inclusive)
+ */
+export async function getOcrUsageTotals(userId: number, fromDay: string, toDay: string) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR usage: database not available");
+    return { images: 0, pages: 0 };
+  }
+
+  try {
+    const [totals] = await db
+      .select({
+        images: sql<number>`COALESCE(SUM(${ocrUsage.images}), 0)`,
+        pages: sql<number>`COALESCE(SUM(${ocrUsage.pages}), 0)`,
+      })
+      .from(ocrUsage)
+      .where(
+        and(eq(ocrUsage.userId, userId), gte(ocrUsage.day, fromDay), lte(ocrUsage.day, toDay))
+      );
+    return { images: Number(totals?.images ?? 0), pages: Number(totals?.pages ?? 0) };
+  } catch (error) {
+    console.error("[Database] Failed to get OCR usage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Storage bytes held by a user's OCR results
+ */
+export async function getOcrStorageBytes(userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR storage usage: database not available");
+    return 0;
+  }
+
+  try {
+    const [row] = await db
+      .select({ bytes: sql<number>`COALESCE(SUM(${ocrResults.storageBytes}), 0)` })
+      .from(ocrResults)
+      .where(eq(ocrResults.userId, userId));
+    return Number(row?.bytes ?? 0);
+  } catch (error) {
+    console.error("[Database] Failed to get OCR storage usage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Totals over a user's OCR results; all but `failed` and `storageBytes`
+ * count successful results only
+ */
+export async function getOcrResultStats(userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR result stats: database not available");
+    return {
+      results: 0,
+      failed: 0,
+      pages: 0,
+      avgConfidence: null,
+      totalProcessingTimeMs: 0,
+      storageBytes: 0,
+    };
+  }
+
+  const succeeded = sql`${ocrResults.status} = 'succeeded'`;
+
+  try {
+    const [row] = await db
+      .select({
+        results: sql<number>`SUM(${succeeded})`,
+        failed: sql<number>`SUM(${ocrResults.status} = 'failed')`,
+        pages: sql<number>`SUM(IF(${succeeded}, ${ocrResults.pageCount}, 0))`,
+        avgConfidence: sql<number | null>`AVG(IF(${succeeded}, ${ocrResults.confidence}, NULL))`,
+        totalProcessingTimeMs: sql<number>`SUM(IF(${succeeded}, ${ocrResults.processingTimeMs}, 0))`,
+        storageBytes: sql<number>`COALESCE(SUM(${ocrResults.storageBytes}), 0)`,
+      })
+      .from(ocrResults)
+      .where(eq(ocrResults.userId, userId));
+    return {
+      results: Number(row?.results ?? 0),
+      failed: Number(row?.failed ?? 0),
+      pages: Number(row?.pages ?? 0),
+      avgConfidence:
+        row?.avgConfidence === null || row?.avgConfidence === undefined
+          ? null
+          : Number(row.avgConfidence),
+      totalProcessingTimeMs: Number(row?.totalProcessingTimeMs ?? 0),
+      storageBytes: Number(row?.storageBytes ?? 0),
+    };
+  } catch (error) {
+    console.error("[Database] Failed to get OCR result stats:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a user's OCR results (all of them unless `resultIds` is given)
+ * with their layouts, pages, regions, revisions, extractions and
+ * corrections. Returns the storage keys no remaining result refers to, and
+ * how many images were saved without a key and so cannot be deleted from
+ * storage.
+ */
+export async function purgeOcrResults(userId: number, resultIds?: number[]) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot purge OCR results: database not available");
+    return { deleted: 0, imageKeys: [], unkeyedImages: 0 };
+  }
+
+  try {
+    const conditions = [eq(ocrResults.userId, userId)];
+    if (resultIds) conditions.push(inArray(ocrResults.id, resultIds));
+    const targets = await db
+      .select({ id: ocrResults.id, imageKey: ocrResults.imageKey })
+      .from(ocrResults)
+      .where(and(...conditions));
+    if (targets.length === 0) return { deleted: 0, imageKeys: [], unkeyedImages: 0 };
+
+    const ids = targets.map(target => target.id);
+    const pages = await db
+      .select({ imageKey: ocrPages.imageKey })
+      .from(ocrPages)
+      .where(inArray(ocrPages.ocrResultId, ids));
+
+    const [result] = await db.delete(ocrResults).where(inArray(ocrResults.id, ids));
+    await db.delete(ocrLayouts).where(inArray(ocrLayouts.ocrResultId, ids));
+    await db.delete(ocrPages).where(inArray(ocrPages.ocrResultId, ids));
+    await db.delete(ocrRegions).where(inArray(ocrRegions.ocrResultId, ids));
+    await db.delete(ocrTextRevisions).where(inArray(ocrTextRevisions.ocrResultId, ids));
+    await db.delete(ocrExtractions).where(inArray(ocrExtractions.ocrResultId, ids));
+    await db.delete(ocrCorrections).where(inArray(ocrCorrections.ocrResultId, ids));
+
+    // Duplicate uploads share the original image; keep keys still in use
+    const originals = Array.from(
+      new Set(targets.flatMap(target => (target.imageKey ? [target.imageKey] : [])))
+    );
+    const inUse =
+      originals.length > 0
+        ? await db
+            .select({ imageKey: ocrResults.imageKey })
+            .from(ocrResults)
+            .where(inArray(ocrResults.imageKey, originals))
+        : [];
+    const kept = new Set(inUse.map(row => row.imageKey));
+
+    return {
+      deleted: result.affectedRows,
+      imageKeys: [
+        ...originals.filter(key => !kept.has(key)),
+        ...pages.flatMap(page => (page.imageKey ? [page.imageKey] : [])),
+      ],
+      unkeyedImages:
+        targets.filter(target => !target.imageKey).length +
+        pages.filter(page => !page.imageKey).length,
+    };
+  } catch (error) {
+    console.error("[Database] Failed to purge OCR results:", error);
+    throw error;
+  }
+}
+
+/**
+ * Job items per status, and when the oldest queued item was submitted
+ */
+export async function getOcrJobQueueCounts() {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR job queue counts: database not available");
+    return undefined;
+  }
+
+  try {
+    const rows = await db
+      .select({ status: ocrJobItems.status, count: sql<number>`COUNT(*)` })
+      .from(ocrJobItems)
+      .groupBy(ocrJobItems.status);
+    const [oldest] = await db
+      .select({ createdAt: ocrJobItems.createdAt })
+      .from(ocrJobItems)
+      .where(eq(ocrJobItems.status, "queued"))
+      .orderBy(asc(ocrJobItems.createdAt))
+      .limit(1);
+
+    const counts = Object.fromEntries(OCR_JOB_STATUSES.map(status => [status, 0])) as Record<
+      OcrJobStatus,
+      number
+    >;
+    rows.forEach(row => {
+      counts[row.status] = Number(row.count);
+    });
+    return { counts, oldestQueuedAt: oldest?.createdAt ?? null };
+  } catch (error) {
+    console.error("[Database] Failed to get OCR job queue counts:", error);
+    throw error;
+  }
+}
+
+/** Results of one user, or of everyone when `userId` is omitted, created in [from, to). */
+export type OcrAnalyticsScope = { userId?: number; from: Date; to: Date };
+
+export const OCR_CONFIDENCE_GROUPINGS = ["language", "preprocessing"] as const;
+export type OcrConfidenceGrouping = (typeof OCR_CONFIDENCE_GROUPINGS)[number];
+
+function ocrAnalyticsConditions(scope: OcrAnalyticsScope, succeededOnly = true) {
+  return and(
+    scope.userId === undefined ? undefined : eq(ocrResults.userId, scope.userId),
+    succeededOnly ? eq(ocrResults.status, "succeeded") : undefined,
+    gte(ocrResults.createdAt, scope.from),
+    lt(ocrResults.createdAt, scope.to)
+  );
+}
+
+/**
+ * Successful results, pages, average confidence and p50/p95 processing
+ * time per UTC day, plus the same over the whole range. Percentiles are
+ * nearest-rank.
+ */
+export async function getOcrDailyStats(scope: OcrAnalyticsScope) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR daily stats: database not available");
+    return { days: [], overall: undefined };
+  }
+
+  const day = sql<string>`DATE_FORMAT(${ocrResults.createdAt}, '%Y-%m-%d')`;
+  const ranked = (partition: SQL) =>
+    db
+      .select({
+        day: day.as("day"),
+        pageCount: ocrResults.pageCount,
+        confidence: ocrResults.confidence,
+        processingTimeMs: ocrResults.processingTimeMs,
+        timeRank: sql<number>`CUME_DIST() OVER (${partition} ORDER BY ${ocrResults.processingTimeMs})`.as(
+          "timeRank"
+        ),
+      })
+      .from(ocrResults)
+      .where(ocrAnalyticsConditions(scope))
+      .as("ranked");
+  const byDay = ranked(sql`PARTITION BY ${day}`);
+  const all = ranked(sql``);
+  const totals = (rows: typeof byDay | typeof all) => ({
+    results: sql<number>`COUNT(*)`,
+    pages: sql<number>`SUM(${rows.pageCount})`,
+    avgConfidence: sql<number>`AVG(${rows.confidence})`,
+    p50ProcessingTimeMs: sql<number>`MIN(CASE WHEN ${rows.timeRank} >= 0.5 THEN ${rows.processingTimeMs} END)`,
+    p95ProcessingTimeMs: sql<number>`MIN(CASE WHEN ${rows.timeRank} >= 0.95 THEN ${rows.processingTimeMs} END)`,
+  });
+  // MySQL returns SUM and AVG as decimal strings
+  const toNumbers = (row: {
+    results: number;
+    pages: number;
+    avgConfidence: number;
+    p50ProcessingTimeMs: number;
+    p95ProcessingTimeMs: number;
+  }) => ({
+    results: Number(row.results),
+    pages: Number(row.pages ?? 0),
+    avgConfidence: Number(row.avgConfidence ?? 0),
+    p50ProcessingTimeMs: Number(row.p50ProcessingTimeMs ?? 0),
+    p95ProcessingTimeMs: Number(row.p95ProcessingTimeMs ?? 0),
+  });
+
+  try {
+    const days = await db
+      .select({ day: byDay.day, ...totals(byDay) })
+      .from(byDay)
+      .groupBy(byDay.day)
+      .orderBy(asc(byDay.day));
+    const [overall] = await db.select(totals(all)).from(all);
+    return {
+      days: days.map(row => ({ day: row.day, ...toNumbers(row) })),
+      overall: overall && Number(overall.results) > 0 ? toNumbers(overall) : undefined,
+    };
+  } catch (error) {
+    console.error("[Database] Failed to get OCR daily stats:", error);
+    throw error;
+  }
+}
+
+/**
+ * Successful result counts per 10-point confidence bucket (0 = 0-9, ..., 9 = 90-100)
+ * for each language or preprocessing profile
+ */
+export async function getOcrConfidenceHistogram(
+  scope: OcrAnalyticsScope,
+  groupBy: OcrConfidenceGrouping
+) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR confidence histogram: database not available");
+    return [];
+  }
+
+  // Rows saved before preprocessing profiles were recorded have none
+  const group =
+    groupBy === "language"
+      ? sql<string>`${ocrResults.language}`
+      : sql<string>`COALESCE(JSON_UNQUOTE(JSON_EXTRACT(${ocrResults.preprocessing}, '$.name')), 'none')`;
+  const bucket = sql<number>`LEAST(FLOOR(${ocrResults.confidence} / 10), 9)`;
+
+  try {
+    const rows = await db
+      .select({ group, bucket, count: sql<number>`COUNT(*)` })
+      .from(ocrResults)
+      .where(ocrAnalyticsConditions(scope))
+      .groupBy(group, bucket);
+    return rows.map(row => ({
+      group: row.group,
+      bucket: Number(row.bucket),
+      count: Number(row.count),
+    }));
+  } catch (error) {
+    console.error("[Database] Failed to get OCR confidence histogram:", error);
+    throw error;
+  }
+}
+
+/**
+ * Finished OCR attempts per UTC day, by outcome
+ */
+export async function getOcrOutcomesByDay(scope: OcrAnalyticsScope) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get OCR outcomes: database not available");
+    return [];
+  }
+
+  const day = sql<string>`DATE_FORMAT(${ocrResults.createdAt}, '%Y-%m-%d')`;
+
+  try {
+    const rows = await db
+      .select({
+        day,
+        succeeded: sql<number>`SUM(${ocrResults.status} = 'succeeded')`,
+        failed: sql<number>`SUM(${ocrResults.status} = 'failed')`,
+      })
+      .from(ocrResults)
+      .where(ocrAnalyticsConditions(scope, false))
+      .groupBy(day)
+      .orderBy(asc(day));
+    return rows.map(row => ({
+      day: row.day,
+      succeeded: Number(row.succeeded),
+      failed: Number(row.failed),
+    }));
   } catch (error) {
-    console.error("[Database] Failed to delete OCR result:", error);
+    console.error("[Database] Failed to get OCR outcomes:", error);
     throw error;
   }
 }
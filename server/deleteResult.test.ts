@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { deleteOcrResult } from "./db";
+import { storageDelete } from "./storage";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  deleteOcrResult: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storageDelete: vi.fn(async () => undefined),
+}));
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "filler",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+describe("ocr.deleteResult", () => {
+  beforeEach(() => {
+    vi.mocked(storageDelete).mockClear();
+  });
+
+  it("should delete the stored images no other result refers to", async () => {
+    vi.mocked(deleteOcrResult).mockResolvedValue({
+      deleted: 1,
+      imageKeys: ["ocr/1/abc-scan.pdf", "ocr/1/def-scan-page-1.png"],
+      unkeyedImages: 0,
+    });
+    vi.mocked(storageDelete).mockRejectedValueOnce(new Error("bucket unavailable"));
+    const caller = appRouter.createCaller(createAuthContext());
+
+    expect(await caller.ocr.deleteResult({ id: 4 })).toEqual({ success: true });
+    expect(deleteOcrResult).toHaveBeenCalledWith(4, 1);
+    expect(storageDelete).toHaveBeenCalledWith("ocr/1/abc-scan.pdf");
+    expect(storageDelete).toHaveBeenCalledWith("ocr/1/def-scan-page-1.png");
+  });
+});
@@ -0,0 +1,106 @@
+import { dictionaryInputSchema } from "@shared/dictionaries";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import {
+  createOcrDictionary,
+  deleteOcrDictionary,
+  getOcrDictionary,
+  listOcrDictionaries,
+  updateOcrDictionary,
+} from "./db";
+
+async function assertNameAvailable(userId: number, name: string, exceptId?: number) {
+  let dictionaries;
+  try {
+    dictionaries = await listOcrDictionaries(userId);
+  } catch (error) {
+    console.error("[Dictionaries] Failed to list dictionaries:", error);
+    throw new Error("Failed to save dictionary");
+  }
+  if (dictionaries.some(dictionary => dictionary.name === name && dictionary.id !== exceptId)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A dictionary named "${name}" already exists`,
+    });
+  }
+}
+
+/**
+ * CRUD for the user's word lists and replacement rules; enabled
+ * dictionaries correct every new OCR result
+ */
+export const dictionariesRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listOcrDictionaries(ctx.user.id);
+    } catch (error) {
+      console.error("[Dictionaries] Failed to list dictionaries:", error);
+      throw new Error("Failed to list dictionaries");
+    }
+  }),
+
+  get: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ ctx, input }) => {
+    let dictionary;
+    try {
+      dictionary = await getOcrDictionary(input.id, ctx.user.id);
+    } catch (error) {
+      console.error("[Dictionaries] Failed to get dictionary:", error);
+      throw new Error("Failed to retrieve dictionary");
+    }
+    if (!dictionary) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Dictionary not found" });
+    }
+    return dictionary;
+  }),
+
+  create: protectedProcedure.input(dictionaryInputSchema).mutation(async ({ ctx, input }) => {
+    await assertNameAvailable(ctx.user.id, input.name);
+
+    let dictionary;
+    try {
+      dictionary = await createOcrDictionary({ userId: ctx.user.id, ...input });
+    } catch (error) {
+      console.error("[Dictionaries] Failed to create dictionary:", error);
+      throw new Error("Failed to save dictionary");
+    }
+    if (!dictionary) {
+      throw new Error("Failed to save dictionary: database not available");
+    }
+    return { success: true, id: dictionary.id };
+  }),
+
+  update: protectedProcedure
+    .input(dictionaryInputSchema.extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+      await assertNameAvailable(ctx.user.id, values.name, id);
+
+      let updated;
+      try {
+        updated = await updateOcrDictionary(id, ctx.user.id, {
+          ...values,
+          description: values.description ?? null,
+        });
+      } catch (error) {
+        console.error("[Dictionaries] Failed to update dictionary:", error);
+        throw new Error("Failed to save dictionary");
+      }
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Dictionary not found" });
+      }
+      return { success: true };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await deleteOcrDictionary(input.id, ctx.user.id);
+        return { success: true };
+      } catch (error) {
+        console.error("[Dictionaries] Failed to delete dictionary:", error);
+        throw new Error("Failed to delete dictionary");
+      }
+    }),
+});
@@ -0,0 +1,91 @@
+import { BadRequestError, NotFoundError } from "@shared/_core/errors";
+import { nanoid } from "nanoid";
+import { createReadStream } from "node:fs";
+import { copyFile, mkdir, open, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ENV } from "./_core/env";
+import { FILE_TYPE_SNIFF_BYTES, sniffFileType } from "./fileType";
+import { isSafeStorageKey, type StorageBackend } from "./storage";
+
+/**
+ * Storage in a local directory (LOCAL_STORAGE_DIR), for development and
+ * deployments without object storage. Objects are served by the
+ * authenticated /api/storage route.
+ */
+
+/**
+ * Absolute path of a key inside the storage directory
+ * @throws HttpError 400 for keys with empty, "." or ".." segments or that would escape it
+ */
+function resolveKey(key: string) {
+  const root = path.resolve(ENV.localStorageDir);
+  const filePath = path.resolve(root, key);
+  if (!isSafeStorageKey(key) || !filePath.startsWith(root + path.sep)) {
+    throw BadRequestError("Invalid storage key");
+  }
+  return filePath;
+}
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * Write through a temporary file so a crash never leaves a partial object
+ */
+async function writeObject(key: string, write: (tempPath: string) => Promise<void>) {
+  const filePath = resolveKey(key);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${nanoid()}.tmp`;
+  try {
+    await write(tempPath);
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+  return undefined;
+}
+
+/** Content type from the object's bytes; the key's extension is user input. */
+async function detectContentType(filePath: string) {
+  const handle = await open(filePath, "r");
+  try {
+    const head = Buffer.alloc(FILE_TYPE_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(head, 0, head.length, 0);
+    return sniffFileType(head.subarray(0, bytesRead)) ?? "application/octet-stream";
+  } finally {
+    await handle.close();
+  }
+}
+
+export const diskStorage: StorageBackend = {
+  name: "local",
+
+  put: (key, data) => writeObject(key, tempPath => writeFile(tempPath, data)),
+
+  putFile: (key, filePath) => writeObject(key, tempPath => copyFile(filePath, tempPath)),
+
+  async open(key) {
+    const filePath = resolveKey(key);
+    try {
+      const { size } = await stat(filePath);
+      const contentType = await detectContentType(filePath);
+      return { body: createReadStream(filePath), contentType, size };
+    } catch (error) {
+      if (isNotFound(error)) throw NotFoundError("Stored object not found");
+      throw error;
+    }
+  },
+
+  async read(key) {
+    try {
+      return await readFile(resolveKey(key));
+    } catch (error) {
+      if (isNotFound(error)) throw NotFoundError("Stored object not found");
+      throw error;
+    }
+  },
+
+  delete: key => rm(resolveKey(key), { force: true }),
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { extractionTemplateInputSchema, type ExtractionField } from "@shared/extraction";
+import { applyExtractionTemplate, parseAmount, parseDate, summarizeExtraction } from "./extraction";
+import { buildFixtureLayout } from "./fixtureOcrEngine";
+import { createUserRegexBudget } from "./userRegex";
+
+const extract = (
+  fields: ExtractionField[],
+  text: string,
+  pages: Parameters<typeof applyExtractionTemplate>[2]
+) =>
+  applyExtractionTemplate(fields, text, pages, createUserRegexBudget(1));
+
+const RECEIPT = [
+  "ACME Supplies Ltd",
+  "VAT No: DE123456789",
+  "Invoice # INV-2025-0042",
+  "Date: 03/04/2025",
+  "Subtotal 1.234,50",
+  "Total: $1,358.95",
+].join("\n");
+
+describe("Field Extraction", () => {
+  describe("parseAmount", () => {
+    it("should handle either decimal separator and digit grouping", () => {
+      expect(parseAmount("$1,358.95")).toBe(1358.95);
+      expect(parseAmount("1.234,50 €")).toBe(1234.5);
+      expect(parseAmount("12 500 000 đ")).toBe(12500000);
+      expect(parseAmount("12,50")).toBe(12.5);
+      expect(parseAmount("12,500")).toBe(12500);
+      expect(parseAmount("n/a")).toBeNull();
+    });
+  });
+
+  describe("parseDate", () => {
+    it("should respect the numeric date order", () => {
+      expect(parseDate("03/04/2025")).toBe("2025-04-03");
+      expect(parseDate("03/04/2025", "MDY")).toBe("2025-03-04");
+      expect(parseDate("25.12.24")).toBe("2024-12-25");
+      expect(parseDate("2025-01-31")).toBe("2025-01-31");
+    });
+
+    it("should read English month names and reject impossible dates", () => {
+      expect(parseDate("12 March 2025")).toBe("2025-03-12");
+      expect(parseDate("Mar 12, 2025")).toBe("2025-03-12");
+      expect(parseDate("31/02/2025")).toBeNull();
+    });
+  });
+
+  describe("applyExtractionTemplate", () => {
+    const template = extractionTemplateInputSchema.parse({
+      name: "Invoice",
+      fields: [
+        { key: "vendor", rules: [{ type: "region", x: 0, y: 0, width: 1, height: 0.1 }] },
+        { key: "taxId", type: "taxId", rules: [{ type: "anchor", keyword: "VAT No" }] },
+        {
+          key: "invoiceNumber",
+          rules: [{ type: "regex", pattern: "Invoice\\s*#\\s*(\\S+)" }],
+          pattern: "^INV-",
+        },
+        { key: "date", type: "date", required: true, rules: [{ type: "anchor", keyword: "Date" }] },
+        { key: "subtotal", type: "amount", rules: [{ type: "anchor", keyword: "Subtotal" }] },
+        {
+          key: "total",
+          type: "amount",
+          rules: [
+            { type: "anchor", keyword: "Grand total" },
+            { type: "anchor", keyword: "Total:" },
+          ],
+        },
+        { key: "dueDate", type: "date", rules: [{ type: "anchor", keyword: "Due" }] },
+      ],
+    });
+    const pages = [{ pageNumber: 1, layout: buildFixtureLayout(RECEIPT, 90, 400, 200) }];
+
+    it("should extract typed values with the first matching rule", async () => {
+      const fields = await extract(template.fields, RECEIPT, pages);
+      const byKey = Object.fromEntries(fields.map(field => [field.key, field]));
+
+      expect(byKey.vendor).toMatchObject({ status: "valid", value: "ACME Supplies Ltd" });
+      expect(byKey.taxId).toMatchObject({ status: "valid", value: "DE123456789" });
+      expect(byKey.invoiceNumber).toMatchObject({ status: "valid", value: "INV-2025-0042" });
+      expect(byKey.date).toMatchObject({ status: "valid", value: "2025-04-03" });
+      expect(byKey.subtotal).toMatchObject({ status: "valid", value: 1234.5 });
+      expect(byKey.total).toMatchObject({ status: "valid", value: 1358.95, rule: 1 });
+      expect(byKey.dueDate).toMatchObject({ status: "missing", value: null });
+      expect(summarizeExtraction(fields, template.fields)).toBe("valid");
+    });
+
+    it("should flag invalid values and missing required fields", async () => {
+      const text = RECEIPT.replace("03/04/2025", "3l/O4/2O25").replace("Invoice # INV", "Invoice # XX");
+      const fields = await extract(template.fields, text, pages);
+      const byKey = Object.fromEntries(fields.map(field => [field.key, field]));
+
+      expect(byKey.date.status).toBe("invalid");
+      expect(byKey.invoiceNumber.status).toBe("invalid");
+      expect(summarizeExtraction(fields, template.fields)).toBe("invalid");
+
+      const withoutDate = await extract(template.fields, "Total: 5", []);
+      expect(withoutDate.find(field => field.key === "date")).toMatchObject({
+        status: "missing",
+        error: "Required field not found",
+      });
+    });
+
+    it("should reject templates with invalid patterns or duplicate keys", () => {
+      const field = { key: "a", rules: [{ type: "regex", pattern: "(" }] };
+      expect(extractionTemplateInputSchema.safeParse({ name: "x", fields: [field] }).success).toBe(
+        false
+      );
+      const valid = { key: "a", rules: [{ type: "anchor", keyword: "A" }] };
+      expect(
+        extractionTemplateInputSchema.safeParse({ name: "x", fields: [valid, valid] }).success
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import type {
+  ExtractedField,
+  ExtractionField,
+  ExtractionFieldType,
+  ExtractionRule,
+} from "@shared/extraction";
+import type { OcrLayout } from "../drizzle/schema";
+import { execUserRegex, type UserRegexBudget } from "./userRegex";
+
+/**
+ * Runs extraction templates over an OCR result's text and layout.
+ * Template patterns run through userRegex.ts with a time limit.
+ */
+
+type ExtractionPage = { pageNumber: number; layout: OcrLayout };
+
+// Picks the value for a field type out of the text an anchor/region found.
+const VALUE_PATTERNS: Record<ExtractionFieldType, RegExp> = {
+  text: /\S(?:.*\S)?/,
+  date: /\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{1,2}\s+\p{L}{3,9}\.?\s+\d{4}|\p{L}{3,9}\.?\s+\d{1,2},?\s+\d{4}/u,
+  amount: /[-+]?\d+(?:[ .,'’]\d{3})*(?:[.,]\d+)?/,
+  number: /[-+]?\d+(?:[ .,'’]\d{3})*(?:[.,]\d+)?/,
+  taxId: /\b[A-Z]{0,3}\d[\d-]{3,}\d\b/i,
+};
+
+const DEFAULT_TAX_ID = /^[A-Z]{0,3}\d[\d-]{3,}\d$/;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+/**
+ * Parse an amount written with either "." or "," as decimal separator,
+ * ignoring currency symbols and digit grouping. Null if not a number.
+ */
+export function parseAmount(raw: string): number | null {
+  const match = raw.match(VALUE_PATTERNS.amount);
+  if (!match) return null;
+
+  let digits = match[0].replace(/[\s'’]/g, "");
+  const lastDot = digits.lastIndexOf(".");
+  const lastComma = digits.lastIndexOf(",");
+  let decimal: string | null = null;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else {
+    const separator = lastDot !== -1 ? "." : lastComma !== -1 ? "," : null;
+    // A single separator not followed by exactly three digits is a decimal point
+    if (separator && digits.split(separator).length === 2) {
+      const fraction = digits.slice(digits.lastIndexOf(separator) + 1);
+      if (fraction.length !== 3) decimal = separator;
+    }
+  }
+
+  const grouping = decimal === "." ? /,/g : decimal === "," ? /\./g : /[.,]/g;
+  digits = digits.replace(grouping, "");
+  if (decimal === ",") digits = digits.replace(",", ".");
+
+  const value = Number(digits);
+  return Number.isFinite(value) ? value : null;
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function monthFromName(name: string) {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+function expandYear(year: string) {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+}
+
+/**
+ * Parse a date to YYYY-MM-DD. Numeric dates use `order` for the part
+ * order; ISO dates and English month names are always recognized.
+ */
+export function parseDate(raw: string, order: "DMY" | "MDY" | "YMD" = "DMY"): string | null {
+  const match = raw.match(VALUE_PATTERNS.date);
+  if (!match) return null;
+  const text = match[0];
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/);
+  if (numeric) {
+    const [, a, b, c] = numeric;
+    if (order === "YMD") return toIsoDate(expandYear(a), Number(b), Number(c));
+    if (order === "MDY") return toIsoDate(expandYear(c), Number(a), Number(b));
+    return toIsoDate(expandYear(c), Number(b), Number(a));
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})\s+(\p{L}+)\.?\s+(\d{4})$/u);
+  if (dayFirst) {
+    const month = monthFromName(dayFirst[2]);
+    return month ? toIsoDate(Number(dayFirst[3]), month, Number(dayFirst[1])) : null;
+  }
+
+  const monthFirst = text.match(/^(\p{L}+)\.?\s+(\d{1,2}),?\s+(\d{4})$/u);
+  if (monthFirst) {
+    const month = monthFromName(monthFirst[1]);
+    return month ? toIsoDate(Number(monthFirst[3]), month, Number(monthFirst[2])) : null;
+  }
+  return null;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+async function matchRegexRule(
+  budget: UserRegexBudget,
+  text: string,
+  pattern: string,
+  group?: number
+) {
+  const [match] = await execUserRegex(budget, pattern, "im", [text]);
+  if (!match) return null;
+  const index = group ?? (match.groups.length > 1 ? 1 : 0);
+  return match.groups[index]?.trim() || null;
+}
+
+async function matchesPattern(budget: UserRegexBudget, value: string, pattern: string) {
+  const [match] = await execUserRegex(budget, pattern, "", [value]);
+  return match !== null;
+}
+
+function matchAnchorRule(text: string, keyword: string, direction: "right" | "below") {
+  const lines = text.split("\n");
+  const anchor = new RegExp(escapeRegExp(keyword), "i");
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = anchor.exec(lines[i]);
+    if (!match) continue;
+
+    if (direction === "right") {
+      // Skip separators between label and value, e.g. "Total: " or "No. #"
+      const rest = lines[i].slice(match.index + match[0].length).replace(/^[\s:#.\-–]+/, "");
+      if (rest.trim()) return rest.trim();
+    } else {
+      const next = lines.slice(i + 1).find(line => line.trim());
+      if (next) return next.trim();
+    }
+  }
+  return null;
+}
+
+function matchRegionRule(
+  pages: ExtractionPage[],
+  rule: Extract<ExtractionRule, { type: "region" }>
+) {
+  const page = pages.find(candidate => candidate.pageNumber === rule.page);
+  if (!page) return null;
+  const { layout } = page;
+  const left = rule.x * layout.width;
+  const top = rule.y * layout.height;
+  const right = left + rule.width * layout.width;
+  const bottom = top + rule.height * layout.height;
+
+  const lines: string[] = [];
+  for (const block of layout.blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const words = line.words.filter(word => {
+          const cx = (word.bbox.x0 + word.bbox.x1) / 2;
+          const cy = (word.bbox.y0 + word.bbox.y1) / 2;
+          return cx >= left && cx <= right && cy >= top && cy <= bottom;
+        });
+        if (words.length > 0) lines.push(words.map(word => word.text).join(" "));
+      }
+    }
+  }
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+async function findRaw(
+  field: ExtractionField,
+  text: string,
+  pages: ExtractionPage[],
+  budget: UserRegexBudget
+) {
+  for (let i = 0; i < field.rules.length; i++) {
+    const rule = field.rules[i];
+    const found =
+      rule.type === "regex"
+        ? await matchRegexRule(budget, text, rule.pattern, rule.group)
+        : rule.type === "anchor"
+          ? matchAnchorRule(text, rule.keyword, rule.direction)
+          : matchRegionRule(pages, rule);
+    if (found) return { raw: found, rule: i };
+  }
+  return null;
+}
+
+/**
+ * Parse and validate the text a rule found for a field
+ */
+async function toValue(field: ExtractionField, raw: string, budget: UserRegexBudget) {
+  const invalid = (error: string) => ({ status: "invalid" as const, value: null, error });
+
+  switch (field.type) {
+    case "date": {
+      const value = parseDate(raw, field.dateOrder);
+      return value ? { status: "valid" as const, value } : invalid(`Not a valid date: ${raw}`);
+    }
+    case "amount":
+    case "number": {
+      const value = parseAmount(raw);
+      return value !== null
+        ? { status: "valid" as const, value }
+        : invalid(`Not a valid ${field.type}: ${raw}`);
+    }
+    case "taxId": {
+      const match = raw.match(VALUE_PATTERNS.taxId);
+      const value = (match?.[0] ?? raw).replace(/\s/g, "").toUpperCase();
+      const valid = field.pattern
+        ? await matchesPattern(budget, value, field.pattern)
+        : DEFAULT_TAX_ID.test(value);
+      return valid
+        ? { status: "valid" as const, value }
+        : invalid(`Not a valid tax ID: ${raw}`);
+    }
+    case "text": {
+      const value = raw.match(VALUE_PATTERNS.text)?.[0] ?? "";
+      if (field.pattern && !(await matchesPattern(budget, value, field.pattern))) {
+        return invalid(`Does not match ${field.pattern}`);
+      }
+      return { status: "valid" as const, value };
+    }
+  }
+}
+
+/**
+ * Extract every field of a template from OCR text and page layouts
+ * @throws HttpError 422 when a template pattern or the budget runs out of time
+ */
+export async function applyExtractionTemplate(
+  fields: ExtractionField[],
+  text: string,
+  pages: ExtractionPage[],
+  budget: UserRegexBudget
+): Promise<ExtractedField[]> {
+  const extracted: ExtractedField[] = [];
+  for (const field of fields) {
+    const base = { key: field.key, label: field.label, type: field.type };
+    const found = await findRaw(field, text, pages, budget);
+    if (!found) {
+      extracted.push({
+        ...base,
+        status: "missing",
+        raw: null,
+        value: null,
+        rule: null,
+        ...(field.required ? { error: "Required field not found" } : {}),
+      });
+      continue;
+    }
+    extracted.push({ ...base, raw: found.raw, rule: found.rule, ...(await toValue(field, found.raw, budget)) });
+  }
+  return extracted;
+}
+
+/**
+ * Overall status: invalid if any field failed validation or a required
+ * field is missing
+ */
+export function summarizeExtraction(fields: ExtractedField[], definitions: ExtractionField[]) {
+  const required = new Set(definitions.filter(field => field.required).map(field => field.key));
+  const ok = fields.every(
+    field => field.status === "valid" || (field.status === "missing" && !required.has(field.key))
+  );
+  return ok ? ("valid" as const) : ("invalid" as const);
+}
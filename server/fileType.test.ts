@@ -0,0 +1,31 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { sniffFileType } from "./fileType";
+
+const blank = () =>
+  sharp({ create: { width: 8, height: 8, channels: 3, background: "#ffffff" } });
+
+describe("sniffFileType", () => {
+  it("should detect image formats from their signatures", async () => {
+    expect(sniffFileType(await blank().png().toBuffer())).toBe("image/png");
+    expect(sniffFileType(await blank().jpeg().toBuffer())).toBe("image/jpeg");
+    expect(sniffFileType(await blank().webp().toBuffer())).toBe("image/webp");
+    expect(sniffFileType(await blank().tiff().toBuffer())).toBe("image/tiff");
+  });
+
+  it("should detect PDFs", () => {
+    expect(sniffFileType(Buffer.from("%PDF-1.7\n%\xE2\xE3\xCF\xD3", "latin1"))).toBe(
+      "application/pdf"
+    );
+  });
+
+  it("should not trust other RIFF containers as WebP", () => {
+    expect(sniffFileType(Buffer.from("RIFF\x24\x00\x00\x00WAVEfmt ", "latin1"))).toBeUndefined();
+  });
+
+  it("should return undefined for unsupported or truncated data", () => {
+    expect(sniffFileType(Buffer.from("PK\x03\x04zipdata", "latin1"))).toBeUndefined();
+    expect(sniffFileType(Buffer.from([0x89, 0x50]))).toBeUndefined();
+    expect(sniffFileType(Buffer.alloc(0))).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Detect upload formats from their leading bytes instead of trusting the
+ * client-supplied MIME type or file extension.
+ */
+
+/** Bytes needed by sniffFileType to tell every supported format apart. */
+export const FILE_TYPE_SNIFF_BYTES = 12;
+
+type Signature = { mimeType: string; offset: number; bytes: number[] };
+
+const SIGNATURES: Signature[] = [
+  { mimeType: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  // "II*\0" (little endian) and "MM\0*" (big endian)
+  { mimeType: "image/tiff", offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: "image/tiff", offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  // "%PDF-"
+  { mimeType: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+];
+
+function matches(head: Uint8Array, offset: number, bytes: number[]) {
+  if (head.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => head[offset + i] === byte);
+}
+
+/**
+ * MIME type of a supported upload format, or undefined if unrecognized
+ * @param head - At least the first FILE_TYPE_SNIFF_BYTES bytes of the file
+ */
+export function sniffFileType(head: Uint8Array): string | undefined {
+  // WebP is a RIFF container: "RIFF" <size> "WEBP"
+  if (
+    matches(head, 0, [0x52, 0x49, 0x46, 0x46]) &&
+    matches(head, 8, [0x57, 0x45, 0x42, 0x50])
+  ) {
+    return "image/webp";
+  }
+  return SIGNATURES.find(signature => matches(head, signature.offset, signature.bytes))
+    ?.mimeType;
+}
@@ -0,0 +1,139 @@
+import sharp from "sharp";
+import type { OcrLayout, OcrLayoutWord } from "../drizzle/schema";
+import type { OcrEngine, OcrOrientation } from "./ocrEngine";
+import { parseLanguageSet } from "./ocrWorkerPool";
+
+/**
+ * Deterministic OCR engine that answers from fixtures instead of running
+ * recognition. Used by tests to exercise the full pipeline without
+ * Tesseract; register it with registerOcrEngine.
+ */
+
+export type OcrFixture = {
+  /**
+   * Match images of this size (after preprocessing), or rectangles of this
+   * size when one is given; any size if omitted.
+   */
+  width?: number;
+  height?: number;
+  /** Match this exact language set; any language if omitted. */
+  language?: string;
+  /** Match requests with this page segmentation mode; any if omitted. */
+  psm?: number;
+  text: string;
+  /** 0-100, default 95. */
+  confidence?: number;
+};
+
+// Synthetic glyph box used for fixture layouts.
+const CHAR_WIDTH = 10;
+const LINE_HEIGHT = 20;
+
+/**
+ * Layout with one block/paragraph, one line per text line and words laid
+ * out left to right on a fixed character grid
+ */
+export function buildFixtureLayout(
+  text: string,
+  confidence: number,
+  width: number,
+  height: number
+): OcrLayout {
+  const lines = text
+    .split("\n")
+    .filter(line => line.trim())
+    .map((lineText, index) => {
+      const y0 = index * LINE_HEIGHT;
+      const words: OcrLayoutWord[] = [];
+      for (const match of lineText.matchAll(/\S+/g)) {
+        const x0 = match.index * CHAR_WIDTH;
+        words.push({
+          text: match[0],
+          confidence,
+          bbox: { x0, y0, x1: x0 + match[0].length * CHAR_WIDTH, y1: y0 + LINE_HEIGHT },
+        });
+      }
+      return {
+        text: lineText,
+        confidence,
+        bbox: { x0: 0, y0, x1: lineText.length * CHAR_WIDTH, y1: y0 + LINE_HEIGHT },
+        words,
+      };
+    });
+
+  const bbox = {
+    x0: 0,
+    y0: 0,
+    x1: Math.max(0, ...lines.map(line => line.bbox.x1)),
+    y1: lines.length * LINE_HEIGHT,
+  };
+  return {
+    width,
+    height,
+    confidence,
+    blocks:
+      lines.length === 0
+        ? []
+        : [
+            {
+              text,
+              confidence,
+              bbox,
+              blockType: "FLOWING_TEXT",
+              paragraphs: [{ text, confidence, bbox, lines }],
+            },
+          ],
+  };
+}
+
+/**
+ * Create an engine returning the first fixture matching each image
+ * @param options.languages - Languages to report as installed (default ["eng"])
+ * @param options.orientation - Detected for every image; without it the
+ *   engine has no orientation capability
+ */
+export function createFixtureOcrEngine(
+  fixtures: OcrFixture[],
+  options: { name?: string; languages?: string[]; orientation?: OcrOrientation } = {}
+): OcrEngine {
+  const languages = options.languages ?? ["eng"];
+  const { orientation } = options;
+
+  return {
+    name: options.name ?? "fixture",
+    capabilities: { layout: true, orientation: Boolean(orientation) },
+
+    listLanguages: async () => languages,
+
+    async recognize(image, language, recognizeOptions = {}) {
+      const unsupported = parseLanguageSet(language).filter(code => !languages.includes(code));
+      if (unsupported.length > 0) {
+        throw new Error(`Unsupported OCR language: ${unsupported.join(", ")}`);
+      }
+
+      const { width = 0, height = 0 } =
+        recognizeOptions.rectangle ?? (await sharp(image).metadata());
+      const fixture = fixtures.find(
+        candidate =>
+          (candidate.width === undefined || candidate.width === width) &&
+          (candidate.height === undefined || candidate.height === height) &&
+          (candidate.language === undefined || candidate.language === language) &&
+          (candidate.psm === undefined || candidate.psm === recognizeOptions.parameters?.psm)
+      );
+      if (!fixture) {
+        const subject = recognizeOptions.rectangle ? "rectangle" : "image";
+        throw new Error(`No OCR fixture matches ${width}x${height} ${subject} (${language})`);
+      }
+
+      recognizeOptions.onProgress?.(1);
+      const confidence = fixture.confidence ?? 95;
+      return {
+        text: fixture.text,
+        confidence,
+        layout: buildFixtureLayout(fixture.text, confidence, width, height),
+      };
+    },
+
+    ...(orientation ? { detectOrientation: async () => orientation } : {}),
+  };
+}
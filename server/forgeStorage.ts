@@ -0,0 +1,131 @@
+import { openAsBlob } from 'node:fs';
+import { ENV } from './_core/env';
+import type { StorageBackend, StorageData } from './storage';
+
+/**
+ * Storage through the Forge storage proxy (BUILT_IN_FORGE_API_URL and
+ * BUILT_IN_FORGE_API_KEY). The proxy returns public URLs for uploads.
+ */
+
+type StorageConfig = { baseUrl: string; apiKey: string };
+
+function getStorageConfig(): StorageConfig {
+  const baseUrl = ENV.forgeApiUrl;
+  const apiKey = ENV.forgeApiKey;
+
+  if (!baseUrl || !apiKey) {
+    throw new Error(
+      "Storage proxy credentials missing: set BUILT_IN_FORGE_API_URL and BUILT_IN_FORGE_API_KEY"
+    );
+  }
+
+  return { baseUrl: baseUrl.replace(/\/+$/, ""), apiKey };
+}
+
+function buildUploadUrl(baseUrl: string, key: string): URL {
+  const url = new URL("v1/storage/upload", ensureTrailingSlash(baseUrl));
+  url.searchParams.set("path", key);
+  return url;
+}
+
+async function buildDownloadUrl(
+  baseUrl: string,
+  key: string,
+  apiKey: string
+): Promise<string> {
+  const downloadApiUrl = new URL(
+    "v1/storage/downloadUrl",
+    ensureTrailingSlash(baseUrl)
+  );
+  downloadApiUrl.searchParams.set("path", key);
+  const response = await fetch(downloadApiUrl, {
+    method: "GET",
+    headers: buildAuthHeaders(apiKey),
+  });
+  return (await response.json()).url;
+}
+
+function ensureTrailingSlash(value: string): string {
+  return value.endsWith("/") ? value : `${value}/`;
+}
+
+function toBlob(data: StorageData, contentType: string): Blob {
+  return typeof data === "string"
+    ? new Blob([data], { type: contentType })
+    : new Blob([data as any], { type: contentType });
+}
+
+function toFormData(blob: Blob, fileName: string): FormData {
+  const form = new FormData();
+  form.append("file", blob, fileName || "file");
+  return form;
+}
+
+function buildAuthHeaders(apiKey: string): HeadersInit {
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+async function uploadBlob(key: string, blob: Blob): Promise<string> {
+  const { baseUrl, apiKey } = getStorageConfig();
+  const uploadUrl = buildUploadUrl(baseUrl, key);
+  const formData = toFormData(blob, key.split("/").pop() ?? key);
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers: buildAuthHeaders(apiKey),
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const message = await response.text().catch(() => response.statusText);
+    throw new Error(
+      `Storage upload failed (${response.status} ${response.statusText}): ${message}`
+    );
+  }
+  return (await response.json()).url;
+}
+
+async function getUrl(key: string): Promise<string> {
+  const { baseUrl, apiKey } = getStorageConfig();
+  return buildDownloadUrl(baseUrl, key, apiKey);
+}
+
+export const forgeStorage: StorageBackend = {
+  name: "forge",
+
+  put: (key, data, contentType) => uploadBlob(key, toBlob(data, contentType)),
+
+  // The body is streamed rather than read into memory
+  putFile: async (key, filePath, contentType) =>
+    uploadBlob(key, await openAsBlob(filePath, { type: contentType })),
+
+  getUrl,
+
+  async read(key) {
+    const response = await fetch(await getUrl(key));
+
+    if (!response.ok) {
+      throw new Error(
+        `Storage download failed (${response.status} ${response.statusText})`
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async delete(key) {
+    const { baseUrl, apiKey } = getStorageConfig();
+    const deleteUrl = new URL("v1/storage/delete", ensureTrailingSlash(baseUrl));
+    deleteUrl.searchParams.set("path", key);
+    const response = await fetch(deleteUrl, {
+      method: "DELETE",
+      headers: buildAuthHeaders(apiKey),
+    });
+
+    // Already gone is as good as deleted
+    if (!response.ok && response.status !== 404) {
+      const message = await response.text().catch(() => response.statusText);
+      throw new Error(
+        `Storage delete failed (${response.status} ${response.statusText}): ${message}`
+      );
+    }
+  },
+};
@@ -0,0 +1,38 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { computePerceptualHash, hammingDistance, sha256Hex } from "./imageHash";
+
+function pattern(width: number, height: number, pixel: (x: number, y: number) => number) {
+  const data = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = pixel(x, y);
+  }
+  return sharp(data, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+describe("Image Hashing", () => {
+  it("should hash file bytes with SHA-256", () => {
+    expect(sha256Hex(Buffer.from("abc"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+
+  it("should give near-identical perceptual hashes to re-encoded copies", async () => {
+    const original = await pattern(240, 160, (x, y) =>
+      Math.round(128 + 100 * Math.sin(x / 23) * Math.cos(y / 17))
+    );
+    const copy = await sharp(original).resize(600, 400).jpeg({ quality: 60 }).toBuffer();
+    const other = await pattern(240, 160, (x, y) => (x < 120 ? 255 - y : y));
+
+    const [a, b, c] = await Promise.all([original, copy, other].map(computePerceptualHash));
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(a, b)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(a, c)).toBeGreaterThan(10);
+  });
+
+  it("should count differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+    expect(hammingDistance("00000000000000f0", "0000000000000010")).toBe(3);
+  });
+});
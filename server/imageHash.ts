@@ -0,0 +1,54 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import sharp from "sharp";
+
+/**
+ * Content hashes for duplicate detection: SHA-256 of the uploaded bytes for
+ * exact matches, and a 64-bit difference hash (dHash) of the first page for
+ * near-duplicates (re-scans, re-encodes, resized copies).
+ */
+
+export function sha256Hex(buffer: Buffer) {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/** sha256Hex of a file on disk, read as a stream. */
+export async function sha256HexFile(filePath: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+/**
+ * dHash: shrink to 9x8 grayscale and record whether each pixel is brighter
+ * than its right neighbour. Returned as 16 hex digits.
+ */
+export async function computePerceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .flatten({ background: "#ffffff" })
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << 1n) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Number of differing bits between two perceptual hashes (0-64)
+ */
+export function hammingDistance(a: string, b: string) {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(): { ctx: TrpcContext } {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "filler",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  const ctx: TrpcContext = {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as unknown as TrpcContext["res"],
+  };
+
+  return { ctx };
+}
+
+describe("OCR Job Queue", () => {
+  describe("ocr.submitJob", () => {
+    it("should require authentication", async () => {
+      const publicCtx: TrpcContext = {
+        user: null,
+        req: { protocol: "https", headers: {} } as TrpcContext["req"],
+        res: {} as TrpcContext["res"],
+      };
+
+      const caller = appRouter.createCaller(publicCtx);
+
+      await expect(
+        caller.ocr.submitJob({
+          images: [
+            {
+              imageData: "dGVzdA==",
+              fileName: "test.jpg",
+              mimeType: "image/jpeg",
+              language: "eng",
+            },
+          ],
+        })
+      ).rejects.toThrow();
+    });
+
+    it("should reject an empty image array", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(caller.ocr.submitJob({ images: [] })).rejects.toThrow();
+    });
+  });
+
+  describe("ocr.getJob", () => {
+    it("should report missing jobs as not found", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+
+      await expect(caller.ocr.getJob({ id: 12345 })).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+    });
+  });
+});
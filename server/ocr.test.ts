@@ -1,54 +1,324 @@
-import { describe, expect, it } from "vitest";
-import { validateImageFile } from "./ocr";
+import sharp from "sharp";
+import { describe, expect, it, vi } from "vitest";
+import { createFixtureOcrEngine } from "./fixtureOcrEngine";
+import { processImageWithOcr, validateImageFile } from "./ocr";
+import { registerOcrEngine } from "./ocrEngine";
+import { readPdfPages } from "./ocrPages";
+import { applyWorkerParameters, toOcrLayout } from "./tesseractEngine";
+
+// Letter-size pages at 300 DPI, as poppler's pdfinfo would report them
+vi.mock("./ocrPages", async importOriginal => ({
+  ...(await importOriginal<typeof import("./ocrPages")>()),
+  readPdfPages: vi.fn(async () => ({ pageCount: 1, sizes: [{ width: 2550, height: 3300 }] })),
+}));
+
+registerOcrEngine(
+  createFixtureOcrEngine(
+    [
+      { width: 200, height: 100, text: "ACME Corp\nTotal 12.50", confidence: 88 },
+      { width: 300, height: 100, language: "vie", text: "Xin chào" },
+      { width: 100, height: 200, text: "upright" },
+    ],
+    { languages: ["eng", "vie"] }
+  )
+);
+// Every page is Cyrillic text turned a quarter counter-clockwise
+registerOcrEngine(
+  createFixtureOcrEngine(
+    [
+      { width: 100, height: 200, language: "rus", text: "Итого 12,50" },
+      { width: 200, height: 100, language: "eng", text: "sideways" },
+    ],
+    {
+      name: "osd",
+      languages: ["eng", "rus"],
+      orientation: { degrees: 90, orientationConfidence: 9, script: "Cyrillic", scriptConfidence: 4 },
+    }
+  )
+);
+
+function blankImage(width: number, height: number) {
+  return sharp({
+    create: { width, height, channels: 3, background: "#ffffff" },
+  })
+    .png()
+    .toBuffer();
+}
 
 describe("OCR Service", () => {
   describe("validateImageFile", () => {
-    it("should accept valid image files", () => {
-      const buffer = Buffer.from("fake image data");
-      const result = validateImageFile(buffer, "image/jpeg", 10 * 1024 * 1024);
-      expect(result.valid).toBe(true);
+    it("should accept valid image files", async () => {
+      const buffer = await blankImage(40, 20);
+      const result = await validateImageFile(buffer, "image/png");
+      expect(result).toMatchObject({ valid: true, mimeType: "image/png", width: 40, height: 20 });
     });
 
-    it("should reject unsupported MIME types", () => {
+    it("should reject unsupported MIME types", async () => {
       const buffer = Buffer.from("fake data");
-      const result = validateImageFile(buffer, "application/pdf");
+      const result = await validateImageFile(buffer, "application/zip");
       expect(result.valid).toBe(false);
-      expect(result.error).toContain("Unsupported image format");
+      if (result.valid) return;
+      expect(result.error.message).toContain("Unsupported image format");
+      expect(result.error).toMatchObject({ statusCode: 415, code: "IMAGE_UNSUPPORTED_FORMAT" });
     });
 
-    it("should reject files exceeding size limit", () => {
+    it("should reject files exceeding size limit", async () => {
       const buffer = Buffer.alloc(15 * 1024 * 1024); // 15MB
-      const result = validateImageFile(buffer, "image/jpeg", 10 * 1024 * 1024);
+      const result = await validateImageFile(buffer, "image/jpeg", {
+        maxSizeBytes: 10 * 1024 * 1024,
+      });
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.error.message).toContain("exceeds maximum");
+      expect(result.error).toMatchObject({ statusCode: 413, code: "IMAGE_TOO_LARGE" });
+    });
+
+    it("should accept all supported image formats", async () => {
+      const image = sharp({
+        create: { width: 8, height: 8, channels: 3, background: "#ffffff" },
+      });
+      const files: [Buffer, string][] = [
+        [await image.clone().jpeg().toBuffer(), "image/jpeg"],
+        [await image.clone().png().toBuffer(), "image/png"],
+        [await image.clone().webp().toBuffer(), "image/webp"],
+        [await image.clone().tiff().toBuffer(), "image/tiff"],
+        [Buffer.from("%PDF-1.4\n%%EOF\n"), "application/pdf"],
+      ];
+
+      for (const [buffer, format] of files) {
+        const result = await validateImageFile(buffer, format);
+        expect(result.valid).toBe(true);
+      }
+    });
+
+    it("should reject content that does not match the declared type", async () => {
+      const pdf = Buffer.from("%PDF-1.4\n%%EOF\n");
+      const result = await validateImageFile(pdf, "image/png");
       expect(result.valid).toBe(false);
-      expect(result.error).toContain("exceeds maximum");
+      if (result.valid) return;
+      expect(result.error).toMatchObject({ statusCode: 415, code: "IMAGE_FORMAT_MISMATCH" });
     });
 
-    it("should accept files within size limit", () => {
-      const buffer = Buffer.alloc(5 * 1024 * 1024); // 5MB
-      const result = validateImageFile(buffer, "image/png", 10 * 1024 * 1024);
-      expect(result.valid).toBe(true);
+    it("should reject data without a known file signature", async () => {
+      const result = await validateImageFile(Buffer.from("fake image data"), "image/jpeg");
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.error.code).toBe("IMAGE_UNSUPPORTED_FORMAT");
     });
 
-    it("should accept all supported image formats", () => {
-      const buffer = Buffer.from("fake image");
-      const formats = ["image/jpeg", "image/png", "image/webp", "image/tiff"];
+    it("should reject truncated images", async () => {
+      const buffer = (await blankImage(40, 20)).subarray(0, 16);
+      const result = await validateImageFile(buffer, "image/png");
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.error).toMatchObject({ statusCode: 422, code: "IMAGE_UNREADABLE" });
+    });
 
-      formats.forEach((format) => {
-        const result = validateImageFile(buffer, format);
-        expect(result.valid).toBe(true);
+    it("should reject oversized dimensions from the header", async () => {
+      const buffer = await blankImage(400, 300);
+      const tooWide = await validateImageFile(buffer, "image/png", { maxDimension: 399 });
+      const tooManyPixels = await validateImageFile(buffer, "image/png", {
+        maxPixels: 400 * 300 - 1,
       });
+      for (const result of [tooWide, tooManyPixels]) {
+        expect(result.valid).toBe(false);
+        if (result.valid) return;
+        expect(result.error.code).toBe("IMAGE_DIMENSIONS_EXCEEDED");
+      }
     });
 
-    it("should reject video formats", () => {
-      const buffer = Buffer.from("fake data");
-      const result = validateImageFile(buffer, "video/mp4");
+    it("should check PDF pages before they are rendered", async () => {
+      const pdf = Buffer.from("%PDF-1.4\n%%EOF\n");
+      vi.mocked(readPdfPages).mockResolvedValueOnce({
+        pageCount: 2,
+        sizes: [
+          { width: 2550, height: 3300 },
+          { width: 60_000, height: 60_000 },
+        ],
+      });
+      vi.mocked(readPdfPages).mockResolvedValueOnce({ pageCount: 3, sizes: [] });
+
+      const huge = await validateImageFile(pdf, "application/pdf");
+      const long = await validateImageFile(pdf, "application/pdf", { maxFrames: 2 });
+      expect(huge.valid || huge.error.message).toBe(
+        "Page 2 is 60000x60000; maximum is 20000px per side and 100000000 pixels"
+      );
+      expect(long.valid || long.error.code).toBe("IMAGE_TOO_MANY_FRAMES");
+    });
+
+    it("should reject multi-frame images with too many frames", async () => {
+      const frames = await Promise.all([blankImage(20, 20), blankImage(20, 20), blankImage(20, 20)]);
+      const tiff = await sharp(frames, { join: { animated: true } }).tiff().toBuffer();
+      const result = await validateImageFile(tiff, "image/tiff", { maxFrames: 2 });
       expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.error.code).toBe("IMAGE_TOO_MANY_FRAMES");
     });
 
-    it("should reject text formats", () => {
+    it("should reject video and text formats", async () => {
       const buffer = Buffer.from("fake data");
-      const result = validateImageFile(buffer, "text/plain");
-      expect(result.valid).toBe(false);
+      expect((await validateImageFile(buffer, "video/mp4")).valid).toBe(false);
+      expect((await validateImageFile(buffer, "text/plain")).valid).toBe(false);
+    });
+  });
+
+  describe("toOcrLayout", () => {
+    it("should keep the block tree with bboxes and rounded confidences", () => {
+      const bbox = { x0: 1, y0: 2, x1: 30, y1: 12 };
+      const word = { text: "ACME", confidence: 91.6, bbox, symbols: [], choices: [], font_name: "" };
+      const line = { text: "ACME", confidence: 88.2, bbox, words: [word] };
+      const paragraph = { text: "ACME", confidence: 87.5, bbox, lines: [line], is_ltr: true };
+      const block = { text: "ACME", confidence: 87.4, bbox, blocktype: "FLOWING_TEXT", paragraphs: [paragraph] };
+
+      const layout = toOcrLayout(
+        { confidence: 87.4, blocks: [block] } as unknown as Parameters<typeof toOcrLayout>[0],
+        100,
+        50
+      );
+
+      expect(layout.width).toBe(100);
+      expect(layout.blocks[0].blockType).toBe("FLOWING_TEXT");
+      expect(layout.blocks[0].paragraphs[0].lines[0].words[0]).toEqual({
+        text: "ACME",
+        confidence: 92,
+        bbox,
+      });
+    });
+
+    it("should return an empty layout when no blocks were produced", () => {
+      const layout = toOcrLayout({ confidence: 0, blocks: null }, 10, 10);
+      expect(layout.blocks).toEqual([]);
+    });
+  });
+
+  describe("applyWorkerParameters", () => {
+    it("should map request parameters to Tesseract variables", async () => {
+      const calls: unknown[] = [];
+      const worker = { setParameters: async (params: unknown) => void calls.push(params) };
+
+      await applyWorkerParameters(worker as never, {
+        psm: 7,
+        whitelist: "0123456789.",
+        preserveInterwordSpaces: true,
+        dpi: 300,
+      });
+
+      expect(calls).toEqual([
+        {
+          tessedit_pageseg_mode: "7",
+          tessedit_char_whitelist: "0123456789.",
+          tessedit_char_blacklist: "",
+          preserve_interword_spaces: "1",
+          user_defined_dpi: "300",
+        },
+      ]);
+    });
+
+    it("should restore defaults a previous job on the worker changed", async () => {
+      const calls: Record<string, string>[] = [];
+      const worker = {
+        setParameters: async (params: Record<string, string>) => void calls.push(params),
+      };
+
+      await applyWorkerParameters(worker as never, { psm: 11, blacklist: "|" });
+      await applyWorkerParameters(worker as never, {});
+
+      expect(calls[1]).toMatchObject({
+        tessedit_pageseg_mode: "6",
+        tessedit_char_blacklist: "",
+      });
+    });
+  });
+
+  describe("processImageWithOcr", () => {
+    it("should recognize with the requested engine and record its name", async () => {
+      const progress: number[] = [];
+      const result = await processImageWithOcr(await blankImage(200, 100), "eng", {
+        engine: "fixture",
+        onProgress: value => progress.push(value),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.engine).toBe("fixture");
+      expect(result.text).toBe("ACME Corp\nTotal 12.50");
+      expect(result.confidence).toBe(88);
+      expect(result.preprocessing.name).toBe("default");
+      expect(result.layout?.width).toBe(200);
+      expect(result.layout?.blocks[0].paragraphs[0].lines.map(line => line.text)).toEqual([
+        "ACME Corp",
+        "Total 12.50",
+      ]);
+      expect(progress).toEqual([1]);
+    });
+
+    it("should match fixtures by language", async () => {
+      const result = await processImageWithOcr(await blankImage(300, 100), "vie", {
+        engine: "fixture",
+      });
+      expect(result.text).toBe("Xin chào");
+    });
+
+    it("should report engine errors as a failed result", async () => {
+      const unknown = await processImageWithOcr(await blankImage(200, 100), "eng", {
+        engine: "missing",
+      });
+      expect(unknown.success).toBe(false);
+      expect(unknown.error).toContain("Unknown OCR engine: missing");
+
+      const unsupported = await processImageWithOcr(await blankImage(200, 100), "fra", {
+        engine: "fixture",
+      });
+      expect(unsupported.success).toBe(false);
+      expect(unsupported.error).toContain("Unsupported OCR language: fra");
+    });
+
+    it("should apply EXIF orientation before recognition", async () => {
+      // Orientation 6: stored landscape, displayed rotated 90° clockwise
+      const photo = await sharp(await blankImage(200, 100))
+        .jpeg()
+        .withMetadata({ orientation: 6 })
+        .toBuffer();
+
+      const result = await processImageWithOcr(photo, "eng", { engine: "fixture" });
+      expect(result.text).toBe("upright");
+    });
+
+    it("should rotate by the detected orientation and pick a language for its script", async () => {
+      const result = await processImageWithOcr(await blankImage(200, 100), "auto", {
+        engine: "osd",
+        preprocessing: { name: "custom", steps: [{ type: "autoRotate" }] },
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        text: "Итого 12,50",
+        language: "rus",
+        orientation: { degrees: 90, script: "Cyrillic" },
+      });
+      // Recorded for exports that draw the text layer over the stored image
+      expect(result.layout?.transform).toEqual({ rotation: 90, deskew: [] });
+    });
+
+    it("should only detect orientation when something uses it", async () => {
+      const result = await processImageWithOcr(await blankImage(200, 100), "eng", {
+        engine: "osd",
+      });
+
+      expect(result).toMatchObject({ success: true, text: "sideways", orientation: null });
+    });
+
+    it("should leave pages the caller rotated as they are", async () => {
+      const result = await processImageWithOcr(await blankImage(100, 200), "eng", {
+        engine: "osd",
+        rotation: -90,
+        preprocessing: { name: "custom", steps: [{ type: "autoRotate" }] },
+      });
+      expect(result.text).toBe("sideways");
+
+      const unsupported = await processImageWithOcr(await blankImage(200, 100), "auto", {
+        engine: "fixture",
+      });
+      expect(unsupported.error).toContain("cannot detect the script");
     });
   });
 });
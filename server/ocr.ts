@@ -1,69 +1,188 @@
-import { createWorker } from "tesseract.js";
+import { open } from "node:fs/promises";
 import sharp from "sharp";
+import {
+  resolvePreprocessingProfile,
+  type PreprocessingProfile,
+} from "@shared/preprocessing";
+import {
+  HttpError,
+  PayloadTooLargeError,
+  UnprocessableEntityError,
+  UnsupportedMediaTypeError,
+} from "@shared/_core/errors";
+import { OCR_AUTO_LANGUAGE } from "@shared/const";
+import type { ImageValidationErrorCode } from "@shared/imageValidation";
+import type { OcrParameters } from "@shared/ocrParameters";
+import type { OcrRegion } from "@shared/ocrRegions";
+import { ENV } from "./_core/env";
+import { FILE_TYPE_SNIFF_BYTES, sniffFileType } from "./fileType";
+import {
+  getOcrEngine,
+  terminateOcrEngines,
+  type OcrEngine,
+  type OcrOrientation,
+} from "./ocrEngine";
+import { languageForScript, orientationCorrection } from "./ocrOrientation";
+import { readPdfPages } from "./ocrPages";
+import { cropToRegions, rotatePage, scaleRectangle } from "./ocrRegions";
+import { applyPreprocessing } from "./preprocessing";
 
 /**
- * OCR processing service using Tesseract.js
+ * OCR processing service: orientation, preprocessing and recognition on
+ * the selected OCR engine (see ocrEngine.ts)
  */
 
-let ocrWorker: Awaited<ReturnType<typeof createWorker>> | null = null;
+export type OcrProcessOptions = {
+  onProgress?: (progress: number) => void;
+  /** Steps applied before recognition; defaults to the "default" preset. */
+  preprocessing?: PreprocessingProfile;
+  /** Registered engine name; defaults to the deployment's OCR_ENGINE. */
+  engine?: string;
+  /** Clockwise degrees to rotate the image before anything else. */
+  rotation?: number;
+  /** Recognize only these parts of the (rotated) image. */
+  regions?: Pick<OcrRegion, "x" | "y" | "width" | "height">[];
+  /** Engine settings (page segmentation, character lists, ...) for this image. */
+  parameters?: OcrParameters;
+};
 
 /**
- * Initialize OCR worker (lazy initialization)
+ * Run the engine's orientation/script detection, if it has one
  */
-async function getOcrWorker() {
-  if (!ocrWorker) {
-    try {
-      ocrWorker = await createWorker("eng");
-    } catch (error) {
-      console.error("[OCR] Failed to initialize worker:", error);
-      throw new Error("Failed to initialize OCR worker");
-    }
+async function detectOrientation(engine: OcrEngine, page: Buffer) {
+  if (!engine.detectOrientation) return null;
+  return engine.detectOrientation(page);
+}
+
+/**
+ * Preprocess the part of the page covering every region once, then
+ * recognize each region through the engine's rectangle option. Geometry
+ * changing steps (resize, upscale) are assumed to scale the crop evenly.
+ */
+async function recognizeRegions(
+  engine: OcrEngine,
+  page: Buffer,
+  language: string,
+  options: OcrProcessOptions & { preprocessing: PreprocessingProfile }
+) {
+  const regions = options.regions ?? [];
+  const crop = await cropToRegions(page, regions);
+  const { image: optimizedBuffer } = await applyPreprocessing(crop.image, options.preprocessing);
+  const { width = 0, height = 0 } = await sharp(optimizedBuffer).metadata();
+
+  const results = [];
+  for (let i = 0; i < regions.length; i++) {
+    const result = await engine.recognize(optimizedBuffer, language, {
+      rectangle: scaleRectangle(crop.rectangles[i], crop, { width, height }),
+      onProgress: progress => options.onProgress?.((i + progress) / regions.length),
+      parameters: options.parameters,
+    });
+    results.push({ text: result.text.trim(), confidence: result.confidence });
   }
-  return ocrWorker;
+
+  return {
+    text: results.map(result => result.text).join("\n\n"),
+    confidence: Math.round(
+      results.reduce((sum, result) => sum + result.confidence, 0) / results.length
+    ),
+    // Layouts describe whole pages
+    layout: null,
+    regions: results,
+  };
 }
 
 /**
- * Terminate OCR worker
+ * Terminate the workers of every OCR engine
  */
 export async function terminateOcrWorker() {
-  if (ocrWorker) {
-    try {
-      await ocrWorker.terminate();
-      ocrWorker = null;
-    } catch (error) {
-      console.error("[OCR] Failed to terminate worker:", error);
-    }
-  }
+  await terminateOcrEngines();
 }
 
 /**
  * Process image and extract text using OCR
  * @param imageBuffer - Image file buffer
- * @param language - Language code (default: 'eng')
- * @returns Extracted text and metadata
+ * @param language - Language code or "+"-joined set, e.g. "vie+eng" (default: 'eng'),
+ *   or "auto" to pick one from the detected script
+ * @param options - Engine, preprocessing profile, rotation, regions of interest,
+ *   engine parameters and recognition progress (0-1) hook
+ * @returns Extracted text, the language used, detected orientation and
+ *   metadata; with regions, the text of each region
+ *   in order, and their texts joined by blank lines as `text`
  */
 export async function processImageWithOcr(
   imageBuffer: Buffer,
-  language: string = "eng"
+  language: string = "eng",
+  options: OcrProcessOptions = {}
 ) {
   const startTime = Date.now();
+  const preprocessing = options.preprocessing ?? resolvePreprocessingProfile(undefined);
+  let engineName = options.engine ?? "";
+  let orientation: OcrOrientation | null = null;
 
   try {
-    // Validate image and optimize size if needed
-    const optimizedBuffer = await optimizeImage(imageBuffer);
+    const engine = getOcrEngine(options.engine);
+    engineName = engine.name;
+
+    // Apply EXIF orientation as browsers do; rotation and regions refer to that view
+    let rotation = options.rotation ?? 0;
+    let page = await rotatePage(imageBuffer, rotation);
+
+    const autoLanguage = language === OCR_AUTO_LANGUAGE;
+    if (autoLanguage && !engine.capabilities.orientation) {
+      throw new Error(`The ${engine.name} engine cannot detect the script; choose a language`);
+    }
+    // A caller that rotated the page or drew regions on it already chose "upright"
+    const autoRotate =
+      !options.rotation &&
+      !options.regions?.length &&
+      preprocessing.steps.some(step => step.type === "autoRotate");
 
-    // Get or initialize OCR worker
-    const worker = await getOcrWorker();
+    // Detection only runs when something uses it
+    if (autoRotate || autoLanguage) {
+      orientation = await detectOrientation(engine, page);
+    }
+    const correction = autoRotate ? orientationCorrection(orientation) : 0;
+    if (correction) {
+      page = await rotatePage(page, correction);
+      rotation = correction;
+    }
 
-    // Perform OCR recognition
-    const result = await worker.recognize(optimizedBuffer);
+    if (autoLanguage) {
+      language = languageForScript(orientation, await engine.listLanguages());
+    }
+
+    let result;
+    if (options.regions?.length) {
+      result = await recognizeRegions(engine, page, language, { ...options, preprocessing });
+    } else {
+      // Run the preprocessing profile (resize, grayscale, binarize, ...)
+      const preprocessed = await applyPreprocessing(page, preprocessing);
+
+      // Perform OCR recognition with the selected engine
+      const recognition = await engine.recognize(preprocessed.image, language, {
+        onProgress: options.onProgress,
+        parameters: options.parameters,
+      });
+      // Lets exports line the stored image up with the layout
+      const transform = { rotation: ((rotation % 360) + 360) % 360, deskew: preprocessed.deskew };
+      result = {
+        ...recognition,
+        layout: recognition.layout && { ...recognition.layout, transform },
+        regions: [],
+      };
+    }
 
     const processingTimeMs = Date.now() - startTime;
 
     return {
-      text: result.data.text || "",
-      confidence: Math.round((result.data.confidence || 0) * 100),
+      text: result.text,
+      confidence: result.confidence,
+      layout: result.layout,
+      regions: result.regions,
+      orientation,
       language,
+      engine: engineName,
+      preprocessing,
       processingTimeMs,
       success: true,
     };
@@ -73,7 +192,12 @@ export async function processImageWithOcr(
     return {
       text: "",
       confidence: 0,
+      layout: null,
+      regions: [],
+      orientation,
       language,
+      engine: engineName,
+      preprocessing,
       processingTimeMs,
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
@@ -81,60 +205,199 @@ export async function processImageWithOcr(
   }
 }
 
-/**
- * Optimize image for OCR processing
- * - Resize if too large
- * - Convert to grayscale for better OCR accuracy
- * - Ensure reasonable dimensions
- */
-async function optimizeImage(imageBuffer: Buffer): Promise<Buffer> {
-  try {
-    const metadata = await sharp(imageBuffer).metadata();
+export const OCR_ALLOWED_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/tiff",
+  "application/pdf",
+];
 
-    // If image is too large, resize it
-    let pipeline = sharp(imageBuffer);
+/** Upload size limit, also enforced while streaming in ocrUpload.ts. */
+export const OCR_MAX_FILE_BYTES = ENV.ocrMaxUploadMb * 1024 * 1024;
 
-    if (metadata.width && metadata.width > 4000) {
-      pipeline = pipeline.resize(4000, 4000, {
-        fit: "inside",
-        withoutEnlargement: true,
-      });
+export type ImageValidationLimits = {
+  maxSizeBytes: number;
+  /** Largest width x height, checked from the header before decoding. */
+  maxPixels: number;
+  maxDimension: number;
+  /** Most frames in a multi-page image such as TIFF. */
+  maxFrames: number;
+};
+
+export type ImageValidationResult =
+  | {
+      valid: true;
+      mimeType: string;
+      /** Bytes in the upload. */
+      size: number;
+      width?: number;
+      height?: number;
+      frames?: number;
     }
+  | { valid: false; error: HttpError };
+
+function reject(
+  toError: (message: string, code: string) => HttpError,
+  message: string,
+  code: ImageValidationErrorCode
+): ImageValidationResult {
+  return { valid: false, error: toError(message, code) };
+}
 
-    // Convert to grayscale for better OCR accuracy
-    pipeline = pipeline.grayscale();
+function checkDimensions(
+  subject: string,
+  width: number,
+  height: number,
+  maxDimension: number,
+  maxPixels: number
+) {
+  if (width > maxDimension || height > maxDimension || width * height > maxPixels) {
+    return reject(
+      UnprocessableEntityError,
+      `${subject} is ${width}x${height}; maximum is ${maxDimension}px per side and ${maxPixels} pixels`,
+      "IMAGE_DIMENSIONS_EXCEEDED"
+    );
+  }
+  return null;
+}
 
-    return await pipeline.toBuffer();
-  } catch (error) {
-    console.warn("[OCR] Image optimization failed, using original:", error);
-    return imageBuffer;
+// Size and leading bytes, without reading a file on disk in full
+async function readHead(file: Buffer | string) {
+  if (typeof file !== "string") {
+    return { size: file.length, head: file.subarray(0, FILE_TYPE_SNIFF_BYTES) };
+  }
+  const handle = await open(file, "r");
+  try {
+    const { size } = await handle.stat();
+    const { buffer, bytesRead } = await handle.read(
+      Buffer.alloc(FILE_TYPE_SNIFF_BYTES),
+      0,
+      FILE_TYPE_SNIFF_BYTES,
+      0
+    );
+    return { size, head: buffer.subarray(0, bytesRead) };
+  } finally {
+    await handle.close();
   }
 }
 
+function defaultLimits(): ImageValidationLimits {
+  return {
+    maxSizeBytes: OCR_MAX_FILE_BYTES,
+    maxPixels: ENV.ocrMaxImagePixels,
+    maxDimension: ENV.ocrMaxImageDimension,
+    maxFrames: ENV.ocrMaxPages,
+  };
+}
+
 /**
- * Validate image file
+ * Validate an upload before it reaches sharp and the OCR engine: size,
+ * declared type, real type from the file signature, and dimensions and
+ * frame count read without decoding pixels: from the header for images,
+ * from `pdfinfo` for PDFs (page sizes at PDF_RENDER_DPI).
+ * Errors carry a status and an ImageValidationErrorCode.
+ * @param file - Upload contents, or the path of an upload on disk
  */
-export function validateImageFile(
-  buffer: Buffer,
+export async function validateImageFile(
+  file: Buffer | string,
   mimeType: string,
-  maxSizeBytes: number = 10 * 1024 * 1024 // 10MB default
-): { valid: boolean; error?: string } {
+  limits: Partial<ImageValidationLimits> = {}
+): Promise<ImageValidationResult> {
+  const { maxSizeBytes, maxPixels, maxDimension, maxFrames } = {
+    ...defaultLimits(),
+    ...limits,
+  };
+
+  const { size, head } = await readHead(file);
+
   // Check file size
-  if (buffer.length > maxSizeBytes) {
-    return {
-      valid: false,
-      error: `File size exceeds maximum of ${maxSizeBytes / 1024 / 1024}MB`,
-    };
+  if (size > maxSizeBytes) {
+    return reject(
+      PayloadTooLargeError,
+      `File size exceeds maximum of ${maxSizeBytes / 1024 / 1024}MB`,
+      "IMAGE_TOO_LARGE"
+    );
   }
 
   // Check MIME type
-  const allowedMimeTypes = ["image/jpeg", "image/png", "image/webp", "image/tiff"];
-  if (!allowedMimeTypes.includes(mimeType)) {
+  if (!OCR_ALLOWED_MIME_TYPES.includes(mimeType)) {
+    return reject(
+      UnsupportedMediaTypeError,
+      `Unsupported image format. Allowed: ${OCR_ALLOWED_MIME_TYPES.join(", ")}`,
+      "IMAGE_UNSUPPORTED_FORMAT"
+    );
+  }
+
+  // Check the content really is that format
+  const detected = sniffFileType(head);
+  if (!detected) {
+    return reject(
+      UnsupportedMediaTypeError,
+      "File content is not a supported image or PDF",
+      "IMAGE_UNSUPPORTED_FORMAT"
+    );
+  }
+  if (detected !== mimeType) {
+    return reject(
+      UnsupportedMediaTypeError,
+      `File content is ${detected} but was uploaded as ${mimeType}`,
+      "IMAGE_FORMAT_MISMATCH"
+    );
+  }
+
+  // PDF pages are checked at their rendered size, before anything is rendered
+  if (detected === "application/pdf") {
+    let pdf;
+    try {
+      pdf = await readPdfPages(file);
+    } catch {
+      return reject(UnprocessableEntityError, "PDF could not be read", "IMAGE_UNREADABLE");
+    }
+    if (pdf.pageCount === 0) {
+      return reject(UnprocessableEntityError, "PDF has no pages", "IMAGE_UNREADABLE");
+    }
+    if (pdf.pageCount > maxFrames) {
+      return reject(
+        UnprocessableEntityError,
+        `PDF has ${pdf.pageCount} pages; maximum is ${maxFrames}`,
+        "IMAGE_TOO_MANY_FRAMES"
+      );
+    }
+    for (const [i, { width, height }] of pdf.sizes.entries()) {
+      const oversized = checkDimensions(`Page ${i + 1}`, width, height, maxDimension, maxPixels);
+      if (oversized) return oversized;
+    }
+    const [first] = pdf.sizes;
     return {
-      valid: false,
-      error: `Unsupported image format. Allowed: ${allowedMimeTypes.join(", ")}`,
+      valid: true,
+      mimeType: detected,
+      size,
+      width: first?.width,
+      height: first?.height,
+      frames: pdf.pageCount,
     };
   }
 
-  return { valid: true };
+  let metadata;
+  try {
+    metadata = await sharp(file).metadata();
+  } catch {
+    return reject(UnprocessableEntityError, "Image could not be read", "IMAGE_UNREADABLE");
+  }
+
+  const { width = 0, height = 0, pages = 1 } = metadata;
+  // Multi-page images report the first page's height via pageHeight
+  const frameHeight = metadata.pageHeight ?? height;
+  const oversized = checkDimensions("Image", width, frameHeight, maxDimension, maxPixels);
+  if (oversized) return oversized;
+  if (pages > maxFrames) {
+    return reject(
+      UnprocessableEntityError,
+      `Image has ${pages} frames; maximum is ${maxFrames}`,
+      "IMAGE_TOO_MANY_FRAMES"
+    );
+  }
+
+  return { valid: true, mimeType: detected, size, width, height: frameHeight, frames: pages };
 }
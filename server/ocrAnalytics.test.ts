@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { getOcrConfidenceHistogram, getOcrDailyStats, getOcrOutcomesByDay } from "./db";
+import { analyticsDays, getOcrAnalytics } from "./ocrAnalytics";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getOcrDailyStats: vi.fn(),
+  getOcrConfidenceHistogram: vi.fn(),
+  getOcrOutcomesByDay: vi.fn(),
+}));
+
+const now = new Date("2026-03-10T15:00:00Z");
+
+const dayStats = (day: string, results: number) => ({
+  day,
+  results,
+  pages: results,
+  avgConfidence: 80,
+  p50ProcessingTimeMs: 400,
+  p95ProcessingTimeMs: 900,
+});
+
+describe("OCR analytics", () => {
+  beforeEach(() => {
+    vi.mocked(getOcrDailyStats).mockResolvedValue({
+      days: [dayStats("2026-03-08", 2), dayStats("2026-03-10", 3)],
+      overall: { ...dayStats("", 5), p95ProcessingTimeMs: 950 },
+    });
+    vi.mocked(getOcrConfidenceHistogram).mockImplementation(async (_scope, groupBy) =>
+      groupBy === "language"
+        ? [
+            { group: "vie", bucket: 9, count: 1 },
+            { group: "eng", bucket: 9, count: 3 },
+            { group: "eng", bucket: 4, count: 1 },
+          ]
+        : [{ group: "document", bucket: 8, count: 5 }]
+    );
+    vi.mocked(getOcrOutcomesByDay).mockResolvedValue([
+      { day: "2026-03-09", succeeded: 3, failed: 1 },
+    ]);
+  });
+
+  it("should list the last N UTC days through today", () => {
+    expect(analyticsDays(3, now)).toEqual(["2026-03-08", "2026-03-09", "2026-03-10"]);
+  });
+
+  it("should fill days without activity and compute failure rates", async () => {
+    const analytics = await getOcrAnalytics({ userId: 1 }, 3, now);
+
+    expect(getOcrDailyStats).toHaveBeenCalledWith({
+      userId: 1,
+      from: new Date("2026-03-08T00:00:00Z"),
+      to: new Date("2026-03-11T00:00:00Z"),
+    });
+    expect(analytics.throughput.map(day => day.results)).toEqual([2, 0, 3]);
+    expect(analytics.throughput[1].p50ProcessingTimeMs).toBeNull();
+    expect(analytics.failures.map(day => day.failureRate)).toEqual([null, 0.25, null]);
+    expect(analytics.summary).toMatchObject({
+      results: 5,
+      p95ProcessingTimeMs: 950,
+      failureRate: 0.25,
+    });
+  });
+
+  it("should group confidence buckets by language, largest group first", async () => {
+    const analytics = await getOcrAnalytics({}, 3, now);
+
+    expect(analytics.confidence.byLanguage.map(histogram => histogram.group)).toEqual([
+      "eng",
+      "vie",
+    ]);
+    expect(analytics.confidence.byLanguage[0]).toMatchObject({
+      total: 4,
+      buckets: [0, 0, 0, 0, 1, 0, 0, 0, 0, 3],
+    });
+    expect(analytics.confidence.byPreprocessing[0]).toMatchObject({ group: "document", total: 5 });
+  });
+
+  it("should keep global analytics to admins", async () => {
+    const ctx: TrpcContext = {
+      user: {
+        id: 1,
+        openId: "test-user",
+        email: "test@example.com",
+        name: "Test User",
+        loginMethod: "filler",
+        role: "user",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      },
+      req: { protocol: "https", headers: {} } as TrpcContext["req"],
+      res: {} as TrpcContext["res"],
+    };
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.analytics.getGlobal()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await caller.analytics.get({ days: 7 });
+    expect(vi.mocked(getOcrDailyStats).mock.lastCall?.[0].userId).toBe(1);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  getOcrConfidenceHistogram,
+  getOcrDailyStats,
+  getOcrOutcomesByDay,
+  type OcrAnalyticsScope,
+} from "./db";
+
+/**
+ * Processing analytics over `ocrResults` for the last N UTC days: daily
+ * throughput and processing-time percentiles, confidence histograms and
+ * failure rates of recorded attempts. Days without activity are filled with
+ * zeros so charts get a continuous axis.
+ */
+
+export const OCR_ANALYTICS_MAX_DAYS = 365;
+
+/** 10-point confidence buckets: 0-9, 10-19, ..., 90-100. */
+export const OCR_CONFIDENCE_BUCKETS = 10;
+
+export type OcrConfidenceHistogram = {
+  group: string;
+  total: number;
+  /** Result counts per bucket, lowest confidence first. */
+  buckets: number[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC days from `days - 1` days ago through today, as YYYY-MM-DD
+ */
+export function analyticsDays(days: number, now = new Date()) {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Array.from({ length: days }, (_, i) =>
+    new Date(today - (days - 1 - i) * DAY_MS).toISOString().slice(0, 10)
+  );
+}
+
+function toHistograms(rows: { group: string; bucket: number; count: number }[]) {
+  const groups = new Map<string, OcrConfidenceHistogram>();
+  for (const row of rows) {
+    let histogram = groups.get(row.group);
+    if (!histogram) {
+      histogram = {
+        group: row.group,
+        total: 0,
+        buckets: new Array<number>(OCR_CONFIDENCE_BUCKETS).fill(0),
+      };
+      groups.set(row.group, histogram);
+    }
+    histogram.buckets[row.bucket] += row.count;
+    histogram.total += row.count;
+  }
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Analytics for one user, or for everyone when `userId` is omitted
+ */
+export async function getOcrAnalytics(
+  scope: { userId?: number },
+  days: number,
+  now = new Date()
+) {
+  const dayKeys = analyticsDays(days, now);
+  const range: OcrAnalyticsScope = {
+    ...scope,
+    from: new Date(`${dayKeys[0]}T00:00:00.000Z`),
+    to: new Date(Date.parse(`${dayKeys[dayKeys.length - 1]}T00:00:00.000Z`) + DAY_MS),
+  };
+
+  const [daily, byLanguage, byPreprocessing, outcomes] = await Promise.all([
+    getOcrDailyStats(range),
+    getOcrConfidenceHistogram(range, "language"),
+    getOcrConfidenceHistogram(range, "preprocessing"),
+    getOcrOutcomesByDay(range),
+  ]);
+
+  const statsByDay = new Map(daily.days.map(row => [row.day, row]));
+  const outcomesByDay = new Map(outcomes.map(row => [row.day, row]));
+  const failureRate = (succeeded: number, failed: number) =>
+    succeeded + failed === 0 ? null : failed / (succeeded + failed);
+
+  const totalSucceeded = outcomes.reduce((sum, row) => sum + row.succeeded, 0);
+  const totalFailed = outcomes.reduce((sum, row) => sum + row.failed, 0);
+
+  return {
+    from: range.from,
+    to: range.to,
+    summary: {
+      results: daily.overall?.results ?? 0,
+      pages: daily.overall?.pages ?? 0,
+      avgConfidence: daily.overall?.avgConfidence ?? null,
+      p50ProcessingTimeMs: daily.overall?.p50ProcessingTimeMs ?? null,
+      p95ProcessingTimeMs: daily.overall?.p95ProcessingTimeMs ?? null,
+      succeeded: totalSucceeded,
+      failed: totalFailed,
+      failureRate: failureRate(totalSucceeded, totalFailed),
+    },
+    throughput: dayKeys.map(day => {
+      const stats = statsByDay.get(day);
+      return {
+        day,
+        results: stats?.results ?? 0,
+        pages: stats?.pages ?? 0,
+        avgConfidence: stats?.avgConfidence ?? null,
+        p50ProcessingTimeMs: stats?.p50ProcessingTimeMs ?? null,
+        p95ProcessingTimeMs: stats?.p95ProcessingTimeMs ?? null,
+      };
+    }),
+    failures: dayKeys.map(day => {
+      const { succeeded = 0, failed = 0 } = outcomesByDay.get(day) ?? {};
+      return { day, succeeded, failed, failureRate: failureRate(succeeded, failed) };
+    }),
+    confidence: {
+      byLanguage: toHistograms(byLanguage),
+      byPreprocessing: toHistograms(byPreprocessing),
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { dictionaryInputSchema } from "@shared/dictionaries";
+import { correctText, editDistance, type CorrectionDictionary } from "./ocrCorrections";
+import { createUserRegexBudget } from "./userRegex";
+
+const correct = (text: string, dictionaries: CorrectionDictionary[]) =>
+  correctText(text, dictionaries, createUserRegexBudget(1));
+
+function dictionary(
+  values: Partial<CorrectionDictionary> & Pick<CorrectionDictionary, "id">
+): CorrectionDictionary {
+  return { name: `Dictionary ${values.id}`, words: [], rules: [], ...values };
+}
+
+const places = dictionary({ id: 1, name: "Places", words: ["Hà Nội", "Đà Nẵng", "Hải Phòng"] });
+const products = dictionary({
+  id: 2,
+  name: "Products",
+  words: ["Widgetron", "Gizmoflex"],
+  rules: [
+    { type: "characters", from: "OIl", to: "011", within: "(?<=-)[0-9OIl]+" },
+    { type: "replace", find: "Widget Tron", replace: "Widgetron", matchCase: false },
+  ],
+});
+
+describe("OCR corrections", () => {
+  describe("editDistance", () => {
+    it("should count edits and stop past the maximum", () => {
+      expect(editDistance("widgetron", "widgetrom", 2)).toBe(1);
+      expect(editDistance("kitten", "sitting", 3)).toBe(3);
+      expect(editDistance("kitten", "sitting", 1)).toBe(2);
+    });
+  });
+
+  describe("correctText", () => {
+    it("should leave text alone without dictionaries", async () => {
+      expect(await correct("Widgetrom AB-1O23", [])).toEqual({
+        text: "Widgetrom AB-1O23",
+        corrections: [],
+      });
+    });
+
+    it("should restore diacritics of dictionary phrases", async () => {
+      const result = await correct("Giao hang: Ha Noi, Da Nang", [places]);
+
+      expect(result.text).toBe("Giao hang: Hà Nội, Đà Nẵng");
+      expect(result.corrections).toEqual([
+        {
+          kind: "word",
+          dictionaryId: 1,
+          dictionaryName: "Places",
+          original: "Ha Noi",
+          suggestion: "Hà Nội",
+          start: 11,
+          end: 17,
+        },
+        expect.objectContaining({ original: "Da Nang", suggestion: "Đà Nẵng", start: 19, end: 26 }),
+      ]);
+      expect(result.text.slice(19, 26)).toBe("Đà Nẵng");
+    });
+
+    it("should fix near misses of dictionary words but not ambiguous or numeric ones", async () => {
+      const similar = dictionary({ id: 3, words: ["Gizmoflax"] });
+
+      expect((await correct("1 Widgetrom", [products])).text).toBe("1 Widgetron");
+      // Gizmoflex and Gizmoflax are both one edit away
+      expect((await correct("Gizmoflox", [products, similar])).corrections).toEqual([]);
+      expect((await correct("2025", [dictionary({ id: 4, words: ["2024"] })])).text).toBe("2025");
+      expect((await correct("widgetron", [products])).corrections).toEqual([]);
+    });
+
+    it("should swap characters only within the rule's pattern", async () => {
+      const result = await correct("Code OB-1O2l shipped", [products]);
+
+      expect(result.text).toBe("Code OB-1021 shipped");
+      expect(result.corrections).toEqual([
+        expect.objectContaining({ kind: "rule", original: "OB-1O2l", suggestion: "OB-1021" }),
+      ]);
+    });
+
+    it("should apply replace rules across spaces before word matching", async () => {
+      const result = await correct("2 x widget  tron\nHa Noi", [products, places]);
+
+      expect(result.text).toBe("2 x Widgetron\nHà Nội");
+      expect(result.corrections.map(correction => correction.kind)).toEqual(["rule", "word"]);
+      expect(result.corrections[1]).toMatchObject({ start: 14, end: 20 });
+    });
+  });
+
+  describe("dictionaryInputSchema", () => {
+    it("should reject character rules of different lengths and dedupe words", () => {
+      expect(
+        dictionaryInputSchema.safeParse({
+          name: "Codes",
+          words: [],
+          rules: [{ type: "characters", from: "OI", to: "0" }],
+        }).success
+      ).toBe(false);
+      expect(dictionaryInputSchema.parse({ name: "Codes", words: ["A1", "A1 "] }).words).toEqual([
+        "A1",
+      ]);
+    });
+  });
+});
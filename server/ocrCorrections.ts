@@ -0,0 +1,335 @@
+import type { DictionaryRule } from "@shared/dictionaries";
+import type { OcrCorrectionKind, OcrDictionary } from "../drizzle/schema";
+import { matchAllUserRegex, type UserRegexBudget, type UserRegexMatch } from "./userRegex";
+
+/**
+ * Post-OCR correction with the user's dictionaries (see
+ * shared/dictionaries.ts). Replace rules run on the recognized text first;
+ * the remaining tokens then go through character swaps and are matched
+ * against the word lists. Each change is returned as a correction with its
+ * offsets in the corrected text. The user's `within` patterns run through
+ * userRegex.ts with a time limit.
+ */
+
+export type CorrectionDictionary = Pick<OcrDictionary, "id" | "name" | "words" | "rules">;
+
+export type TextCorrection = {
+  kind: OcrCorrectionKind;
+  dictionaryId: number;
+  dictionaryName: string;
+  original: string;
+  suggestion: string;
+  /** Offsets of `suggestion` in the corrected text. */
+  start: number;
+  end: number;
+};
+
+type Edit = {
+  start: number;
+  end: number;
+  replacement: string;
+  kind: OcrCorrectionKind;
+  dictionary: CorrectionDictionary;
+};
+
+type Term = { word: string; key: string; tokens: number; dictionary: CorrectionDictionary };
+
+type Lexicon = {
+  words: Set<string>;
+  byKey: Map<string, Term[]>;
+  terms: Term[];
+  maxTokens: number;
+};
+
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}]";
+// Codes such as "AB-1023" or "v2.1" are one token
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:[-_./'][\p{L}\p{M}\p{N}]+)*/gu;
+// Longer tokens are noise rather than words
+const MAX_TOKEN_LENGTH = 100;
+
+/**
+ * Lower-case, without diacritics and with single spaces, so "Hà Nội"
+ * and "HA NOI" compare equal
+ */
+function normalize(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+/** Edits allowed between a token and a word of this (normalized) length. */
+function allowedDistance(length: number) {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, "");
+
+/**
+ * Levenshtein distance, or max + 1 once it is certain to exceed `max`
+ */
+export function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function buildLexicon(dictionaries: CorrectionDictionary[]): Lexicon {
+  const lexicon: Lexicon = { words: new Set(), byKey: new Map(), terms: [], maxTokens: 1 };
+  for (const dictionary of dictionaries) {
+    for (const word of dictionary.words) {
+      const key = normalize(word);
+      const term = { word, key, tokens: key.split(" ").length, dictionary };
+      lexicon.words.add(word);
+      lexicon.terms.push(term);
+      lexicon.byKey.set(key, [...(lexicon.byKey.get(key) ?? []), term]);
+      lexicon.maxTokens = Math.max(lexicon.maxTokens, term.tokens);
+    }
+  }
+  return lexicon;
+}
+
+/** The one term all candidates agree on, or null when they differ. */
+function unique(candidates: Term[]) {
+  const words = new Set(candidates.map(term => term.word));
+  return words.size === 1 ? candidates[0] : null;
+}
+
+/**
+ * The dictionary word `text` is a misreading of: the only word equal to it
+ * without case and diacritics, else the only word within a few edits.
+ * Null for known words, case-only differences and ambiguous matches.
+ */
+function matchWord(text: string, lexicon: Lexicon): Term | null {
+  if (lexicon.words.has(text)) return null;
+  const key = normalize(text);
+
+  const exact = lexicon.byKey.get(key);
+  if (exact) {
+    const term = unique(exact);
+    return term && term.word.toLowerCase() !== text.toLowerCase() ? term : null;
+  }
+
+  const max = allowedDistance(key.length);
+  // Numbers are data: a different digit is a different code, not a typo
+  if (max === 0 || !/\p{L}/u.test(key)) return null;
+  const tokens = key.split(" ").length;
+  let best: Term[] = [];
+  let bestDistance = max + 1;
+  for (const term of lexicon.terms) {
+    if (term.tokens !== tokens || digitsOf(term.key) !== digitsOf(key)) continue;
+    const distance = editDistance(key, term.key, Math.min(max, bestDistance));
+    if (distance < bestDistance) {
+      best = [term];
+      bestDistance = distance;
+    } else if (distance === bestDistance && distance <= max) {
+      best.push(term);
+    }
+  }
+  return best.length > 0 ? unique(best) : null;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+type CharacterRule = Extract<DictionaryRule, { type: "characters" }>;
+
+/**
+ * Swap characters one for one inside the `within` matches of `token`, or
+ * the whole token without them
+ */
+function swapCharacters(token: string, rule: CharacterRule, within?: UserRegexMatch[]) {
+  const from = Array.from(rule.from);
+  const to = Array.from(rule.to);
+  const swap = (part: string) =>
+    Array.from(part, char => {
+      const index = from.indexOf(char);
+      return index === -1 ? char : to[index];
+    }).join("");
+  if (!within) return swap(token);
+
+  let swapped = "";
+  let last = 0;
+  for (const match of within) {
+    const matched = match.groups[0] ?? "";
+    swapped += token.slice(last, match.index) + swap(matched);
+    last = match.index + matched.length;
+  }
+  return swapped + token.slice(last);
+}
+
+/**
+ * Each token after every character rule, in dictionary and rule order,
+ * with the last dictionary that changed it
+ */
+async function swapTokens(
+  tokens: string[],
+  dictionaries: CorrectionDictionary[],
+  budget: UserRegexBudget
+) {
+  const swapped = tokens.map(value => ({ value, by: null as CorrectionDictionary | null }));
+  if (swapped.length === 0) return swapped;
+  for (const dictionary of dictionaries) {
+    for (const rule of dictionary.rules) {
+      if (rule.type !== "characters") continue;
+      const within = rule.within
+        ? await matchAllUserRegex(budget, rule.within, "", swapped.map(token => token.value))
+        : undefined;
+      swapped.forEach((token, i) => {
+        const value = swapCharacters(token.value, rule, within?.[i]);
+        if (value !== token.value) {
+          token.value = value;
+          token.by = dictionary;
+        }
+      });
+    }
+  }
+  return swapped;
+}
+
+function overlaps(edits: Edit[], start: number, end: number) {
+  return edits.some(edit => start < edit.end && edit.start < end);
+}
+
+/**
+ * Apply replace rules, in dictionary and rule order, to the recognized text
+ */
+function replaceEdits(text: string, dictionaries: CorrectionDictionary[]) {
+  const edits: Edit[] = [];
+  for (const dictionary of dictionaries) {
+    for (const rule of dictionary.rules) {
+      if (rule.type !== "replace") continue;
+      // Spaces in a phrase match any run of spaces or tabs
+      const phrase = escapeRegExp(rule.find).replace(/\s+/g, "[^\\S\\n]+");
+      const pattern = new RegExp(
+        `(?<!${WORD_CHAR})${phrase}(?!${WORD_CHAR})`,
+        rule.matchCase ? "gu" : "giu"
+      );
+      for (const match of text.matchAll(pattern)) {
+        const end = match.index + match[0].length;
+        if (match[0] === rule.replace || overlaps(edits, match.index, end)) continue;
+        edits.push({
+          start: match.index,
+          end,
+          replacement: rule.replace,
+          kind: "rule",
+          dictionary,
+        });
+      }
+    }
+  }
+  return edits;
+}
+
+/**
+ * Correct recognized text with the user's dictionaries
+ * @returns The corrected text and each change, in text order
+ * @throws HttpError 422 when a `within` pattern or the budget runs out of time
+ */
+export async function correctText(
+  text: string,
+  dictionaries: CorrectionDictionary[],
+  budget: UserRegexBudget
+): Promise<{ text: string; corrections: TextCorrection[] }> {
+  if (dictionaries.length === 0) return { text, corrections: [] };
+
+  const edits = replaceEdits(text, dictionaries);
+  const lexicon = buildLexicon(dictionaries);
+  const tokens = Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  })).filter(
+    token =>
+      token.text.length <= MAX_TOKEN_LENGTH && !overlaps(edits, token.start, token.end)
+  );
+  const swapped = await swapTokens(
+    tokens.map(token => token.text),
+    dictionaries,
+    budget
+  );
+
+  for (let i = 0; i < tokens.length; i++) {
+    // Phrases first, longest first, over tokens on the same line
+    let phrase = null;
+    for (let count = Math.min(lexicon.maxTokens, tokens.length - i); count > 1; count--) {
+      const last = tokens[i + count - 1];
+      const span = text.slice(tokens[i].start, last.end);
+      if (span.includes("\n") || span.length > MAX_TOKEN_LENGTH) continue;
+      const separated = tokens
+        .slice(i, i + count - 1)
+        .every((token, j) => /^[^\S\n]+$/.test(text.slice(token.end, tokens[i + j + 1].start)));
+      if (!separated) continue;
+      const candidate = span.replace(/\s+/g, " ");
+      const term = matchWord(candidate, lexicon);
+      // A known phrase is left as is, its words included
+      if (term || lexicon.words.has(candidate)) {
+        phrase = { term, count, end: last.end };
+        break;
+      }
+    }
+    if (phrase?.term) {
+      edits.push({
+        start: tokens[i].start,
+        end: phrase.end,
+        replacement: phrase.term.word,
+        kind: "word",
+        dictionary: phrase.term.dictionary,
+      });
+    }
+    if (phrase) {
+      i += phrase.count - 1;
+      continue;
+    }
+
+    const { start, end } = tokens[i];
+    const { value, by } = swapped[i];
+    const term = matchWord(value, lexicon);
+    if (term) {
+      edits.push({ start, end, replacement: term.word, kind: "word", dictionary: term.dictionary });
+    } else if (by) {
+      edits.push({ start, end, replacement: value, kind: "rule", dictionary: by });
+    }
+  }
+
+  edits.sort((a, b) => a.start - b.start);
+  let corrected = "";
+  let last = 0;
+  const corrections = edits.map(edit => {
+    corrected += text.slice(last, edit.start);
+    const start = corrected.length;
+    corrected += edit.replacement;
+    last = edit.end;
+    return {
+      kind: edit.kind,
+      dictionaryId: edit.dictionary.id,
+      dictionaryName: edit.dictionary.name,
+      original: text.slice(edit.start, edit.end),
+      suggestion: edit.replacement,
+      start,
+      end: corrected.length,
+    };
+  });
+  corrected += text.slice(last);
+
+  return { text: corrected, corrections };
+}
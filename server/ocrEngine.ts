@@ -0,0 +1,107 @@
+import type { OcrParameters } from "@shared/ocrParameters";
+import type { OcrLayout } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { tesseractEngine } from "./tesseractEngine";
+
+/**
+ * OCR engine abstraction. An engine recognizes one preprocessed page image;
+ * preprocessing, page splitting and persistence stay engine-independent.
+ * Tesseract is built in; other engines (a local alternative, or the fixture
+ * engine in tests) are added with registerOcrEngine. OCR_ENGINE picks the
+ * deployment default, and requests may name an engine explicitly.
+ */
+
+export type OcrEngineCapabilities = {
+  /** Returns a block/paragraph/line/word layout with bounding boxes. */
+  layout: boolean;
+  /** Detects page orientation and script. */
+  orientation: boolean;
+};
+
+/** Pixel rectangle on the image passed to recognize. */
+export type OcrRectangle = { left: number; top: number; width: number; height: number };
+
+export type OcrRecognizeOptions = {
+  /** Recognition progress (0-1). */
+  onProgress?: (progress: number) => void;
+  /** Recognize only this part of the image (see ocrRegions.ts). */
+  rectangle?: OcrRectangle;
+  /** Tesseract settings for this request only; other engines may ignore them. */
+  parameters?: OcrParameters;
+};
+
+/** Orientation and script of a page, as detected by Tesseract OSD. */
+export type OcrOrientation = {
+  /** Clockwise rotation (0, 90, 180 or 270) that makes the page upright. */
+  degrees: number;
+  orientationConfidence: number;
+  /** Script name such as "Latin", "Cyrillic" or "Han". */
+  script: string | null;
+  scriptConfidence: number;
+};
+
+export type OcrRecognition = {
+  text: string;
+  /** Mean confidence, 0-100. */
+  confidence: number;
+  layout: OcrLayout | null;
+};
+
+export type OcrEngine = {
+  name: string;
+  capabilities: OcrEngineCapabilities;
+  listLanguages(): Promise<string[]>;
+  /**
+   * @param language - Language code or "+"-joined set, e.g. "vie+eng"
+   */
+  recognize(
+    image: Buffer,
+    language: string,
+    options?: OcrRecognizeOptions
+  ): Promise<OcrRecognition>;
+  /**
+   * Detect orientation and script; engines with the `orientation`
+   * capability implement it. Null when nothing could be detected.
+   */
+  detectOrientation?(image: Buffer): Promise<OcrOrientation | null>;
+  /** Release workers or other resources held by the engine. */
+  terminate?(): Promise<void>;
+};
+
+const engines = new Map<string, OcrEngine>([[tesseractEngine.name, tesseractEngine]]);
+
+/**
+ * Make an engine selectable by name, replacing any engine of the same name
+ */
+export function registerOcrEngine(engine: OcrEngine) {
+  engines.set(engine.name, engine);
+}
+
+export function listOcrEngines(): OcrEngine[] {
+  return Array.from(engines.values());
+}
+
+export function isOcrEngineRegistered(name: string) {
+  return engines.has(name);
+}
+
+/**
+ * Look up an engine by name; defaults to the deployment's OCR_ENGINE
+ */
+export function getOcrEngine(name?: string): OcrEngine {
+  const engineName = name || ENV.ocrEngine;
+  const engine = engines.get(engineName);
+  if (!engine) {
+    throw new Error(
+      `Unknown OCR engine: ${engineName}. Available: ${Array.from(engines.keys()).join(", ")}`
+    );
+  }
+  return engine;
+}
+
+/**
+ * Terminate every registered engine's workers
+ */
+export async function terminateOcrEngines() {
+  await Promise.all(listOcrEngines().map(engine => engine.terminate?.()));
+}
@@ -0,0 +1,184 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { OcrLayout, OcrResult } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { getOcrLayouts, getOcrResultById } from "./db";
+import { alignToLayout, buildAlto, buildHocr, buildTsv, exportOcrResult } from "./ocrExport";
+import { buildSearchablePdf } from "./searchablePdf";
+import { storagePut } from "./storage";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getOcrResultById: vi.fn(),
+  getOcrLayouts: vi.fn(),
+  getOcrPages: vi.fn(async () => []),
+}));
+
+const bbox = { x0: 10, y0: 20, x1: 110, y1: 40 };
+
+const layout: OcrLayout = {
+  width: 200,
+  height: 100,
+  confidence: 90,
+  blocks: [
+    {
+      text: "Tổng <cộng>",
+      confidence: 90,
+      bbox,
+      blockType: "FLOWING_TEXT",
+      paragraphs: [
+        {
+          text: "Tổng <cộng>",
+          confidence: 90,
+          bbox,
+          lines: [
+            {
+              text: "Tổng <cộng>",
+              confidence: 90,
+              bbox,
+              words: [
+                { text: "Tổng", confidence: 95, bbox: { x0: 10, y0: 20, x1: 50, y1: 40 } },
+                { text: "<cộng>", confidence: 85, bbox: { x0: 60, y0: 20, x1: 110, y1: 40 } },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const pages = [{ pageNumber: 1, layout }];
+
+describe("OCR Export", () => {
+  it("should write Tesseract-style TSV rows for every level", () => {
+    const rows = buildTsv(pages).trim().split("\n");
+    expect(rows).toHaveLength(7);
+    expect(rows[6].split("\t")).toEqual([
+      "5", "1", "1", "1", "1", "2", "60", "20", "50", "20", "85", "<cộng>",
+    ]);
+  });
+
+  it("should escape word text in hOCR", () => {
+    const hocr = buildHocr(pages, "vie");
+    expect(hocr).toContain("class='ocr_page'");
+    expect(hocr).toContain("title='bbox 60 20 110 40; x_wconf 85'>&lt;cộng&gt;</span>");
+  });
+
+  it("should write ALTO strings with 0-1 word confidence", () => {
+    const alto = buildAlto(pages, "receipt.jpg");
+    expect(alto).toContain('HPOS="10" VPOS="20" WIDTH="40" HEIGHT="20" WC="0.95" CONTENT="Tổng"');
+    expect(alto).toContain("<SP/>");
+  });
+
+  it("should build a PDF with a valid xref and a searchable text layer", () => {
+    const pdf = buildSearchablePdf(
+      [{ jpeg: Buffer.from([0xff, 0xd8, 0xff, 0xd9]), channels: 1, layout }],
+      72
+    );
+    const source = pdf.toString("latin1");
+
+    expect(source.startsWith("%PDF-1.4")).toBe(true);
+    expect(source).toContain("3 Tr");
+    expect(source).toContain("/ToUnicode");
+    // "Tổng" as UTF-16BE
+    expect(source).toContain("<00541ED5006E0067> Tj");
+
+    const startxref = Number(/startxref\n(\d+)/.exec(source)![1]);
+    expect(source.slice(startxref, startxref + 4)).toBe("xref");
+    const firstOffset = Number(/0000000000 65535 f \n(\d{10})/.exec(source)![1]);
+    expect(source.slice(firstOffset).startsWith("1 0 obj")).toBe(true);
+  });
+
+  describe("alignToLayout", () => {
+    it("should replay the rotations recognition applied to the stored image", async () => {
+      // Black left half; turned a quarter clockwise it becomes the top half
+      const image = await sharp({
+        create: { width: 200, height: 100, channels: 3, background: "#ffffff" },
+      })
+        .composite([
+          {
+            input: { create: { width: 100, height: 100, channels: 3, background: "#000000" } },
+            left: 0,
+            top: 0,
+          },
+        ])
+        .png()
+        .toBuffer();
+      const rotated = { ...layout, width: 100, height: 200 };
+
+      const pixelAt = async (target: OcrLayout, x: number, y: number) => {
+        const { data, info } = await (await alignToLayout(image, target))
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        return data[(y * info.width + x) * info.channels];
+      };
+
+      expect(await pixelAt({ ...rotated, transform: { rotation: 90, deskew: [] } }, 25, 25)).toBe(0);
+      expect(await pixelAt({ ...rotated, transform: { rotation: 90, deskew: [] } }, 25, 175)).toBe(
+        255
+      );
+      // Layouts without a transform are only scaled
+      expect(await pixelAt(rotated, 25, 175)).toBe(0);
+    });
+  });
+
+  describe("exportOcrResult", () => {
+    const original = { ...ENV };
+    let storageDir = "";
+
+    beforeAll(async () => {
+      storageDir = await mkdtemp(path.join(tmpdir(), "export-test-"));
+      ENV.storageBackend = "local";
+      ENV.localStorageDir = storageDir;
+    });
+
+    afterAll(async () => {
+      Object.assign(ENV, original);
+      await rm(storageDir, { recursive: true, force: true });
+    });
+
+    it("should read the page image from storage for PDF export", async () => {
+      const image = await sharp({
+        create: { width: 200, height: 100, channels: 3, background: "#ffffff" },
+      })
+        .png()
+        .toBuffer();
+      const stored = await storagePut("ocr/1/abc-receipt.png", image, "image/png");
+      vi.mocked(getOcrResultById).mockResolvedValueOnce({
+        id: 7,
+        imageFileName: "receipt.png",
+        imageUrl: stored.url,
+        imageKey: stored.key,
+        pageCount: 1,
+        extractedText: "Tổng <cộng>",
+        language: "vie",
+      } as OcrResult);
+      vi.mocked(getOcrLayouts).mockResolvedValueOnce(pages);
+
+      const file = await exportOcrResult(7, 1, "pdf");
+
+      expect(file?.fileName).toBe("receipt.pdf");
+      const source = file!.content.toString("latin1");
+      expect(source).toContain("/Subtype /Image /Width 200 /Height 100");
+      expect(source).toContain("<00541ED5006E0067> Tj");
+    });
+
+    it("should report a missing layout as not found", async () => {
+      vi.mocked(getOcrResultById).mockResolvedValueOnce({
+        id: 8,
+        imageFileName: "scan.png",
+        extractedText: "Hello",
+      } as OcrResult);
+      vi.mocked(getOcrLayouts).mockResolvedValueOnce([]);
+
+      await expect(exportOcrResult(8, 1, "hocr")).rejects.toMatchObject({
+        statusCode: 404,
+        message: "No layout stored for this result; export requires layout data",
+      });
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { NotFoundError } from "@shared/_core/errors";
+import sharp from "sharp";
+import type { OcrLayout, OcrResult } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { getOcrLayouts, getOcrPages, getOcrResultById } from "./db";
+import { rotatePage } from "./ocrRegions";
+import { buildSearchablePdf } from "./searchablePdf";
+import { storageRead } from "./storage";
+
+/**
+ * Export OCR results as searchable PDF, hOCR, ALTO XML, TSV or plain text,
+ * built from the layout Tesseract produced for the result.
+ */
+
+export const OCR_EXPORT_FORMATS = ["pdf", "hocr", "alto", "tsv", "txt"] as const;
+export type OcrExportFormat = (typeof OCR_EXPORT_FORMATS)[number];
+
+export type OcrExportFile = {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+};
+
+type ExportPage = { pageNumber: number; layout: OcrLayout };
+
+const MIME_TYPES: Record<OcrExportFormat, string> = {
+  pdf: "application/pdf",
+  hocr: "text/html; charset=utf-8",
+  alto: "application/xml; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+};
+
+const EXTENSIONS: Record<OcrExportFormat, string> = {
+  pdf: "pdf",
+  hocr: "hocr.html",
+  alto: "alto.xml",
+  tsv: "tsv",
+  txt: "txt",
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function bboxTitle({ x0, y0, x1, y1 }: { x0: number; y0: number; x1: number; y1: number }) {
+  return `bbox ${x0} ${y0} ${x1} ${y1}`;
+}
+
+/**
+ * hOCR 1.2 document, one ocr_page per page
+ */
+export function buildHocr(pages: ExportPage[], language: string) {
+  const body = pages.map(({ pageNumber, layout }) => {
+    const blocks = layout.blocks.map((block, b) => {
+      const paragraphs = block.paragraphs.map((paragraph, p) => {
+        const lines = paragraph.lines.map((line, l) => {
+          const words = line.words.map(
+            (word, w) =>
+              `<span class='ocrx_word' id='word_${pageNumber}_${b + 1}_${p + 1}_${l + 1}_${w + 1}' ` +
+              `title='${bboxTitle(word.bbox)}; x_wconf ${word.confidence}'>${escapeXml(word.text)}</span>`
+          );
+          return (
+            `<span class='ocr_line' id='line_${pageNumber}_${b + 1}_${p + 1}_${l + 1}' ` +
+            `title='${bboxTitle(line.bbox)}'>${words.join(" ")}</span>`
+          );
+        });
+        return (
+          `<p class='ocr_par' id='par_${pageNumber}_${b + 1}_${p + 1}' ` +
+          `title='${bboxTitle(paragraph.bbox)}'>\n${lines.join("\n")}\n</p>`
+        );
+      });
+      return (
+        `<div class='ocr_carea' id='block_${pageNumber}_${b + 1}' ` +
+        `title='${bboxTitle(block.bbox)}'>\n${paragraphs.join("\n")}\n</div>`
+      );
+    });
+    return (
+      `<div class='ocr_page' id='page_${pageNumber}' ` +
+      `title='${bboxTitle({ x0: 0, y0: 0, x1: layout.width, y1: layout.height })}; ppageno ${pageNumber - 1}'>\n` +
+      `${blocks.join("\n")}\n</div>`
+    );
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+<title></title>
+<meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>
+<meta name="ocr-system" content="tesseract.js"/>
+<meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word"/>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * ALTO v4 XML, one Page per page with word confidence as WC (0-1)
+ */
+export function buildAlto(pages: ExportPage[], fileName: string) {
+  const box = ({ x0, y0, x1, y1 }: { x0: number; y0: number; x1: number; y1: number }) =>
+    `HPOS="${x0}" VPOS="${y0}" WIDTH="${x1 - x0}" HEIGHT="${y1 - y0}"`;
+
+  const altoPages = pages.map(({ pageNumber, layout }) => {
+    const blocks = layout.blocks.flatMap((block, b) =>
+      block.paragraphs.map((paragraph, p) => {
+        const lines = paragraph.lines.map((line, l) => {
+          const strings = line.words.map(
+            (word, w) =>
+              `<String ID="string_${pageNumber}_${b}_${p}_${l}_${w}" ${box(word.bbox)} ` +
+              `WC="${(word.confidence / 100).toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`
+          );
+          return (
+            `<TextLine ID="line_${pageNumber}_${b}_${p}_${l}" ${box(line.bbox)}>` +
+            `${strings.join("<SP/>")}</TextLine>`
+          );
+        });
+        return (
+          `<TextBlock ID="block_${pageNumber}_${b}_${p}" ${box(paragraph.bbox)}>\n` +
+          `${lines.join("\n")}\n</TextBlock>`
+        );
+      })
+    );
+    return (
+      `<Page ID="page_${pageNumber}" PHYSICAL_IMG_NR="${pageNumber}" ` +
+      `WIDTH="${layout.width}" HEIGHT="${layout.height}">\n` +
+      `<PrintSpace HPOS="0" VPOS="0" WIDTH="${layout.width}" HEIGHT="${layout.height}">\n` +
+      `${blocks.join("\n")}\n</PrintSpace>\n</Page>`
+    );
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+<Description>
+<MeasurementUnit>pixel</MeasurementUnit>
+<sourceImageInformation><fileName>${escapeXml(fileName)}</fileName></sourceImageInformation>
+<OCRProcessing ID="OCR_0"><ocrProcessingStep><processingSoftware><softwareName>tesseract.js</softwareName></processingSoftware></ocrProcessingStep></OCRProcessing>
+</Description>
+<Layout>
+${altoPages.join("\n")}
+</Layout>
+</alto>
+`;
+}
+
+/**
+ * Tesseract-compatible TSV (levels 1 page .. 5 word)
+ */
+export function buildTsv(pages: ExportPage[]) {
+  const rows = [
+    "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext",
+  ];
+  const row = (
+    level: number,
+    ids: number[],
+    bbox: { x0: number; y0: number; x1: number; y1: number },
+    conf: number,
+    text = ""
+  ) => {
+    const padded = [...ids, 0, 0, 0, 0].slice(0, 5);
+    rows.push(
+      [
+        level,
+        ...padded,
+        bbox.x0,
+        bbox.y0,
+        bbox.x1 - bbox.x0,
+        bbox.y1 - bbox.y0,
+        conf,
+        text.replace(/[\t\n]/g, " "),
+      ].join("\t")
+    );
+  };
+
+  for (const { pageNumber, layout } of pages) {
+    row(1, [pageNumber], { x0: 0, y0: 0, x1: layout.width, y1: layout.height }, -1);
+    layout.blocks.forEach((block, b) => {
+      row(2, [pageNumber, b + 1], block.bbox, -1);
+      block.paragraphs.forEach((paragraph, p) => {
+        row(3, [pageNumber, b + 1, p + 1], paragraph.bbox, -1);
+        paragraph.lines.forEach((line, l) => {
+          row(4, [pageNumber, b + 1, p + 1, l + 1], line.bbox, -1);
+          line.words.forEach((word, w) => {
+            row(5, [pageNumber, b + 1, p + 1, l + 1, w + 1], word.bbox, word.confidence, word.text);
+          });
+        });
+      });
+    });
+  }
+
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * The stored page image on the pixel grid its layout was recognized on
+ */
+export async function alignToLayout(image: Buffer, layout: OcrLayout) {
+  let page = image;
+  if (layout.transform) {
+    page = await rotatePage(page, layout.transform.rotation);
+    for (const degrees of layout.transform.deskew) {
+      page = await sharp(page).rotate(degrees, { background: "#ffffff" }).png().toBuffer();
+    }
+  }
+  return sharp(page).resize(layout.width, layout.height, { fit: "fill" });
+}
+
+async function buildPdf(result: OcrResult, pages: ExportPage[], userId: number) {
+  // Multi-page results keep rendered page images; single images use the upload.
+  const pageImages =
+    result.pageCount > 1
+      ? new Map((await getOcrPages(result.id, userId)).map(page => [page.pageNumber, page.imageKey]))
+      : new Map([[1, result.imageKey]]);
+
+  const pdfPages = [];
+  for (const { pageNumber, layout } of pages) {
+    const imageKey = pageImages.get(pageNumber);
+    if (!imageKey) throw new Error(`Missing image for page ${pageNumber}`);
+
+    const { data, info } = await (await alignToLayout(await storageRead(imageKey), layout))
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    pdfPages.push({ jpeg: data, channels: info.channels, layout });
+  }
+
+  return buildSearchablePdf(pdfPages, ENV.pdfRenderDpi);
+}
+
+/**
+ * Build an export file for a user's OCR result; undefined if not found
+ * @throws HttpError 404 when a layout-based format has no stored layout
+ */
+export async function exportOcrResult(
+  id: number,
+  userId: number,
+  format: OcrExportFormat
+): Promise<OcrExportFile | undefined> {
+  const result = await getOcrResultById(id, userId);
+  if (!result) return undefined;
+
+  const baseName = result.imageFileName.replace(/\.[^.]+$/, "") || "ocr";
+  const file = (content: string | Buffer): OcrExportFile => ({
+    fileName: `${baseName}.${EXTENSIONS[format]}`,
+    mimeType: MIME_TYPES[format],
+    content: typeof content === "string" ? Buffer.from(content, "utf-8") : content,
+  });
+
+  if (format === "txt") {
+    return file(result.extractedText);
+  }
+
+  const pages = await getOcrLayouts(id, userId);
+  if (pages.length === 0) {
+    throw NotFoundError("No layout stored for this result; export requires layout data");
+  }
+
+  switch (format) {
+    case "hocr":
+      return file(buildHocr(pages, result.language));
+    case "alto":
+      return file(buildAlto(pages, result.imageFileName));
+    case "tsv":
+      return file(buildTsv(pages));
+    case "pdf":
+      return file(await buildPdf(result, pages, userId));
+  }
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OcrJobItem } from "../drizzle/schema";
+import { claimNextOcrJobItem, updateOcrJobItem } from "./db";
+import { startOcrJobWorker, stopOcrJobWorker } from "./ocrJobQueue";
+import { recognizeAndSave } from "./ocrPipeline";
+import { storageDelete } from "./storage";
+
+vi.mock("./db", () => ({
+  claimNextOcrJobItem: vi.fn(async () => undefined),
+  finalizeOcrJob: vi.fn(async () => undefined),
+  getOcrJob: vi.fn(async () => undefined),
+  requeueInterruptedOcrJobItems: vi.fn(async () => undefined),
+  updateOcrJobItem: vi.fn(async () => undefined),
+}));
+
+vi.mock("./ocrPipeline", () => ({
+  OcrAttemptError: class extends Error {},
+  recognizeAndSave: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storageRead: vi.fn(async () => Buffer.from("image")),
+  storageDelete: vi.fn(async () => undefined),
+}));
+
+const item = {
+  id: 3,
+  jobId: 2,
+  fileName: "scan.png",
+  mimeType: "image/png",
+  language: "eng",
+  engine: "tesseract",
+  duplicates: "reuseIfSameSettings",
+  rotation: 0,
+  imageKey: "ocr/1/abc-scan.png",
+  imageUrl: "/api/storage/ocr/1/abc-scan.png",
+  status: "running",
+} as OcrJobItem & { status: "running" };
+
+async function processQueuedItem() {
+  vi.mocked(claimNextOcrJobItem).mockResolvedValueOnce({ item, userId: 1 });
+  await startOcrJobWorker();
+  await vi.waitFor(() =>
+    expect(updateOcrJobItem).toHaveBeenCalledWith(
+      item.id,
+      expect.objectContaining({ status: "succeeded" })
+    )
+  );
+}
+
+afterEach(() => {
+  stopOcrJobWorker();
+  vi.clearAllMocks();
+});
+
+describe("OCR job worker", () => {
+  it("should delete the uploaded image when an earlier stored copy is used", async () => {
+    vi.mocked(recognizeAndSave).mockResolvedValueOnce({
+      id: 9,
+      imageUrl: "/api/storage/ocr/1/old-scan.png",
+      reused: true,
+    } as never);
+
+    await processQueuedItem();
+
+    expect(storageDelete).toHaveBeenCalledWith(item.imageKey);
+    expect(updateOcrJobItem).toHaveBeenCalledWith(item.id, {
+      status: "succeeded",
+      progress: 100,
+      ocrResultId: 9,
+      imageKey: null,
+      imageUrl: null,
+    });
+  });
+
+  it("should keep the uploaded image of a new result", async () => {
+    vi.mocked(recognizeAndSave).mockResolvedValueOnce({
+      id: 10,
+      imageUrl: item.imageUrl,
+      reused: false,
+    } as never);
+
+    await processQueuedItem();
+
+    expect(storageDelete).not.toHaveBeenCalled();
+    expect(updateOcrJobItem).toHaveBeenCalledWith(item.id, {
+      status: "succeeded",
+      progress: 100,
+      ocrResultId: 10,
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { EventEmitter, on } from "events";
+import { resolvePreprocessingProfile } from "@shared/preprocessing";
+import type { OcrJobItem, OcrJobStatus } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import {
+  claimNextOcrJobItem,
+  finalizeOcrJob,
+  getOcrJob,
+  requeueInterruptedOcrJobItems,
+  updateOcrJobItem,
+} from "./db";
+import { OcrAttemptError, recognizeAndSave } from "./ocrPipeline";
+import { storageDelete, storageRead } from "./storage";
+
+/**
+ * Background worker that drains queued OCR job items from the database
+ * with `ENV.ocrJobConcurrency` items in flight.
+ */
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const FINISHED_JOB_STATUSES: OcrJobStatus[] = ["succeeded", "failed", "cancelled"];
+
+// Persist progress in steps so a page does not cost a hundred UPDATEs.
+const PROGRESS_STEP = 5;
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let running = 0;
+let draining = false;
+
+/**
+ * Tell job watchers that a job or one of its items changed
+ */
+export function notifyOcrJobUpdated(jobId: number) {
+  jobEvents.emit(`job:${jobId}`);
+}
+
+async function processItem(item: OcrJobItem, userId: number) {
+  let lastProgress = 0;
+
+  try {
+    if (!item.imageKey || !item.imageUrl) {
+      throw new Error("Job item has no stored image");
+    }
+    const imageBuffer = await storageRead(item.imageKey);
+
+    const result = await recognizeAndSave(
+      userId,
+      {
+        image: imageBuffer,
+        fileName: item.fileName,
+        mimeType: item.mimeType,
+        language: item.language,
+        engine: item.engine,
+        duplicates: item.duplicates,
+        preprocessing: item.preprocessing ?? resolvePreprocessingProfile(undefined),
+        rotation: item.rotation,
+        regions: item.regions ?? undefined,
+        parameters: item.parameters ?? undefined,
+      },
+      {
+        stored: { key: item.imageKey, url: item.imageUrl },
+        onProgress: progress => {
+          const percent = Math.round(progress * 100);
+          if (percent - lastProgress < PROGRESS_STEP) return;
+          lastProgress = percent;
+          updateOcrJobItem(item.id, { progress: percent })
+            .then(() => notifyOcrJobUpdated(item.jobId))
+            .catch(() => undefined);
+        },
+      }
+    );
+
+    // Duplicates use the copy stored earlier, so the upload would be orphaned
+    const orphaned = result.imageUrl !== item.imageUrl ? item.imageKey : null;
+    if (orphaned) {
+      await storageDelete(orphaned).catch(error =>
+        console.error(`[OCR] Failed to delete stored image ${orphaned}:`, error)
+      );
+    }
+
+    await updateOcrJobItem(item.id, {
+      status: "succeeded",
+      progress: 100,
+      ocrResultId: result.id ?? null,
+      ...(orphaned && { imageKey: null, imageUrl: null }),
+    });
+  } catch (error) {
+    console.error("[OCR] Job item failed:", item.id, error);
+    await updateOcrJobItem(item.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      // The failed attempt, if it got far enough to be saved
+      ocrResultId: error instanceof OcrAttemptError ? (error.resultId ?? null) : null,
+    }).catch(() => undefined);
+  }
+
+  await finalizeOcrJob(item.jobId).catch(() => undefined);
+  notifyOcrJobUpdated(item.jobId);
+}
+
+async function drain() {
+  if (draining) return;
+  draining = true;
+
+  try {
+    while (running < ENV.ocrJobConcurrency) {
+      const claimed = await claimNextOcrJobItem();
+      if (!claimed) break;
+
+      running++;
+      notifyOcrJobUpdated(claimed.item.jobId);
+      void processItem(claimed.item, claimed.userId).finally(() => {
+        running--;
+        void notifyOcrJobQueue();
+      });
+    }
+  } catch (error) {
+    console.error("[OCR] Job queue drain failed:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Wake the worker after new items are queued
+ */
+export function notifyOcrJobQueue() {
+  if (!pollTimer) return Promise.resolve();
+  return drain();
+}
+
+/**
+ * Start polling the job tables; call once per server process
+ */
+export async function startOcrJobWorker() {
+  if (pollTimer) return;
+
+  await requeueInterruptedOcrJobItems().catch(() => undefined);
+  pollTimer = setInterval(() => void drain(), ENV.ocrJobPollMs);
+  pollTimer.unref?.();
+  void drain();
+}
+
+/**
+ * Stop picking up new items; items already running finish normally
+ */
+export function stopOcrJobWorker() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+/**
+ * Whether this process is polling for job items, and how many it is running
+ */
+export function getOcrJobWorkerStats() {
+  return { polling: pollTimer !== null, running, concurrency: ENV.ocrJobConcurrency };
+}
+
+/**
+ * Yield the job snapshot now and after every change, until it finishes
+ */
+export async function* watchOcrJob(jobId: number, userId: number, signal?: AbortSignal) {
+  // Subscribe before the first read so no update slips in between.
+  const updates = on(jobEvents, `job:${jobId}`, { signal });
+
+  try {
+    let job = await getOcrJob(jobId, userId);
+    if (!job) return;
+    yield job;
+
+    while (!FINISHED_JOB_STATUSES.includes(job.status)) {
+      const next = await updates.next();
+      if (next.done) return;
+      job = await getOcrJob(jobId, userId);
+      if (!job) return;
+      yield job;
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw error;
+  } finally {
+    await updates.return?.();
+  }
+}
@@ -0,0 +1,71 @@
+import type { OcrOrientation } from "./ocrEngine";
+
+/**
+ * What to do with a Tesseract OSD result: whether it is confident enough
+ * to rotate the page, and which installed languages to recognize a script
+ * with when the caller asked for language "auto".
+ */
+
+/**
+ * Tesseract's orientation/script confidences are unbounded scores rather
+ * than percentages; below this the detection is mostly noise.
+ */
+export const OSD_MIN_CONFIDENCE = 2;
+
+// Most languages joined into an "auto" language set
+const MAX_AUTO_LANGUAGES = 2;
+
+/** Candidate traineddata per OSD script name, most likely first. */
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: ["eng", "vie", "fra", "deu", "spa"],
+  Cyrillic: ["rus", "ukr", "bul", "srp"],
+  Greek: ["ell"],
+  Arabic: ["ara", "fas"],
+  Hebrew: ["heb"],
+  Han: ["chi_sim", "chi_tra"],
+  Japanese: ["jpn"],
+  Katakana: ["jpn"],
+  Hiragana: ["jpn"],
+  Korean: ["kor"],
+  Hangul: ["kor"],
+  Devanagari: ["hin", "mar", "nep"],
+  Bengali: ["ben"],
+  Tamil: ["tam"],
+  Thai: ["tha"],
+  Khmer: ["khm"],
+  Lao: ["lao"],
+  Myanmar: ["mya"],
+  Georgian: ["kat"],
+  Armenian: ["hye"],
+};
+
+const FALLBACK_LANGUAGE = "eng";
+
+/**
+ * Clockwise degrees to rotate a page by, or 0 when unsure
+ */
+export function orientationCorrection(orientation: OcrOrientation | null) {
+  if (!orientation || orientation.orientationConfidence < OSD_MIN_CONFIDENCE) return 0;
+  return orientation.degrees % 360;
+}
+
+/**
+ * Language set for the detected script from the installed languages,
+ * falling back to English (or the first installed language) when the
+ * script is unknown, uncertain or has no installed traineddata
+ */
+export function languageForScript(orientation: OcrOrientation | null, installed: string[]) {
+  const script =
+    orientation && orientation.scriptConfidence >= OSD_MIN_CONFIDENCE
+      ? orientation.script
+      : null;
+  const candidates = script ? (SCRIPT_LANGUAGES[script] ?? []) : [];
+  const available = candidates.filter(code => installed.includes(code));
+  if (available.length > 0) {
+    return available.slice(0, MAX_AUTO_LANGUAGES).join("+");
+  }
+  if (installed.includes(FALLBACK_LANGUAGE) || installed.length === 0) {
+    return FALLBACK_LANGUAGE;
+  }
+  return installed[0];
+}
@@ -0,0 +1,88 @@
+import { execFile } from "child_process";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import { ENV } from "./_core/env";
+import { readPdfPages, splitIntoPages } from "./ocrPages";
+
+// poppler is not installed for tests: pdfinfo reports a letter page and a huge one
+vi.mock("child_process", () => ({
+  execFile: vi.fn((_file: string, _args: string[], _options: unknown, callback: Function) =>
+    callback(null, {
+      stdout: [
+        "Pages:          2",
+        "Page    1 size: 612 x 792 pts (letter)",
+        "Page    2 size: 14400 x 14400 pts",
+      ].join("\n"),
+      stderr: "",
+    })
+  ),
+}));
+
+const pdf = Buffer.from("%PDF-1.4\n%%EOF\n");
+
+function createFrame(background: string) {
+  return sharp({ create: { width: 20, height: 10, channels: 3, background } })
+    .png()
+    .toBuffer();
+}
+
+async function createTiff(frameCount: number) {
+  const frames = await Promise.all(
+    Array.from({ length: frameCount }, (_, i) => createFrame(i % 2 ? "#000" : "#fff"))
+  );
+  return sharp(frames, { join: { animated: true } }).tiff().toBuffer();
+}
+
+describe("OCR Pages", () => {
+  const originalMaxPages = ENV.ocrMaxPages;
+
+  afterEach(() => {
+    ENV.ocrMaxPages = originalMaxPages;
+  });
+
+  it("should return single images unchanged", async () => {
+    const png = await createFrame("#fff");
+    const pages = await splitIntoPages(png, "image/png");
+    expect(pages).toEqual([png]);
+  });
+
+  it("should split multi-frame TIFFs into ordered pages", async () => {
+    const tiff = await createTiff(3);
+    const pages = await splitIntoPages(tiff, "image/tiff");
+
+    expect(pages).toHaveLength(3);
+    const { format, height } = await sharp(pages[1]).metadata();
+    expect(format).toBe("png");
+    expect(height).toBe(10);
+  });
+
+  it("should reject documents over the page limit", async () => {
+    ENV.ocrMaxPages = 2;
+    const tiff = await createTiff(3);
+    await expect(splitIntoPages(tiff, "image/tiff")).rejects.toThrow(
+      "maximum is 2"
+    );
+  });
+
+  it("should read PDF page sizes at the render resolution", async () => {
+    expect(await readPdfPages(pdf)).toEqual({
+      pageCount: 2,
+      sizes: [
+        { width: 2550, height: 3300 },
+        { width: 60_000, height: 60_000 },
+      ],
+    });
+  });
+
+  it("should not render PDFs with oversized pages", async () => {
+    await expect(splitIntoPages(pdf, "application/pdf")).rejects.toThrow(
+      "Page 2 is 60000x60000 at 300 DPI"
+    );
+    expect(execFile).not.toHaveBeenCalledWith(
+      ENV.pdftoppmPath,
+      expect.anything(),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { promisify } from "util";
+import { ENV } from "./_core/env";
+
+/**
+ * Split uploads into page images for OCR.
+ * - PDFs are rasterized locally with poppler's `pdftoppm`, after `pdfinfo`
+ *   shows their pages are within OCR_MAX_PAGES and the image size limits
+ * - Multi-frame images (TIFF) are split with sharp's page support
+ */
+
+const execFileAsync = promisify(execFile);
+
+const PDF_RENDER_TIMEOUT_MS = 120_000;
+const PDF_INFO_TIMEOUT_MS = 10_000;
+
+/** Page count of a PDF and the size of its first pages once rendered. */
+export type PdfPages = {
+  pageCount: number;
+  /** Pixels at PDF_RENDER_DPI, for up to OCR_MAX_PAGES pages. */
+  sizes: { width: number; height: number }[];
+};
+
+function assertPageLimit(pageCount: number) {
+  if (pageCount > ENV.ocrMaxPages) {
+    throw new Error(
+      `Document has ${pageCount} pages; maximum is ${ENV.ocrMaxPages}`
+    );
+  }
+}
+
+// Files already on disk are read in place; buffers are written to the work dir
+async function withPdfFile<T>(
+  pdf: Buffer | string,
+  use: (inputPath: string, workDir: string) => Promise<T>
+): Promise<T> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ocr-pdf-"));
+
+  try {
+    let inputPath = pdf;
+    if (typeof inputPath !== "string") {
+      inputPath = path.join(workDir, "input.pdf");
+      await fs.promises.writeFile(inputPath, pdf);
+    }
+    return await use(inputPath, workDir);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function readPdfInfo(inputPath: string): Promise<PdfPages> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      ENV.pdfinfoPath,
+      ["-f", "1", "-l", String(ENV.ocrMaxPages), inputPath],
+      { timeout: PDF_INFO_TIMEOUT_MS }
+    ));
+  } catch (error) {
+    console.error("[OCR] PDF inspection failed:", error);
+    throw new Error("Failed to read PDF pages");
+  }
+
+  // "Pages: 3" and, per page, "Page    1 size: 612 x 792 pts (letter)"
+  const pageCount = Number(/^Pages:\s+(\d+)/m.exec(stdout)?.[1] ?? 0);
+  const toPixels = (points: string) => Math.ceil((Number(points) * ENV.pdfRenderDpi) / 72);
+  const sizes = Array.from(
+    stdout.matchAll(/^Page\s+\d+ size:\s+([\d.]+) x ([\d.]+) pts/gm),
+    ([, width, height]) => ({ width: toPixels(width), height: toPixels(height) })
+  );
+  return { pageCount, sizes };
+}
+
+/**
+ * Read a PDF's page count and rendered page sizes with poppler's `pdfinfo`,
+ * without rendering anything
+ * @param pdf - File contents or path
+ */
+export async function readPdfPages(pdf: Buffer | string): Promise<PdfPages> {
+  return withPdfFile(pdf, readPdfInfo);
+}
+
+async function rasterizePdf(pdf: Buffer | string): Promise<Buffer[]> {
+  return withPdfFile(pdf, async (inputPath, workDir) => {
+    // Check the page count and sizes first; a small PDF can declare huge pages
+    const { pageCount, sizes } = await readPdfInfo(inputPath);
+    if (pageCount === 0) {
+      throw new Error("PDF has no pages");
+    }
+    assertPageLimit(pageCount);
+    const oversized = sizes.findIndex(
+      ({ width, height }) =>
+        width > ENV.ocrMaxImageDimension ||
+        height > ENV.ocrMaxImageDimension ||
+        width * height > ENV.ocrMaxImagePixels
+    );
+    if (oversized !== -1) {
+      const { width, height } = sizes[oversized];
+      throw new Error(
+        `Page ${oversized + 1} is ${width}x${height} at ${ENV.pdfRenderDpi} DPI; maximum is ${ENV.ocrMaxImageDimension}px per side and ${ENV.ocrMaxImagePixels} pixels`
+      );
+    }
+
+    try {
+      await execFileAsync(
+        ENV.pdftoppmPath,
+        [
+          "-png",
+          "-r",
+          String(ENV.pdfRenderDpi),
+          "-l",
+          String(pageCount),
+          inputPath,
+          path.join(workDir, "page"),
+        ],
+        { timeout: PDF_RENDER_TIMEOUT_MS }
+      );
+    } catch (error) {
+      console.error("[OCR] PDF rasterization failed:", error);
+      throw new Error("Failed to render PDF pages");
+    }
+
+    // pdftoppm names pages page-1.png, page-01.png, ... depending on count
+    const pageFiles = (await fs.promises.readdir(workDir))
+      .map(name => ({ name, match: /^page-(\d+)\.png$/.exec(name) }))
+      .filter(file => file.match)
+      .sort((a, b) => Number(a.match![1]) - Number(b.match![1]));
+
+    if (pageFiles.length === 0) {
+      throw new Error("PDF has no pages");
+    }
+
+    return Promise.all(
+      pageFiles.map(file => fs.promises.readFile(path.join(workDir, file.name)))
+    );
+  });
+}
+
+async function readWhole(file: Buffer | string) {
+  return typeof file === "string" ? fs.promises.readFile(file) : file;
+}
+
+async function splitFrames(image: Buffer | string): Promise<Buffer[]> {
+  const { pages = 1 } = await sharp(image).metadata();
+  if (pages <= 1) return [await readWhole(image)];
+  assertPageLimit(pages);
+
+  const frames: Buffer[] = [];
+  for (let page = 0; page < pages; page++) {
+    frames.push(await sharp(image, { page }).png().toBuffer());
+  }
+  return frames;
+}
+
+/**
+ * Get the ordered page images of an upload; single images yield themselves
+ * @param file - Upload contents, or the path of an upload on disk; only
+ *   single images are read whole
+ */
+export async function splitIntoPages(
+  file: Buffer | string,
+  mimeType: string
+): Promise<Buffer[]> {
+  if (mimeType === "application/pdf") {
+    return rasterizePdf(file);
+  }
+  if (mimeType === "image/tiff") {
+    return splitFrames(file);
+  }
+  return [await readWhole(file)];
+}
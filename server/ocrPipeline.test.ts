@@ -0,0 +1,455 @@
+import sharp from "sharp";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resolvePreprocessingProfile } from "@shared/preprocessing";
+import type { OcrResult } from "../drizzle/schema";
+import {
+  claimFailedOcrResult,
+  findOcrResultsBySha256,
+  getOcrResultById,
+  listOcrDictionaries,
+  saveOcrCorrections,
+  saveOcrRegions,
+  saveOcrResult,
+  updateOcrResult,
+} from "./db";
+import { createFixtureOcrEngine } from "./fixtureOcrEngine";
+import { sha256Hex } from "./imageHash";
+import { registerOcrEngine } from "./ocrEngine";
+import { recognizeAndSave, retryOcrResult } from "./ocrPipeline";
+import { storagePut, storageRead } from "./storage";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  findOcrResultsBySha256: vi.fn(),
+  saveOcrResult: vi.fn(async (result: object) => ({ ...result, id: 99 })),
+  saveOcrLayout: vi.fn(),
+  saveOcrRegions: vi.fn(),
+  saveOcrCorrections: vi.fn(),
+  listOcrDictionaries: vi.fn(async () => []),
+  getOcrResultById: vi.fn(),
+  claimFailedOcrResult: vi.fn(async () => true),
+  updateOcrResult: vi.fn(async () => true),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+  storageRead: vi.fn(),
+}));
+
+// Only English has a fixture; "deu" fails recognition
+registerOcrEngine(createFixtureOcrEngine([{ text: "fresh text", language: "eng" }]));
+registerOcrEngine(
+  createFixtureOcrEngine([{ text: "Привет", language: "rus" }], {
+    name: "osd",
+    languages: ["eng", "rus"],
+    orientation: { degrees: 0, orientationConfidence: 8, script: "Cyrillic", scriptConfidence: 5 },
+  })
+);
+// Answers by the size of the recognized rectangle
+registerOcrEngine(
+  createFixtureOcrEngine(
+    [
+      { width: 32, height: 16, text: "42.00" },
+      { width: 32, height: 8, text: "ACME" },
+      { width: 32, height: 32, text: "rotated" },
+    ],
+    { name: "regions" }
+  )
+);
+// Answers by the requested page segmentation mode
+registerOcrEngine(
+  createFixtureOcrEngine(
+    [
+      { psm: 7, text: "one line" },
+      { text: "whole block" },
+    ],
+    { name: "parameters" }
+  )
+);
+
+const image = sharp({ create: { width: 64, height: 32, channels: 3, background: "#ffffff" } })
+  .png()
+  .toBuffer();
+
+async function upload(overrides: Partial<Parameters<typeof recognizeAndSave>[1]> = {}) {
+  return recognizeAndSave(1, {
+    image: await image,
+    fileName: "scan.png",
+    mimeType: "image/png",
+    language: "eng",
+    engine: "fixture",
+    preprocessing: resolvePreprocessingProfile(undefined),
+    ...overrides,
+  });
+}
+
+function previousResult(overrides: Partial<OcrResult> = {}): OcrResult {
+  return {
+    id: 7,
+    userId: 1,
+    imageFileName: "scan.png",
+    imageUrl: "https://storage.test/ocr/1/old-scan.png",
+    imageKey: "ocr/1/old-scan.png",
+    extractedText: "earlier text",
+    confidence: 91,
+    language: "eng",
+    engine: "fixture",
+    processingTimeMs: 1200,
+    pageCount: 1,
+    preprocessing: resolvePreprocessingProfile(undefined),
+    rotation: 0,
+    regions: null,
+    parameters: null,
+    orientation: null,
+    orientationConfidence: null,
+    script: null,
+    scriptConfidence: null,
+    originalText: null,
+    revision: 0,
+    sha256: null,
+    perceptualHash: null,
+    storageBytes: 0,
+    status: "succeeded",
+    errorCode: null,
+    errorMessage: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("OCR Pipeline duplicates", () => {
+  beforeEach(() => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([]);
+    vi.mocked(saveOcrResult).mockClear();
+    vi.mocked(storagePut).mockClear();
+  });
+
+  it("should store content hashes with new results", async () => {
+    const result = await upload();
+
+    expect(result).toMatchObject({ id: 99, text: "fresh text", reused: false });
+    expect(findOcrResultsBySha256).toHaveBeenCalledWith(1, sha256Hex(await image));
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0]).toMatchObject({
+      sha256: sha256Hex(await image),
+      perceptualHash: expect.stringMatching(/^[0-9a-f]{16}$/),
+      imageKey: expect.stringMatching(/^ocr\/1\/.*scan\.png$/),
+    });
+    expect(storagePut).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep the client's file name inside the user's prefix", async () => {
+    await upload({ fileName: "/../../2/evil\u0000.png" });
+
+    expect(vi.mocked(storagePut).mock.calls[0][0]).toMatch(/^ocr\/1\/[\w-]+-evil\.png$/);
+  });
+
+  it("should return the earlier result for an identical upload", async () => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([previousResult()]);
+
+    const result = await upload();
+
+    expect(result).toMatchObject({ id: 7, text: "earlier text", reused: true });
+    expect(saveOcrResult).not.toHaveBeenCalled();
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("should re-run when settings differ but keep the stored image", async () => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([previousResult({ language: "vie" })]);
+
+    const result = await upload();
+
+    expect(result).toMatchObject({ id: 99, text: "fresh text", reused: false });
+    expect(result.imageUrl).toBe("https://storage.test/ocr/1/old-scan.png");
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0].imageKey).toBe("ocr/1/old-scan.png");
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("should prefer the stored copy over a queued upload of the same file", async () => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([previousResult({ language: "vie" })]);
+
+    const result = await recognizeAndSave(
+      1,
+      {
+        image: await image,
+        fileName: "scan.png",
+        mimeType: "image/png",
+        language: "eng",
+        engine: "fixture",
+        duplicates: "rerun",
+        preprocessing: resolvePreprocessingProfile(undefined),
+      },
+      { stored: { key: "ocr/1/new-scan.png", url: "https://storage.test/ocr/1/new-scan.png" } }
+    );
+
+    expect(result.imageUrl).toBe("https://storage.test/ocr/1/old-scan.png");
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0]).toMatchObject({
+      imageKey: "ocr/1/old-scan.png",
+      storageBytes: 0,
+    });
+  });
+
+  it("should save the detected script and reuse it for language auto", async () => {
+    const result = await upload({ engine: "osd", language: "auto" });
+
+    expect(result).toMatchObject({ language: "rus", text: "Привет" });
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0]).toMatchObject({
+      language: "rus",
+      orientation: 0,
+      script: "Cyrillic",
+      scriptConfidence: 5,
+    });
+
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([
+      previousResult({
+        engine: "osd",
+        language: "rus",
+        orientation: 0,
+        script: "Cyrillic",
+        scriptConfidence: 5,
+      }),
+    ]);
+    expect(await upload({ engine: "osd", language: "auto" })).toMatchObject({ id: 7, reused: true });
+  });
+
+  it("should honour the reuse and rerun policies", async () => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([previousResult({ language: "vie" })]);
+    expect(await upload({ duplicates: "reuse" })).toMatchObject({ id: 7, reused: true });
+
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([previousResult()]);
+    expect(await upload({ duplicates: "rerun" })).toMatchObject({ id: 99, reused: false });
+  });
+});
+
+describe("OCR Pipeline failures", () => {
+  beforeEach(() => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([]);
+    vi.mocked(saveOcrResult).mockClear();
+    vi.mocked(storagePut).mockClear();
+    vi.mocked(updateOcrResult).mockClear();
+    vi.mocked(claimFailedOcrResult).mockResolvedValue(true);
+  });
+
+  it("should save failed recognitions with the stored original", async () => {
+    await expect(upload({ language: "deu" })).rejects.toMatchObject({
+      statusCode: 422,
+      code: "OCR_RECOGNITION_FAILED",
+      resultId: 99,
+    });
+
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0]).toMatchObject({
+      status: "failed",
+      errorCode: "OCR_RECOGNITION_FAILED",
+      errorMessage: expect.stringContaining("deu"),
+      language: "deu",
+      imageKey: expect.stringMatching(/^ocr\/1\//),
+      storageBytes: (await image).length,
+    });
+  });
+
+  it("should save storage failures without an image", async () => {
+    vi.mocked(storagePut).mockRejectedValueOnce(new Error("storage unavailable"));
+
+    await expect(upload()).rejects.toMatchObject({
+      statusCode: 502,
+      code: "OCR_STORAGE_FAILED",
+      message: "storage unavailable",
+    });
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0]).toMatchObject({ status: "failed" });
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0].imageUrl).toBeUndefined();
+  });
+
+  it("should not reuse failed results of an identical upload", async () => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([previousResult({ status: "failed" })]);
+
+    const result = await upload();
+
+    expect(result).toMatchObject({ id: 99, reused: false });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("should retry a failed result with other settings", async () => {
+    vi.mocked(getOcrResultById).mockResolvedValue(
+      previousResult({ status: "failed", language: "deu", errorCode: "OCR_RECOGNITION_FAILED" })
+    );
+    vi.mocked(storageRead).mockResolvedValue(await image);
+
+    const result = await retryOcrResult(1, 7, { language: "eng" });
+
+    expect(result).toMatchObject({ id: 7, text: "fresh text" });
+    expect(claimFailedOcrResult).toHaveBeenCalledWith(7, 1);
+    expect(updateOcrResult).toHaveBeenCalledWith(
+      7,
+      1,
+      expect.objectContaining({
+        status: "succeeded",
+        language: "eng",
+        errorCode: null,
+        extractedText: "fresh text",
+      })
+    );
+  });
+
+  it("should mark the result failed again when the retry fails", async () => {
+    vi.mocked(getOcrResultById).mockResolvedValue(previousResult({ status: "failed" }));
+    vi.mocked(storageRead).mockResolvedValue(await image);
+
+    await expect(retryOcrResult(1, 7, { language: "deu" })).rejects.toMatchObject({
+      code: "OCR_RECOGNITION_FAILED",
+      resultId: 7,
+    });
+    expect(updateOcrResult).toHaveBeenCalledWith(
+      7,
+      1,
+      expect.objectContaining({ status: "failed", language: "deu" })
+    );
+  });
+
+  it("should only retry failed results once at a time", async () => {
+    vi.mocked(getOcrResultById).mockResolvedValue(previousResult());
+    await expect(retryOcrResult(1, 7)).rejects.toMatchObject({ code: "OCR_RESULT_NOT_FAILED" });
+
+    vi.mocked(getOcrResultById).mockResolvedValue(previousResult({ status: "pending" }));
+    vi.mocked(claimFailedOcrResult).mockResolvedValue(false);
+    await expect(retryOcrResult(1, 7)).rejects.toMatchObject({ code: "OCR_RETRY_IN_PROGRESS" });
+    expect(updateOcrResult).not.toHaveBeenCalled();
+  });
+});
+
+describe("OCR Pipeline regions", () => {
+  beforeEach(() => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([]);
+    vi.mocked(saveOcrResult).mockClear();
+    vi.mocked(saveOcrRegions).mockClear();
+  });
+
+  it("should recognize and store each region of the same result", async () => {
+    const result = await upload({
+      engine: "regions",
+      regions: [
+        { label: "Total", page: 1, x: 0, y: 0.5, width: 0.5, height: 0.5 },
+        { page: 1, x: 0.5, y: 0, width: 0.5, height: 0.25 },
+      ],
+    });
+
+    expect(result.text).toBe("42.00\n\nACME");
+    expect(result.regions).toMatchObject([
+      { label: "Total", page: 1, text: "42.00" },
+      { label: "Region 2", page: 1, x: 0.5, text: "ACME" },
+    ]);
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0].regions).toHaveLength(2);
+    expect(saveOcrRegions).toHaveBeenCalledWith(99, [
+      expect.objectContaining({ position: 0, label: "Total", extractedText: "42.00" }),
+      expect.objectContaining({
+        position: 1,
+        label: "Region 2",
+        bounds: { x: 0.5, y: 0, width: 0.5, height: 0.25 },
+      }),
+    ]);
+  });
+
+  it("should take region coordinates on the rotated page", async () => {
+    // 64x32 turned a quarter is 32x64; the top half is 32x32
+    const result = await upload({
+      engine: "regions",
+      rotation: 90,
+      regions: [{ page: 1, x: 0, y: 0, width: 1, height: 0.5 }],
+    });
+
+    expect(result.text).toBe("rotated");
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0].rotation).toBe(90);
+  });
+
+  it("should fail regions on pages the upload does not have", async () => {
+    await expect(
+      upload({
+        engine: "regions",
+        regions: [{ label: "Signature", page: 2, x: 0, y: 0, width: 1, height: 1 }],
+      })
+    ).rejects.toMatchObject({
+      code: "OCR_RECOGNITION_FAILED",
+      message: "Signature is on page 2, but the upload has 1 page(s)",
+    });
+  });
+});
+
+describe("OCR Pipeline parameters", () => {
+  beforeEach(() => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([]);
+    vi.mocked(saveOcrResult).mockClear();
+  });
+
+  it("should pass parameters to the engine and store them with the result", async () => {
+    const parameters = { psm: 7, whitelist: "0123456789" };
+    const result = await upload({ engine: "parameters", parameters });
+
+    expect(result).toMatchObject({ text: "one line", parameters });
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0].parameters).toEqual(parameters);
+    expect(await upload({ engine: "parameters" })).toMatchObject({
+      text: "whole block",
+      parameters: {},
+    });
+  });
+
+  it("should only reuse results recognized with the same parameters", async () => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([
+      previousResult({ engine: "parameters", parameters: { psm: 7, dpi: 300 } }),
+    ]);
+
+    expect(
+      await upload({ engine: "parameters", parameters: { dpi: 300, psm: 7 } })
+    ).toMatchObject({ id: 7, reused: true, parameters: { psm: 7, dpi: 300 } });
+    expect(await upload({ engine: "parameters", parameters: { psm: 7 } })).toMatchObject({
+      id: 99,
+      reused: false,
+    });
+    expect(await upload({ engine: "parameters" })).toMatchObject({ reused: false });
+  });
+});
+
+describe("OCR Pipeline corrections", () => {
+  beforeEach(() => {
+    vi.mocked(findOcrResultsBySha256).mockResolvedValue([]);
+    vi.mocked(saveOcrResult).mockClear();
+    vi.mocked(saveOcrCorrections).mockClear();
+  });
+
+  it("should correct the text with enabled dictionaries and save each change", async () => {
+    const dictionary = {
+      userId: 1,
+      description: null,
+      rules: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    vi.mocked(listOcrDictionaries).mockResolvedValueOnce([
+      { ...dictionary, id: 3, name: "Terms", enabled: true, words: ["test"] },
+      { ...dictionary, id: 4, name: "Off", enabled: false, words: ["flesh"] },
+    ]);
+
+    const result = await upload();
+
+    expect(result.text).toBe("fresh test");
+    expect(listOcrDictionaries).toHaveBeenCalledWith(1);
+    expect(vi.mocked(saveOcrResult).mock.calls[0][0].extractedText).toBe("fresh test");
+    expect(saveOcrCorrections).toHaveBeenCalledWith(99, [
+      {
+        position: 0,
+        kind: "word",
+        dictionaryId: 3,
+        dictionaryName: "Terms",
+        original: "text",
+        suggestion: "test",
+        startOffset: 6,
+        endOffset: 10,
+      },
+    ]);
+  });
+
+  it("should recognize without corrections when dictionaries cannot be loaded", async () => {
+    vi.mocked(listOcrDictionaries).mockRejectedValueOnce(new Error("database down"));
+
+    expect(await upload()).toMatchObject({ text: "fresh text", reused: false });
+    expect(saveOcrCorrections).not.toHaveBeenCalled();
+  });
+});
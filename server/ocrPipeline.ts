@@ -0,0 +1,746 @@
+import { nanoid } from "nanoid";
+import {
+  resolvePreprocessingProfile,
+  type PreprocessingProfile,
+} from "@shared/preprocessing";
+import {
+  ConflictError,
+  HttpError,
+  NotFoundError,
+  UnprocessableEntityError,
+} from "@shared/_core/errors";
+import { OCR_AUTO_LANGUAGE } from "@shared/const";
+import { sameOcrParameters, type OcrParameters } from "@shared/ocrParameters";
+import { ocrRegionLabel, type OcrRegion } from "@shared/ocrRegions";
+import type { InsertOcrResult, OcrDuplicatePolicy, OcrResult } from "../drizzle/schema";
+import {
+  claimFailedOcrResult,
+  findOcrResultsBySha256,
+  getOcrRegions,
+  getOcrResultById,
+  listOcrDictionaries,
+  saveOcrCorrections,
+  saveOcrLayout,
+  saveOcrPages,
+  saveOcrRegions,
+  saveOcrResult,
+  updateOcrResult,
+} from "./db";
+import { FILE_TYPE_SNIFF_BYTES, sniffFileType } from "./fileType";
+import { computePerceptualHash, sha256Hex, sha256HexFile } from "./imageHash";
+import { OCR_MAX_FILE_BYTES, processImageWithOcr, validateImageFile } from "./ocr";
+import { correctText, type CorrectionDictionary, type TextCorrection } from "./ocrCorrections";
+import { getOcrEngine, type OcrOrientation } from "./ocrEngine";
+import { languageForScript } from "./ocrOrientation";
+import { enforceOcrPageQuota, recordOcrUsage } from "./ocrQuotas";
+import { splitIntoPages } from "./ocrPages";
+import { storagePut, storagePutFile, storageRead } from "./storage";
+import { createUserRegexBudget, type UserRegexBudget } from "./userRegex";
+
+/**
+ * Shared validate -> store -> recognize -> save flow used by the OCR
+ * procedures and the background job worker.
+ */
+
+export type OcrImageInput = {
+  /** Upload contents, or the path of a large upload streamed to disk. */
+  image: Buffer | string;
+  fileName: string;
+  mimeType: string;
+  language: string;
+  preprocessing: PreprocessingProfile;
+  /** Registered OCR engine name; defaults to the deployment's OCR_ENGINE. */
+  engine?: string;
+  /** Handling of files the user uploaded before (default "reuseIfSameSettings"). */
+  duplicates?: OcrDuplicatePolicy;
+  /** Clockwise degrees to rotate every page before recognition. */
+  rotation?: number;
+  /** Recognize only these regions; whole pages when omitted or empty. */
+  regions?: OcrRegion[];
+  /** Tesseract settings for this image only. */
+  parameters?: OcrParameters;
+};
+
+type RecognitionSettings = Pick<
+  OcrImageInput,
+  "language" | "preprocessing" | "rotation" | "regions" | "parameters"
+>;
+
+type StoredImage = { key: string; url: string };
+
+/**
+ * Key under the user's OCR prefix; the client-supplied file name is cut to
+ * its base name so it cannot reach another prefix
+ */
+function ocrImageKey(userId: number, fileName: string) {
+  const baseName = fileName
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f]/g, "");
+  return `ocr/${userId}/${nanoid()}-${baseName || "image"}`;
+}
+
+/**
+ * Upload an image to storage under the user's OCR prefix
+ */
+export async function storeOcrImage(
+  userId: number,
+  fileName: string,
+  imageBuffer: Buffer,
+  mimeType: string
+): Promise<StoredImage> {
+  return storagePut(ocrImageKey(userId, fileName), imageBuffer, mimeType);
+}
+
+/**
+ * Stream an image file from disk to storage under the user's OCR prefix
+ */
+export async function storeOcrImageFile(
+  userId: number,
+  fileName: string,
+  filePath: string,
+  mimeType: string
+): Promise<StoredImage> {
+  return storagePutFile(ocrImageKey(userId, fileName), filePath, mimeType);
+}
+
+type PageRecognition = Pick<
+  Awaited<ReturnType<typeof processImageWithOcr>>,
+  "text" | "confidence" | "processingTimeMs" | "layout" | "regions" | "orientation" | "language"
+>;
+
+/**
+ * Recognize every page of an upload, or only the pages with regions when
+ * regions are given. Progress is reported across all pages.
+ */
+async function recognizePages(
+  pages: Buffer[],
+  input: RecognitionSettings,
+  engine: string,
+  onProgress?: (progress: number) => void
+) {
+  const results: PageRecognition[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const regions = input.regions?.filter(region => region.page === i + 1);
+    if (regions?.length === 0) {
+      results.push({
+        text: "",
+        confidence: 0,
+        processingTimeMs: 0,
+        layout: null,
+        regions: [],
+        orientation: null,
+        language: input.language,
+      });
+      continue;
+    }
+    const ocrResult = await processImageWithOcr(pages[i], input.language, {
+      preprocessing: input.preprocessing,
+      engine,
+      rotation: input.rotation,
+      regions,
+      parameters: input.parameters,
+      onProgress: progress => onProgress?.((i + progress) / pages.length),
+    });
+    if (!ocrResult.success) {
+      const prefix = pages.length > 1 ? `Page ${i + 1}: ` : "";
+      throw new Error(prefix + (ocrResult.error || "OCR processing failed"));
+    }
+    results.push(ocrResult);
+  }
+  return results;
+}
+
+/**
+ * `ocrResults` columns recording a recognition's detected orientation
+ */
+function orientationColumns(orientation: Recognition["orientation"]) {
+  return {
+    orientation: orientation?.degrees ?? null,
+    orientationConfidence: orientation?.orientationConfidence ?? null,
+    script: orientation?.script ?? null,
+    scriptConfidence: orientation?.scriptConfidence ?? null,
+  };
+}
+
+function sameRegions(a: OcrRegion[], b: OcrRegion[]) {
+  return (
+    a.length === b.length &&
+    a.every(
+      (region, i) =>
+        region.label === b[i].label &&
+        region.page === b[i].page &&
+        region.x === b[i].x &&
+        region.y === b[i].y &&
+        region.width === b[i].width &&
+        region.height === b[i].height
+    )
+  );
+}
+
+/**
+ * Detected orientation saved on a result row
+ */
+function orientationOf(result: OcrResult): OcrOrientation | null {
+  if (result.orientation === null) return null;
+  return {
+    degrees: result.orientation,
+    orientationConfidence: result.orientationConfidence ?? 0,
+    script: result.script,
+    scriptConfidence: result.scriptConfidence ?? 0,
+  };
+}
+
+/**
+ * @param installed - The engine's languages, to tell which language
+ *   "auto" would have picked for the result's detected script
+ */
+function hasSameSettings(
+  result: OcrResult,
+  input: OcrImageInput,
+  engine: string,
+  installed: string[]
+) {
+  const previous = result.preprocessing ?? resolvePreprocessingProfile(undefined);
+  const language =
+    input.language === OCR_AUTO_LANGUAGE && result.script !== null
+      ? languageForScript(orientationOf(result), installed)
+      : input.language;
+  return (
+    result.language === language &&
+    result.engine === engine &&
+    JSON.stringify(previous.steps) === JSON.stringify(input.preprocessing.steps) &&
+    result.rotation === (input.rotation ?? 0) &&
+    sameRegions(result.regions ?? [], input.regions ?? []) &&
+    sameOcrParameters(result.parameters, input.parameters ?? null)
+  );
+}
+
+async function perceptualHashOf(page: Buffer) {
+  try {
+    return await computePerceptualHash(page);
+  } catch (error) {
+    console.warn("[OCR] Failed to compute perceptual hash:", error);
+    return null;
+  }
+}
+
+type Recognition = Awaited<ReturnType<typeof recognize>>;
+
+/**
+ * The user's enabled dictionaries; recognition goes on without
+ * corrections when they cannot be loaded
+ */
+async function enabledDictionaries(userId: number) {
+  try {
+    const dictionaries = await listOcrDictionaries(userId);
+    return dictionaries.filter(dictionary => dictionary.enabled);
+  } catch (error) {
+    console.warn("[OCR] Failed to load dictionaries:", error);
+    return [];
+  }
+}
+
+/** Dictionary corrections of a text, or none when a rule pattern fails or runs out of time */
+async function applyDictionaries(
+  text: string,
+  dictionaries: CorrectionDictionary[],
+  budget: UserRegexBudget
+) {
+  try {
+    return await correctText(text, dictionaries, budget);
+  } catch (error) {
+    console.warn("[OCR] Failed to apply dictionaries:", error);
+    return { text, corrections: [] as TextCorrection[] };
+  }
+}
+
+/**
+ * Split PDFs and multi-frame images into pages, then OCR each page or the
+ * requested regions of it and correct the text with the user's dictionaries
+ */
+async function recognize(
+  userId: number,
+  input: Pick<OcrImageInput, "image" | "mimeType"> & RecognitionSettings,
+  engine: string,
+  onProgress?: (progress: number) => void
+) {
+  const pages = await splitIntoPages(input.image, input.mimeType);
+  const requested = input.regions?.length ? input.regions : undefined;
+  const outside = requested?.find(region => region.page > pages.length);
+  if (outside) {
+    throw new Error(
+      `${ocrRegionLabel(outside, requested!.indexOf(outside))} is on page ${outside.page}, but the upload has ${pages.length} page(s)`
+    );
+  }
+  const recognized = await recognizePages(
+    pages,
+    { ...input, regions: requested },
+    engine,
+    onProgress
+  );
+
+  // Pages and regions are corrected separately so their stored texts agree
+  const dictionaries = await enabledDictionaries(userId);
+  const budget = createUserRegexBudget(userId);
+  const pageResults = await Promise.all(
+    recognized.map(async page => ({
+      ...page,
+      ...(await applyDictionaries(page.text, dictionaries, budget)),
+      regions: await Promise.all(
+        page.regions.map(async region => ({
+          ...region,
+          ...(await applyDictionaries(region.text, dictionaries, budget)),
+        }))
+      ),
+    }))
+  );
+
+  // Region results in request order, with the page's results in region order
+  const regionResults = new Map(pageResults.map((page, i) => [i + 1, [...page.regions]]));
+  const regions = (requested ?? []).map((region, i) => ({
+    ...region,
+    label: ocrRegionLabel(region, i),
+    ...regionResults.get(region.page)!.shift()!,
+  }));
+  const parts: { text: string; confidence: number; corrections: TextCorrection[] }[] =
+    regions.length > 0 ? regions : pageResults;
+
+  // Offsets into the parts joined by blank lines
+  let offset = 0;
+  const corrections = parts.flatMap(part => {
+    const shifted = part.corrections.map(correction => ({
+      ...correction,
+      start: correction.start + offset,
+      end: correction.end + offset,
+    }));
+    offset += part.text.length + 2;
+    return shifted;
+  });
+  // The row records the language and orientation of the first recognized page
+  const first = pageResults[requested ? Math.min(...requested.map(region => region.page)) - 1 : 0];
+
+  return {
+    pages,
+    pageResults,
+    regions,
+    language: first.language,
+    orientation: first.orientation,
+    text: parts.map(part => part.text).join("\n\n"),
+    corrections,
+    confidence: Math.round(parts.reduce((sum, part) => sum + part.confidence, 0) / parts.length),
+    processingTimeMs: pageResults.reduce((sum, page) => sum + page.processingTimeMs, 0),
+    perceptualHash: await perceptualHashOf(pages[0]),
+    /** Rendered page images stored for multi-page uploads. */
+    pageBytes: pages.length > 1 ? pages.reduce((sum, page) => sum + page.length, 0) : 0,
+  };
+}
+
+/**
+ * Count the recognition against the user's quotas and store its page
+ * images and layouts
+ */
+async function saveRecognitionDetails(
+  userId: number,
+  resultId: number,
+  fileName: string,
+  recognition: Recognition
+) {
+  const { pages, pageResults } = recognition;
+  try {
+    await recordOcrUsage(userId, { images: 1, pages: pages.length });
+  } catch (error) {
+    console.warn("[OCR] Failed to record usage:", error);
+  }
+
+  if (pages.length > 1) {
+    const pageRows = [];
+    for (let i = 0; i < pages.length; i++) {
+      const stored = await storeOcrImage(
+        userId,
+        `${fileName}-page-${i + 1}.png`,
+        pages[i],
+        "image/png"
+      );
+      pageRows.push({
+        pageNumber: i + 1,
+        imageUrl: stored.url,
+        imageKey: stored.key,
+        extractedText: pageResults[i].text,
+        confidence: pageResults[i].confidence,
+        processingTimeMs: pageResults[i].processingTimeMs,
+      });
+    }
+    await saveOcrPages(resultId, pageRows);
+  }
+
+  for (let i = 0; i < pageResults.length; i++) {
+    const layout = pageResults[i].layout;
+    if (layout) await saveOcrLayout(resultId, layout, i + 1);
+  }
+
+  if (recognition.regions.length > 0) {
+    await saveOcrRegions(
+      resultId,
+      recognition.regions.map((region, position) => ({
+        position,
+        label: region.label,
+        pageNumber: region.page,
+        bounds: { x: region.x, y: region.y, width: region.width, height: region.height },
+        extractedText: region.text,
+        confidence: region.confidence,
+      }))
+    );
+  }
+
+  if (recognition.corrections.length > 0) {
+    await saveOcrCorrections(
+      resultId,
+      recognition.corrections.map((correction, position) => ({
+        position,
+        kind: correction.kind,
+        dictionaryId: correction.dictionaryId,
+        dictionaryName: correction.dictionaryName,
+        original: correction.original,
+        suggestion: correction.suggestion,
+        startOffset: correction.start,
+        endOffset: correction.end,
+      }))
+    );
+  }
+}
+
+/**
+ * Region results as returned by the OCR procedures
+ */
+function toRegionResults(regions: Recognition["regions"]) {
+  return regions.map(region => ({
+    label: region.label,
+    page: region.page,
+    x: region.x,
+    y: region.y,
+    width: region.width,
+    height: region.height,
+    text: region.text,
+    confidence: region.confidence,
+  }));
+}
+
+/** Why an attempt failed, saved as `ocrResults.errorCode`. */
+export const OCR_FAILURE_CODES = ["OCR_STORAGE_FAILED", "OCR_RECOGNITION_FAILED"] as const;
+export type OcrFailureCode = (typeof OCR_FAILURE_CODES)[number];
+
+/**
+ * Storage (502) or recognition (422) failure of an attempt that was saved
+ * as the "failed" result `resultId`, which ocr.retry can run again
+ */
+export class OcrAttemptError extends HttpError {
+  /** Undefined if the failed attempt could not be saved either. */
+  resultId?: number;
+
+  constructor(code: OcrFailureCode, message: string, resultId?: number) {
+    super(code === "OCR_STORAGE_FAILED" ? 502 : 422, message, code);
+    this.name = "OcrAttemptError";
+    this.resultId = resultId;
+  }
+}
+
+function failureMessage(error: unknown) {
+  return error instanceof Error ? error.message : "OCR processing failed";
+}
+
+/**
+ * Save a failed attempt and return the error to throw for it
+ */
+async function saveFailedAttempt(
+  attempt: Omit<InsertOcrResult, "extractedText">,
+  code: OcrFailureCode,
+  error: unknown
+) {
+  const message = failureMessage(error);
+  let saved;
+  try {
+    saved = await saveOcrResult({
+      ...attempt,
+      extractedText: "",
+      status: "failed",
+      errorCode: code,
+      errorMessage: message,
+    });
+  } catch (saveError) {
+    console.warn("[OCR] Failed to record failed attempt:", saveError);
+  }
+  return new OcrAttemptError(code, message, saved?.id);
+}
+
+/**
+ * Validate, recognize and persist one upload. Multi-page uploads are saved
+ * as one result with ordered page rows. Re-uploads of an identical file
+ * return the earlier result per `input.duplicates`. Validation failures
+ * throw the HttpError from validateImageFile and uploads over the page
+ * quota a 429 from enforceOcrPageQuota; storage and recognition
+ * failures are saved as "failed" results and throw OcrAttemptError.
+ * @param options.stored - Upload already in storage; skips the upload
+ * @param options.maxSizeBytes - Upload size limit (default OCR_MAX_FILE_BYTES)
+ * @param options.onProgress - Recognition progress (0-1)
+ */
+export async function recognizeAndSave(
+  userId: number,
+  input: OcrImageInput,
+  options: {
+    stored?: StoredImage;
+    maxSizeBytes?: number;
+    onProgress?: (progress: number) => void;
+  } = {}
+) {
+  // Validate image
+  const validation = await validateImageFile(input.image, input.mimeType, {
+    maxSizeBytes: options.maxSizeBytes ?? OCR_MAX_FILE_BYTES,
+  });
+  if (!validation.valid) {
+    throw validation.error;
+  }
+
+  const engine = getOcrEngine(input.engine).name;
+
+  // Identical file seen before: reuse its result, or at least its stored image
+  const sha256 =
+    typeof input.image === "string" ? await sha256HexFile(input.image) : sha256Hex(input.image);
+  const policy = input.duplicates ?? "reuseIfSameSettings";
+  const previous = await findOcrResultsBySha256(userId, sha256);
+  const installed =
+    input.language === OCR_AUTO_LANGUAGE && previous.length > 0
+      ? await getOcrEngine(engine).listLanguages()
+      : [];
+  const match =
+    policy === "rerun"
+      ? undefined
+      : previous.find(
+          result =>
+            result.status === "succeeded" &&
+            (policy === "reuse" || hasSameSettings(result, input, engine, installed))
+        );
+  if (match) {
+    const regions = await getOcrRegions(match.id, userId);
+    return {
+      id: match.id,
+      fileName: match.imageFileName,
+      language: match.language,
+      orientation: orientationOf(match),
+      text: match.extractedText,
+      confidence: match.confidence,
+      processingTimeMs: match.processingTimeMs,
+      pageCount: match.pageCount,
+      engine: match.engine,
+      preprocessing: match.preprocessing ?? resolvePreprocessingProfile(undefined),
+      parameters: match.parameters ?? {},
+      imageUrl: match.imageUrl,
+      regions: regions.map(region => ({
+        label: region.label,
+        page: region.pageNumber,
+        ...region.bounds,
+        text: region.extractedText,
+        confidence: region.confidence,
+      })),
+      reused: true,
+    };
+  }
+
+  // Reject uploads that would break the page quota before rendering them
+  await enforceOcrPageQuota(userId, validation.frames ?? 1);
+
+  const attempt = {
+    userId,
+    imageFileName: input.fileName,
+    language: input.language,
+    engine,
+    preprocessing: input.preprocessing,
+    rotation: input.rotation ?? 0,
+    regions: input.regions?.length ? input.regions : null,
+    parameters: input.parameters ?? null,
+    sha256,
+  };
+
+  // Store the original before recognizing so failed attempts can be retried;
+  // an identical file stored earlier is used instead of `options.stored`
+  const storedBefore = previous.find(result => result.imageKey && result.imageUrl);
+  // Files on disk are streamed to storage
+  const { image: upload } = input;
+  const store = () =>
+    typeof upload === "string"
+      ? storeOcrImageFile(userId, input.fileName, upload, input.mimeType)
+      : storeOcrImage(userId, input.fileName, upload, input.mimeType);
+  let image;
+  try {
+    image = storedBefore
+      ? { key: storedBefore.imageKey!, url: storedBefore.imageUrl! }
+      : (options.stored ?? (await store()));
+  } catch (error) {
+    console.error("[OCR] Failed to store upload:", error);
+    throw await saveFailedAttempt(attempt, "OCR_STORAGE_FAILED", error);
+  }
+  const imageUrl = image.url;
+  const originalBytes = storedBefore ? 0 : validation.size;
+
+  let recognition;
+  try {
+    recognition = await recognize(userId, input, engine, options.onProgress);
+  } catch (error) {
+    throw await saveFailedAttempt(
+      { ...attempt, imageUrl, imageKey: image.key, storageBytes: originalBytes },
+      "OCR_RECOGNITION_FAILED",
+      error
+    );
+  }
+  const { text, confidence, processingTimeMs, pages } = recognition;
+
+  // Save result to database
+  const saved = await saveOcrResult({
+    ...attempt,
+    language: recognition.language,
+    ...orientationColumns(recognition.orientation),
+    imageUrl,
+    imageKey: image.key,
+    extractedText: text,
+    confidence,
+    processingTimeMs,
+    pageCount: pages.length,
+    perceptualHash: recognition.perceptualHash,
+    storageBytes: originalBytes + recognition.pageBytes,
+  });
+
+  if (saved) {
+    await saveRecognitionDetails(userId, saved.id, input.fileName, recognition);
+  }
+
+  return {
+    id: saved?.id,
+    fileName: input.fileName,
+    language: recognition.language,
+    orientation: recognition.orientation,
+    text,
+    confidence,
+    processingTimeMs,
+    pageCount: pages.length,
+    engine,
+    preprocessing: input.preprocessing,
+    parameters: input.parameters ?? {},
+    imageUrl,
+    regions: toRegionResults(recognition.regions),
+    reused: false,
+  };
+}
+
+/**
+ * Run a failed result again from its stored original, optionally with a
+ * different language, preprocessing profile, engine or engine parameters. The row is
+ * "pending" while it runs and ends up "succeeded" or "failed" again.
+ */
+export async function retryOcrResult(
+  userId: number,
+  resultId: number,
+  overrides: {
+    language?: string;
+    preprocessing?: PreprocessingProfile;
+    engine?: string;
+    parameters?: OcrParameters;
+  } = {},
+  options: { onProgress?: (progress: number) => void } = {}
+) {
+  const result = await getOcrResultById(resultId, userId);
+  if (!result) {
+    throw NotFoundError("OCR result not found");
+  }
+  if (result.status === "succeeded") {
+    throw ConflictError("Only failed results can be retried", "OCR_RESULT_NOT_FAILED");
+  }
+  if (!result.imageKey || !result.imageUrl) {
+    throw UnprocessableEntityError(
+      "The original image was not stored; upload the file again",
+      "OCR_IMAGE_MISSING"
+    );
+  }
+  if (!(await claimFailedOcrResult(resultId, userId))) {
+    throw ConflictError("This result is already being retried", "OCR_RETRY_IN_PROGRESS");
+  }
+
+  const engine = getOcrEngine(overrides.engine ?? result.engine).name;
+  const settings = {
+    language: overrides.language ?? result.language,
+    preprocessing:
+      overrides.preprocessing ?? result.preprocessing ?? resolvePreprocessingProfile(undefined),
+    engine,
+    parameters: overrides.parameters ?? result.parameters ?? undefined,
+  };
+  // The same part of the image as the failed attempt
+  const geometry = { rotation: result.rotation, regions: result.regions ?? undefined };
+  const fail = async (code: OcrFailureCode, error: unknown) => {
+    const message = failureMessage(error);
+    await updateOcrResult(resultId, userId, {
+      ...settings,
+      status: "failed",
+      errorCode: code,
+      errorMessage: message,
+    }).catch(updateError => {
+      console.warn("[OCR] Failed to record failed retry:", updateError);
+    });
+    return new OcrAttemptError(code, message, resultId);
+  };
+
+  let imageBuffer;
+  try {
+    imageBuffer = await storageRead(result.imageKey);
+  } catch (error) {
+    console.error("[OCR] Failed to read stored upload:", error);
+    throw await fail("OCR_STORAGE_FAILED", error);
+  }
+
+  let recognition;
+  try {
+    // The row has no MIME type; the stored file was validated on upload
+    const mimeType = sniffFileType(imageBuffer.subarray(0, FILE_TYPE_SNIFF_BYTES));
+    if (!mimeType) throw new Error("Stored image is not a supported format");
+    recognition = await recognize(
+      userId,
+      { ...settings, ...geometry, image: imageBuffer, mimeType },
+      engine,
+      options.onProgress
+    );
+  } catch (error) {
+    throw await fail("OCR_RECOGNITION_FAILED", error);
+  }
+  const { text, confidence, processingTimeMs, pages } = recognition;
+
+  await updateOcrResult(resultId, userId, {
+    ...settings,
+    language: recognition.language,
+    ...orientationColumns(recognition.orientation),
+    status: "succeeded",
+    errorCode: null,
+    errorMessage: null,
+    extractedText: text,
+    confidence,
+    processingTimeMs,
+    pageCount: pages.length,
+    perceptualHash: recognition.perceptualHash,
+    storageBytes: result.storageBytes + recognition.pageBytes,
+  });
+  await saveRecognitionDetails(userId, resultId, result.imageFileName, recognition);
+
+  return {
+    id: resultId,
+    fileName: result.imageFileName,
+    language: recognition.language,
+    orientation: recognition.orientation,
+    text,
+    confidence,
+    processingTimeMs,
+    pageCount: pages.length,
+    engine,
+    preprocessing: settings.preprocessing,
+    parameters: settings.parameters ?? {},
+    imageUrl: result.imageUrl,
+    regions: toRegionResults(recognition.regions),
+    reused: false,
+  };
+}
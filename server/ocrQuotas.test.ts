@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getOcrStorageBytes, getOcrUsageTotals, getUserQuota } from "./db";
+import { enforceOcrLimits, enforceOcrPageQuota, getOcrUsage } from "./ocrQuotas";
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  getUserQuota: vi.fn(),
+  getOcrUsageTotals: vi.fn(),
+  getOcrStorageBytes: vi.fn(),
+}));
+
+const now = new Date("2026-03-31T15:00:00Z");
+
+function mockUsage(today: { images: number; pages: number }, month = today, storage = 0) {
+  vi.mocked(getOcrUsageTotals).mockImplementation(async (_userId, fromDay) =>
+    fromDay === "2026-03-31" ? today : month
+  );
+  vi.mocked(getOcrStorageBytes).mockResolvedValue(storage);
+}
+
+beforeEach(() => {
+  vi.mocked(getUserQuota).mockResolvedValue({
+    userId: 1,
+    imagesPerDay: 10,
+    pagesPerMonth: 100,
+    storageBytes: 1000,
+    updatedAt: now,
+  });
+  mockUsage({ images: 0, pages: 0 });
+});
+
+describe("getOcrUsage", () => {
+  it("should report usage against the user's limits with UTC reset times", async () => {
+    mockUsage({ images: 4, pages: 6 }, { images: 20, pages: 42 }, 512);
+
+    const usage = await getOcrUsage(1, now);
+
+    expect(getOcrUsageTotals).toHaveBeenCalledWith(1, "2026-03-01", "2026-03-31");
+    expect(usage.images).toEqual({
+      used: 4,
+      limit: 10,
+      resetAt: new Date("2026-04-01T00:00:00Z"),
+    });
+    expect(usage.pages).toEqual({
+      used: 42,
+      limit: 100,
+      resetAt: new Date("2026-04-01T00:00:00Z"),
+    });
+    expect(usage.storage).toEqual({ usedBytes: 512, limitBytes: 1000 });
+  });
+});
+
+describe("enforceOcrLimits", () => {
+  it("should allow requests within every quota", async () => {
+    mockUsage({ images: 8, pages: 20 }, { images: 8, pages: 99 }, 900);
+
+    await expect(enforceOcrLimits(1, { images: 2, bytes: 100 }, now)).resolves.toBeUndefined();
+  });
+
+  it("should reject batches over the size cap", async () => {
+    await expect(enforceOcrLimits(2, { images: 1000, bytes: 0 }, now)).rejects.toMatchObject({
+      statusCode: 400,
+      code: "BATCH_TOO_LARGE",
+    });
+  });
+
+  it("should reject when the daily image quota would be exceeded", async () => {
+    mockUsage({ images: 9, pages: 9 });
+
+    const error = await enforceOcrLimits(3, { images: 2, bytes: 0 }, now).catch(e => e);
+    expect(error).toMatchObject({ statusCode: 429, code: "QUOTA_IMAGES_PER_DAY" });
+    expect(error.message).toContain("resets at 2026-04-01T00:00:00.000Z");
+  });
+
+  it("should reject when the monthly page quota is used up", async () => {
+    mockUsage({ images: 0, pages: 0 }, { images: 50, pages: 100 });
+
+    await expect(enforceOcrLimits(4, { images: 1, bytes: 0 }, now)).rejects.toMatchObject({
+      code: "QUOTA_PAGES_PER_MONTH",
+    });
+  });
+
+  it("should reject uploads that do not fit in the storage quota", async () => {
+    mockUsage({ images: 0, pages: 0 }, { images: 0, pages: 0 }, 900);
+
+    await expect(enforceOcrLimits(5, { images: 1, bytes: 200 }, now)).rejects.toMatchObject({
+      code: "QUOTA_STORAGE",
+    });
+  });
+
+  it("should treat a limit of 0 as unlimited", async () => {
+    vi.mocked(getUserQuota).mockResolvedValue({
+      userId: 6,
+      imagesPerDay: 0,
+      pagesPerMonth: 0,
+      storageBytes: 0,
+      updatedAt: now,
+    });
+    mockUsage({ images: 1e6, pages: 1e6 }, { images: 1e6, pages: 1e6 }, 1e12);
+
+    await expect(enforceOcrLimits(6, { images: 1, bytes: 1e9 }, now)).resolves.toBeUndefined();
+  });
+
+  it("should rate limit requests per user", async () => {
+    for (let i = 0; i < 30; i++) await enforceOcrLimits(7, { images: 1, bytes: 0 }, now);
+
+    await expect(enforceOcrLimits(7, { images: 1, bytes: 0 }, now)).rejects.toMatchObject({
+      statusCode: 429,
+      code: "RATE_LIMITED",
+    });
+    await expect(enforceOcrLimits(8, { images: 1, bytes: 0 }, now)).resolves.toBeUndefined();
+  });
+});
+
+describe("enforceOcrPageQuota", () => {
+  it("should reject uploads with more pages than the quota has left", async () => {
+    mockUsage({ images: 0, pages: 0 }, { images: 5, pages: 90 });
+
+    await expect(enforceOcrPageQuota(9, 10, now)).resolves.toBeUndefined();
+    await expect(enforceOcrPageQuota(9, 11, now)).rejects.toMatchObject({
+      statusCode: 429,
+      code: "QUOTA_PAGES_PER_MONTH",
+    });
+  });
+});
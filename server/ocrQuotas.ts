@@ -0,0 +1,150 @@
+import { BadRequestError, TooManyRequestsError } from "@shared/_core/errors";
+import { ENV } from "./_core/env";
+import {
+  addOcrUsage,
+  getOcrStorageBytes,
+  getOcrUsageTotals,
+  getUserQuota,
+} from "./db";
+import { createRateLimiter } from "./rateLimit";
+
+/**
+ * Per-user limits on OCR work:
+ * - request rate and batch size, checked per request (in memory)
+ * - images per UTC day, pages per UTC month and storage bytes, persisted
+ *   in `ocrUsage` / `ocrResults.storageBytes` with overrides in `userQuotas`
+ * A limit of 0 means unlimited.
+ */
+
+export type OcrQuotaLimits = {
+  imagesPerDay: number;
+  pagesPerMonth: number;
+  storageBytes: number;
+};
+
+/** What a request is about to add; `bytes` may be an estimate. */
+export type OcrRequestCost = { images: number; bytes: number };
+
+const ocrRateLimiter = createRateLimiter(ENV.ocrRateLimitPerMinute, 60_000);
+
+function utcDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function periods(now: Date) {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return {
+    today: utcDay(now),
+    monthStart: utcDay(new Date(Date.UTC(year, month, 1))),
+    dayResetAt: new Date(Date.UTC(year, month, now.getUTCDate() + 1)),
+    monthResetAt: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+/**
+ * A user's quota limits: their overrides, else the ENV defaults
+ */
+export async function getOcrQuotaLimits(userId: number): Promise<OcrQuotaLimits> {
+  const quota = await getUserQuota(userId);
+  return {
+    imagesPerDay: quota?.imagesPerDay ?? ENV.ocrQuotaImagesPerDay,
+    pagesPerMonth: quota?.pagesPerMonth ?? ENV.ocrQuotaPagesPerMonth,
+    storageBytes: quota?.storageBytes ?? ENV.ocrQuotaStorageMb * 1024 * 1024,
+  };
+}
+
+/**
+ * Usage against each quota, with the time each one resets
+ */
+export async function getOcrUsage(userId: number, now = new Date()) {
+  const { today, monthStart, dayResetAt, monthResetAt } = periods(now);
+  const [limits, day, month, storageBytes] = await Promise.all([
+    getOcrQuotaLimits(userId),
+    getOcrUsageTotals(userId, today, today),
+    getOcrUsageTotals(userId, monthStart, today),
+    getOcrStorageBytes(userId),
+  ]);
+
+  return {
+    images: { used: day.images, limit: limits.imagesPerDay, resetAt: dayResetAt },
+    pages: { used: month.pages, limit: limits.pagesPerMonth, resetAt: monthResetAt },
+    storage: { usedBytes: storageBytes, limitBytes: limits.storageBytes },
+    rateLimit: ocrRateLimiter.peek(userId, now.getTime()),
+    maxBatchSize: ENV.ocrMaxBatchSize,
+  };
+}
+
+const exceeded = (used: number, add: number, limit: number) =>
+  limit !== 0 && used + add > limit;
+
+/**
+ * Throw an HttpError (400 for oversized batches, 429 otherwise) if the
+ * request would break a limit; counts the request against the rate limit
+ */
+export async function enforceOcrLimits(
+  userId: number,
+  cost: OcrRequestCost,
+  now = new Date()
+) {
+  if (ENV.ocrMaxBatchSize !== 0 && cost.images > ENV.ocrMaxBatchSize) {
+    throw BadRequestError(
+      `Batches are limited to ${ENV.ocrMaxBatchSize} images; got ${cost.images}`,
+      "BATCH_TOO_LARGE"
+    );
+  }
+
+  const rate = ocrRateLimiter.take(userId, 1, now.getTime());
+  if (!rate.allowed) {
+    throw TooManyRequestsError(
+      `Rate limit of ${rate.limit} OCR requests per minute reached; try again at ${rate.resetAt.toISOString()}`,
+      "RATE_LIMITED"
+    );
+  }
+
+  const usage = await getOcrUsage(userId, now);
+  if (exceeded(usage.images.used, cost.images, usage.images.limit)) {
+    throw TooManyRequestsError(
+      `Daily quota of ${usage.images.limit} images reached (${usage.images.used} used); resets at ${usage.images.resetAt.toISOString()}`,
+      "QUOTA_IMAGES_PER_DAY"
+    );
+  }
+  // Page counts are only known once the upload is read; see enforceOcrPageQuota
+  if (usage.pages.limit !== 0 && usage.pages.used >= usage.pages.limit) {
+    throw TooManyRequestsError(
+      `Monthly quota of ${usage.pages.limit} pages reached; resets at ${usage.pages.resetAt.toISOString()}`,
+      "QUOTA_PAGES_PER_MONTH"
+    );
+  }
+  if (exceeded(usage.storage.usedBytes, cost.bytes, usage.storage.limitBytes)) {
+    throw TooManyRequestsError(
+      `Storage quota of ${Math.round(usage.storage.limitBytes / 1024 / 1024)}MB would be exceeded; delete results to free space`,
+      "QUOTA_STORAGE"
+    );
+  }
+}
+
+/**
+ * Throw a 429 if recognizing `pages` more pages would break the monthly
+ * quota; checked per upload before its pages are rendered
+ */
+export async function enforceOcrPageQuota(userId: number, pages: number, now = new Date()) {
+  const usage = await getOcrUsage(userId, now);
+  if (exceeded(usage.pages.used, pages, usage.pages.limit)) {
+    throw TooManyRequestsError(
+      `Monthly quota of ${usage.pages.limit} pages would be exceeded (${usage.pages.used} used, ${pages} more); resets at ${usage.pages.resetAt.toISOString()}`,
+      "QUOTA_PAGES_PER_MONTH"
+    );
+  }
+}
+
+/**
+ * Count a finished recognition against the daily and monthly quotas
+ */
+export async function recordOcrUsage(
+  userId: number,
+  usage: { images: number; pages: number },
+  now = new Date()
+) {
+  await addOcrUsage(userId, utcDay(now), usage.images, usage.pages);
+}
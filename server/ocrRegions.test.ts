@@ -0,0 +1,48 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { cropToRegions, scaleRectangle, toPixelRectangle } from "./ocrRegions";
+
+describe("OCR regions", () => {
+  it("should convert page fractions to pixels inside the page", () => {
+    const size = { width: 200, height: 100 };
+
+    expect(toPixelRectangle({ x: 0.1, y: 0.25, width: 0.5, height: 0.5 }, size)).toEqual({
+      left: 20,
+      top: 25,
+      width: 100,
+      height: 50,
+    });
+    // Slivers at the edge still cover one pixel
+    expect(toPixelRectangle({ x: 1, y: 1, width: 0, height: 0 }, size)).toEqual({
+      left: 199,
+      top: 99,
+      width: 1,
+      height: 1,
+    });
+    expect(
+      scaleRectangle({ left: 20, top: 25, width: 100, height: 50 }, size, {
+        width: 400,
+        height: 200,
+      })
+    ).toEqual({ left: 40, top: 50, width: 200, height: 100 });
+  });
+
+  it("should crop to the bounding box of all regions", async () => {
+    const page = await sharp({
+      create: { width: 200, height: 100, channels: 3, background: "#ffffff" },
+    })
+      .png()
+      .toBuffer();
+
+    const crop = await cropToRegions(page, [
+      { x: 0.1, y: 0.2, width: 0.2, height: 0.1 },
+      { x: 0.5, y: 0.5, width: 0.25, height: 0.3 },
+    ]);
+
+    expect(await sharp(crop.image).metadata()).toMatchObject({ width: 130, height: 60 });
+    expect(crop.rectangles).toEqual([
+      { left: 0, top: 0, width: 40, height: 10 },
+      { left: 80, top: 30, width: 50, height: 30 },
+    ]);
+  });
+});
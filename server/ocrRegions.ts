@@ -0,0 +1,88 @@
+import sharp from "sharp";
+import type { OcrRegion } from "@shared/ocrRegions";
+import type { OcrRectangle } from "./ocrEngine";
+
+/**
+ * Page rotation and region-of-interest geometry. Region coordinates are
+ * page fractions (see shared/ocrRegions.ts); the engine gets pixel
+ * rectangles on the preprocessed image.
+ */
+
+type Size = { width: number; height: number };
+type RegionBounds = Pick<OcrRegion, "x" | "y" | "width" | "height">;
+
+/**
+ * Apply EXIF orientation, as browsers display the image the regions were
+ * drawn on, then rotate clockwise by `degrees` onto a white background.
+ * Returns the page as is when there is nothing to do.
+ */
+export async function rotatePage(page: Buffer, degrees: number) {
+  const { orientation = 1 } = await sharp(page).metadata();
+  if (orientation === 1 && degrees % 360 === 0) return page;
+
+  const pipeline = sharp(page).autoOrient();
+  if (degrees % 360 !== 0) {
+    pipeline.rotate(degrees, { background: "#ffffff" });
+  }
+  return pipeline.png().toBuffer();
+}
+
+/**
+ * Pixel rectangle nearest to page fractions, at least 1x1 and inside the page
+ */
+export function toPixelRectangle(region: RegionBounds, size: Size): OcrRectangle {
+  const left = Math.min(Math.round(region.x * size.width), size.width - 1);
+  const top = Math.min(Math.round(region.y * size.height), size.height - 1);
+  const right = Math.min(Math.round((region.x + region.width) * size.width), size.width);
+  const bottom = Math.min(Math.round((region.y + region.height) * size.height), size.height);
+  return {
+    left,
+    top,
+    width: Math.max(right - left, 1),
+    height: Math.max(bottom - top, 1),
+  };
+}
+
+/**
+ * Map a rectangle on an image of size `from` onto the same image after
+ * preprocessing scaled it to `to`
+ */
+export function scaleRectangle(rectangle: OcrRectangle, from: Size, to: Size): OcrRectangle {
+  if (from.width === to.width && from.height === to.height) return rectangle;
+  return toPixelRectangle(
+    {
+      x: rectangle.left / from.width,
+      y: rectangle.top / from.height,
+      width: rectangle.width / from.width,
+      height: rectangle.height / from.height,
+    },
+    to
+  );
+}
+
+/**
+ * Crop a page to the bounding box of its regions, so preprocessing only
+ * runs on the part that is recognized. Returns each region as a pixel
+ * rectangle within the crop, in the order given.
+ */
+export async function cropToRegions(page: Buffer, regions: RegionBounds[]) {
+  const { width = 0, height = 0 } = await sharp(page).metadata();
+  const rectangles = regions.map(region => toPixelRectangle(region, { width, height }));
+
+  const left = Math.min(...rectangles.map(rectangle => rectangle.left));
+  const top = Math.min(...rectangles.map(rectangle => rectangle.top));
+  const right = Math.max(...rectangles.map(rectangle => rectangle.left + rectangle.width));
+  const bottom = Math.max(...rectangles.map(rectangle => rectangle.top + rectangle.height));
+  const crop = { left, top, width: right - left, height: bottom - top };
+
+  return {
+    image: await sharp(page).extract(crop).png().toBuffer(),
+    width: crop.width,
+    height: crop.height,
+    rectangles: rectangles.map(rectangle => ({
+      ...rectangle,
+      left: rectangle.left - left,
+      top: rectangle.top - top,
+    })),
+  };
+}
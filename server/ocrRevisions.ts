@@ -0,0 +1,42 @@
+import { diffText, summarizeTextDiff } from "@shared/textDiff";
+import type { OcrResult } from "../drizzle/schema";
+import { saveOcrTextRevision } from "./db";
+
+/**
+ * Versioned corrections of OCR text. Every save appends a revision with its
+ * diff against the previous text; the machine output is never overwritten.
+ */
+
+/**
+ * Text of a revision, where revision 0 is the machine output
+ */
+export function originalTextOf(result: Pick<OcrResult, "extractedText" | "originalText">) {
+  return result.originalText ?? result.extractedText;
+}
+
+/**
+ * Append `text` as the next revision of `result`.
+ * Returns undefined if someone else saved a revision in the meantime.
+ */
+export async function reviseOcrText(
+  result: OcrResult,
+  userId: number,
+  text: string,
+  revertedTo?: number
+) {
+  const diff = diffText(result.extractedText, text);
+  const { inserted, deleted } = summarizeTextDiff(diff);
+  const fromOriginal = summarizeTextDiff(diffText(originalTextOf(result), text));
+
+  return saveOcrTextRevision(result.id, result.revision, {
+    ocrResultId: result.id,
+    revision: result.revision + 1,
+    userId,
+    text,
+    diff,
+    charsInserted: inserted,
+    charsDeleted: deleted,
+    editsFromOriginal: fromOriginal.inserted + fromOriginal.deleted,
+    revertedTo: revertedTo ?? null,
+  });
+}
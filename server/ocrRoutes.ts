@@ -0,0 +1,53 @@
+import type { Express, Request, Response } from "express";
+import { HttpError } from "@shared/_core/errors";
+import { sdk } from "./_core/sdk";
+import { OCR_EXPORT_FORMATS, exportOcrResult, type OcrExportFormat } from "./ocrExport";
+
+function isExportFormat(value: unknown): value is OcrExportFormat {
+  return typeof value === "string" && (OCR_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function registerOcrRoutes(app: Express) {
+  // Download an OCR result, e.g. /api/ocr/42/export?format=pdf
+  app.get("/api/ocr/:id/export", async (req: Request, res: Response) => {
+    let user;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const id = Number(req.params.id);
+    const format = req.query.format ?? "txt";
+    if (!Number.isInteger(id) || !isExportFormat(format)) {
+      res.status(400).json({
+        error: `Invalid id or format. Formats: ${OCR_EXPORT_FORMATS.join(", ")}`,
+      });
+      return;
+    }
+
+    try {
+      const file = await exportOcrResult(id, user.id, format);
+      if (!file) {
+        res.status(404).json({ error: "OCR result not found" });
+        return;
+      }
+
+      res
+        .status(200)
+        .set({
+          "Content-Type": file.mimeType,
+          "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        })
+        .send(file.content);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[OCR] Export failed", error);
+      res.status(500).json({ error: "OCR export failed" });
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { buildSnippet, parseSearchQuery, toBooleanQuery } from "./ocrSearch";
+
+describe("OCR Search", () => {
+  describe("parseSearchQuery", () => {
+    it("should separate quoted phrases from terms", () => {
+      expect(parseSearchQuery('invoice "ACME corp" march')).toEqual({
+        phrases: ["ACME corp"],
+        terms: ["invoice", "march"],
+      });
+    });
+
+    it("should strip boolean operators from user input", () => {
+      expect(parseSearchQuery("-acme +total* (x)")).toEqual({
+        phrases: [],
+        terms: ["acme", "total", "x"],
+      });
+    });
+  });
+
+  describe("toBooleanQuery", () => {
+    it("should require every phrase and prefix term", () => {
+      expect(toBooleanQuery({ phrases: ["ACME corp"], terms: ["inv"] })).toBe(
+        '+"ACME corp" +inv*'
+      );
+    });
+  });
+
+  describe("buildSnippet", () => {
+    it("should highlight matches around the first hit", () => {
+      const text = `${"x".repeat(200)} Invoice from ACME\nTotal 10`;
+      const snippet = buildSnippet(text, parseSearchQuery("acme total"));
+
+      expect(snippet.text.startsWith("…")).toBe(true);
+      expect(snippet.highlights.length).toBeGreaterThan(0);
+      const [first] = snippet.highlights;
+      expect(snippet.text.slice(first.start, first.end)).toBe("ACME");
+    });
+
+    it("should merge overlapping phrase and term matches", () => {
+      const snippet = buildSnippet("Pay ACME corp now", parseSearchQuery('"acme corp" acme'));
+      expect(snippet.highlights).toEqual([{ start: 4, end: 13 }]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Query parsing and snippet highlighting for ocr.search.
+ * Matching itself is done by the FULLTEXT index (see db.searchOcrResults).
+ */
+
+export type ParsedSearchQuery = {
+  /** Quoted phrases, matched exactly. */
+  phrases: string[];
+  /** Bare words, matched as prefixes. */
+  terms: string[];
+};
+
+export type SearchSnippet = {
+  text: string;
+  /** Character ranges of `text` that matched the query. */
+  highlights: { start: number; end: number }[];
+};
+
+// Characters with meaning in MySQL boolean full-text syntax.
+const BOOLEAN_OPERATORS = /[+\-<>()~*"@]/g;
+
+const SNIPPET_RADIUS = 80;
+
+/**
+ * Split a user query into quoted phrases and bare terms
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const phrases: string[] = [];
+  const withoutPhrases = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const cleaned = phrase.replace(BOOLEAN_OPERATORS, " ").replace(/\s+/g, " ").trim();
+    if (cleaned) phrases.push(cleaned);
+    return " ";
+  });
+
+  const terms = withoutPhrases
+    .replace(BOOLEAN_OPERATORS, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return { phrases, terms };
+}
+
+/**
+ * Boolean-mode AGAINST() expression requiring every phrase and term
+ */
+export function toBooleanQuery({ phrases, terms }: ParsedSearchQuery): string {
+  return [...phrases.map(phrase => `+"${phrase}"`), ...terms.map(term => `+${term}*`)].join(
+    " "
+  );
+}
+
+/**
+ * Excerpt around the first match with all matches in the excerpt marked
+ */
+export function buildSnippet(text: string, query: ParsedSearchQuery): SearchSnippet {
+  const lower = text.toLowerCase();
+  const needles = [...query.phrases, ...query.terms].map(needle => needle.toLowerCase());
+
+  const matches: { start: number; end: number }[] = [];
+  for (const needle of needles) {
+    let from = 0;
+    while (needle && from < lower.length) {
+      const index = lower.indexOf(needle, from);
+      if (index === -1) break;
+      matches.push({ start: index, end: index + needle.length });
+      from = index + needle.length;
+    }
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const first = matches[0]?.start ?? 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+
+  const highlights: SearchSnippet["highlights"] = [];
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    const previous = highlights[highlights.length - 1];
+    const shifted = {
+      start: match.start - start + prefix.length,
+      end: match.end - start + prefix.length,
+    };
+    // Merge overlapping matches (e.g. a phrase and one of its words)
+    if (previous && shifted.start <= previous.end) {
+      previous.end = Math.max(previous.end, shifted.end);
+    } else {
+      highlights.push(shifted);
+    }
+  }
+
+  return {
+    text: prefix + text.slice(start, end).replace(/\s/g, " ") + suffix,
+    highlights,
+  };
+}
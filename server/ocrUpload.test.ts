@@ -0,0 +1,171 @@
+import express from "express";
+import type { AddressInfo } from "node:net";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { createFixtureOcrEngine } from "./fixtureOcrEngine";
+import { registerOcrEngine } from "./ocrEngine";
+import { registerOcrUploadRoutes } from "./ocrUpload";
+import { storagePutFile } from "./storage";
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn(async () => ({ id: 1 })) },
+}));
+
+vi.mock("./db", async importOriginal => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  findOcrResultsBySha256: vi.fn(async () => []),
+  saveOcrResult: vi.fn(async (result: object) => ({ ...result, id: 42 })),
+  saveOcrLayout: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+  storagePutFile: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+}));
+
+registerOcrEngine(createFixtureOcrEngine([{ text: "uploaded text" }]));
+
+const image = sharp({ create: { width: 64, height: 32, channels: 3, background: "#ffffff" } })
+  .png()
+  .toBuffer();
+
+let baseUrl = "";
+let server: ReturnType<ReturnType<typeof express>["listen"]>;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  registerOcrUploadRoutes(app);
+  server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+function multipart(file: Buffer, fileName: string, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  form.append("file", new Blob([new Uint8Array(file)]), fileName);
+  return fetch(`${baseUrl}/api/ocr/upload`, { method: "POST", body: form });
+}
+
+describe("POST /api/ocr/upload", () => {
+  it("should stream the file to storage and recognize it", async () => {
+    const response = await multipart(await image, "scan.png", {
+      engine: "fixture",
+      preprocessing: JSON.stringify({ steps: [{ type: "grayscale" }] }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ success: true, id: 42, text: "uploaded text", reused: false });
+    expect(storagePutFile).toHaveBeenCalledWith(
+      expect.stringMatching(/^ocr\/1\/.+-scan\.png$/),
+      expect.any(String),
+      "image/png"
+    );
+  });
+
+  it("should reject files whose bytes are not a supported image", async () => {
+    const response = await multipart(Buffer.from("just some text, not a png"), "fake.png");
+
+    expect(response.status).toBe(415);
+    expect((await response.json()).error).toContain("Unsupported file type");
+  });
+
+  it("should reject unknown engines", async () => {
+    const response = await multipart(await image, "scan.png", { engine: "nope" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject non-multipart bodies", async () => {
+    const response = await fetch(`${baseUrl}/api/ocr/upload`, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: new Uint8Array(await image),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("resumable uploads", () => {
+  function startSession(size: number) {
+    return fetch(`${baseUrl}/api/ocr/uploads`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: "big.png", size, engine: "fixture" }),
+    });
+  }
+
+  async function createSession(size: number) {
+    const response = await startSession(size);
+    expect(response.status).toBe(201);
+    return (await response.json()) as { uploadId: string; offset: number };
+  }
+
+  function putChunk(uploadId: string, offset: number, chunk: Buffer) {
+    return fetch(`${baseUrl}/api/ocr/uploads/${uploadId}?offset=${offset}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: new Uint8Array(chunk),
+    });
+  }
+
+  it("should assemble chunks and recognize on completion", async () => {
+    const file = await image;
+    const half = Math.floor(file.length / 2);
+    const { uploadId } = await createSession(file.length);
+
+    expect((await (await putChunk(uploadId, 0, file.subarray(0, half))).json()).offset).toBe(
+      half
+    );
+
+    // Resending from a stale offset is refused with the offset to resume from
+    const stale = await putChunk(uploadId, 0, file.subarray(0, half));
+    expect(stale.status).toBe(409);
+    expect((await stale.json()).offset).toBe(half);
+
+    await putChunk(uploadId, half, file.subarray(half));
+    const status = await (await fetch(`${baseUrl}/api/ocr/uploads/${uploadId}`)).json();
+    expect(status.offset).toBe(file.length);
+
+    const response = await fetch(`${baseUrl}/api/ocr/uploads/${uploadId}/complete`, {
+      method: "POST",
+    });
+    expect(response.status).toBe(200);
+    expect((await response.json()).text).toBe("uploaded text");
+
+    // The session is gone once recognized
+    expect((await fetch(`${baseUrl}/api/ocr/uploads/${uploadId}`)).status).toBe(404);
+  });
+
+  it("should refuse to complete a partial upload", async () => {
+    const file = await image;
+    const { uploadId } = await createSession(file.length);
+    await putChunk(uploadId, 0, file.subarray(0, 16));
+
+    const response = await fetch(`${baseUrl}/api/ocr/uploads/${uploadId}/complete`, {
+      method: "POST",
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("Upload incomplete");
+  });
+
+  it("should allow files over the single upload limit up to the resumable limit", async () => {
+    const mb = 1024 * 1024;
+
+    expect((await startSession(ENV.ocrMaxUploadMb * mb + 1)).status).toBe(201);
+    expect((await startSession(ENV.ocrMaxResumableUploadMb * mb + 1)).status).toBe(413);
+  });
+
+  it("should reject chunks beyond the declared size", async () => {
+    const file = await image;
+    const { uploadId } = await createSession(8);
+
+    expect((await putChunk(uploadId, 0, file)).status).toBe(413);
+  });
+});
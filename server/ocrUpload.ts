@@ -0,0 +1,513 @@
+import busboy from "busboy";
+import { randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { mkdir, rm, truncate } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Transform, type Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import {
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "@shared/_core/errors";
+import { preprocessingInputSchema, resolvePreprocessingProfile } from "@shared/preprocessing";
+import { ocrParametersSchema } from "@shared/ocrParameters";
+import { ocrRegionsSchema, ocrRotationSchema } from "@shared/ocrRegions";
+import { OCR_DUPLICATE_POLICIES } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+import { FILE_TYPE_SNIFF_BYTES, sniffFileType } from "./fileType";
+import { OCR_ALLOWED_MIME_TYPES, OCR_MAX_FILE_BYTES } from "./ocr";
+import { isOcrEngineRegistered } from "./ocrEngine";
+import { enforceOcrLimits } from "./ocrQuotas";
+import { OcrAttemptError, recognizeAndSave } from "./ocrPipeline";
+
+/**
+ * Binary upload routes for OCR, replacing base64 images in JSON bodies:
+ *
+ * - POST /api/ocr/upload: multipart/form-data with a "file" part plus
+ *   optional language, preprocessing, engine and duplicates fields.
+ * - /api/ocr/uploads: resumable uploads for large files, up to
+ *   OCR_MAX_RESUMABLE_UPLOAD_MB. Create a session, PUT raw chunks at the
+ *   current offset (GET the session to resume after a dropped connection),
+ *   then POST .../complete to recognize.
+ *
+ * Bodies are streamed to a temp file; size limits and the file signature
+ * are checked as bytes arrive, so oversized or non-image uploads are
+ * rejected without reading them in full. The pipeline then reads the file
+ * from disk rather than from memory.
+ */
+
+const UPLOAD_DIR = path.join(tmpdir(), "ocr-uploads");
+
+// Headroom for multipart boundaries and the option fields.
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+const RESUMABLE_MAX_FILE_BYTES = ENV.ocrMaxResumableUploadMb * 1024 * 1024;
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const SESSION_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+const tooLarge = (maxBytes: number) =>
+  PayloadTooLargeError(
+    `File size exceeds maximum of ${maxBytes / 1024 / 1024}MB`,
+    "IMAGE_TOO_LARGE"
+  );
+
+// Multipart fields are strings, so explicit steps, regions and parameters arrive as JSON.
+function parseJsonField(value: unknown) {
+  if (typeof value !== "string" || !/^[{[]/.test(value.trim())) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+const uploadOptionsSchema = z.object({
+  language: z.string().min(1).default("eng"),
+  // Preset name ("document", "receipt", "photo") or {"steps": [...]}
+  preprocessing: z.preprocess(parseJsonField, preprocessingInputSchema.optional()),
+  engine: z.string().refine(isOcrEngineRegistered, "Unknown OCR engine").optional(),
+  duplicates: z.enum(OCR_DUPLICATE_POLICIES).optional(),
+  rotation: z.coerce.number().pipe(ocrRotationSchema).optional(),
+  // [{"x": 0.1, "y": 0.8, "width": 0.5, "height": 0.1, "label": "Total"}]
+  regions: z.preprocess(parseJsonField, ocrRegionsSchema.optional()),
+  // {"psm": 7, "whitelist": "0123456789"}
+  parameters: z.preprocess(parseJsonField, ocrParametersSchema.optional()),
+});
+
+type UploadOptions = z.infer<typeof uploadOptionsSchema>;
+
+const createSessionSchema = uploadOptionsSchema.extend({
+  fileName: z.string().min(1).max(255),
+  size: z.number().int().min(1),
+});
+
+type UploadSession = {
+  id: string;
+  userId: number;
+  fileName: string;
+  size: number;
+  /** Bytes written so far; the next chunk must start here. */
+  offset: number;
+  /** Sniffed from the first chunk. */
+  mimeType?: string;
+  options: UploadOptions;
+  filePath: string;
+  expiresAt: number;
+  /** A chunk or completion is in flight. */
+  busy: boolean;
+};
+
+// Sessions live in this process; a restart drops partial uploads.
+const sessions = new Map<string, UploadSession>();
+
+function parseOrThrow<T>(schema: z.ZodType<T>, value: unknown): T {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) throw BadRequestError(z.prettifyError(parsed.error));
+  return parsed.data;
+}
+
+async function tempUploadPath() {
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  return path.join(UPLOAD_DIR, randomUUID());
+}
+
+/**
+ * Stream `source` into `filePath`, failing with 413 past `maxBytes` and,
+ * when `sniff` is set, with 415 unless the leading bytes are a supported format
+ */
+async function writeUpload(
+  source: Readable,
+  filePath: string,
+  options: { append: boolean; maxBytes: number; sniff: boolean }
+) {
+  let bytes = 0;
+  let head = Buffer.alloc(0);
+  let mimeType: string | undefined;
+
+  const detect = () => {
+    mimeType = sniffFileType(head);
+    if (!mimeType) {
+      throw UnsupportedMediaTypeError(
+        `Unsupported file type. Allowed: ${OCR_ALLOWED_MIME_TYPES.join(", ")}`,
+        "IMAGE_UNSUPPORTED_FORMAT"
+      );
+    }
+  };
+
+  const guard = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      if (bytes > options.maxBytes) {
+        callback(tooLarge(options.maxBytes));
+        return;
+      }
+      if (options.sniff && !mimeType) {
+        head = Buffer.concat([head, chunk]).subarray(0, FILE_TYPE_SNIFF_BYTES);
+        if (head.length === FILE_TYPE_SNIFF_BYTES) {
+          try {
+            detect();
+          } catch (error) {
+            callback(error as Error);
+            return;
+          }
+        }
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      try {
+        if (options.sniff && !mimeType) detect();
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+
+  await pipeline(
+    source,
+    guard,
+    createWriteStream(filePath, { flags: options.append ? "a" : "w" })
+  );
+  return { bytes, mimeType };
+}
+
+/**
+ * Parse a multipart body, writing its "file" part to `filePath`
+ */
+function receiveMultipart(req: Request, filePath: string) {
+  return new Promise<{
+    fields: Record<string, string>;
+    fileName: string;
+    mimeType: string;
+  }>((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { files: 1, fields: 20, fieldSize: MULTIPART_OVERHEAD_BYTES },
+      });
+    } catch {
+      reject(BadRequestError("Expected a multipart/form-data body"));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    let fileName = "";
+    let upload: ReturnType<typeof writeUpload> | undefined;
+
+    const fail = (error: unknown) => {
+      req.unpipe(parser);
+      req.resume();
+      reject(error);
+    };
+
+    parser.on("field", (name, value) => {
+      fields[name] = value;
+    });
+    parser.on("file", (name, stream, info) => {
+      if (name !== "file" || upload) {
+        stream.resume();
+        return;
+      }
+      fileName = info.filename || "upload";
+      upload = writeUpload(stream, filePath, {
+        append: false,
+        maxBytes: OCR_MAX_FILE_BYTES,
+        sniff: true,
+      });
+      upload.catch(fail);
+    });
+    parser.on("error", fail);
+    parser.on("close", async () => {
+      if (!upload) {
+        fail(BadRequestError('Missing "file" part'));
+        return;
+      }
+      try {
+        const { mimeType } = await upload;
+        resolve({ fields, fileName, mimeType: mimeType! });
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+    req.pipe(parser);
+  });
+}
+
+/**
+ * Hand a fully received upload to the OCR pipeline, which reads it from
+ * disk. The original is streamed to storage only if it is not a reused
+ * duplicate.
+ */
+async function recognizeUpload(
+  userId: number,
+  upload: { filePath: string; fileName: string; mimeType: string },
+  options: UploadOptions,
+  maxSizeBytes: number
+) {
+  const result = await recognizeAndSave(
+    userId,
+    {
+      image: upload.filePath,
+      fileName: upload.fileName,
+      mimeType: upload.mimeType,
+      language: options.language,
+      engine: options.engine,
+      duplicates: options.duplicates,
+      preprocessing: resolvePreprocessingProfile(options.preprocessing),
+      rotation: options.rotation,
+      regions: options.regions,
+      parameters: options.parameters,
+    },
+    { maxSizeBytes }
+  );
+
+  return {
+    success: true,
+    id: result.id,
+    language: result.language,
+    orientation: result.orientation,
+    text: result.text,
+    confidence: result.confidence,
+    engine: result.engine,
+    processingTimeMs: result.processingTimeMs,
+    imageUrl: result.imageUrl,
+    parameters: result.parameters,
+    regions: result.regions,
+    reused: result.reused,
+  };
+}
+
+function sendError(res: Response, error: unknown) {
+  if (error instanceof HttpError) {
+    // Rejected before the body was read; don't reuse the connection
+    if (!res.req.complete) res.set("Connection", "close");
+    res.status(error.statusCode).json({
+      error: error.message,
+      code: error.code,
+      // Saved failed attempt, for ocr.retry
+      resultId: error instanceof OcrAttemptError ? error.resultId : undefined,
+    });
+    return;
+  }
+  console.error("[OCR] Upload failed", error);
+  res.status(500).json({
+    error: error instanceof Error ? error.message : "Failed to process upload",
+  });
+}
+
+async function authenticate(req: Request, res: Response) {
+  try {
+    return await sdk.authenticateRequest(req);
+  } catch {
+    res.status(401).json({ error: "Authentication required" });
+    return undefined;
+  }
+}
+
+function pruneExpiredSessions() {
+  const now = Date.now();
+  for (const session of Array.from(sessions.values())) {
+    if (session.expiresAt < now && !session.busy) {
+      sessions.delete(session.id);
+      void rm(session.filePath, { force: true });
+    }
+  }
+}
+
+function findSession(id: string, userId: number) {
+  const session = sessions.get(id);
+  if (!session || session.userId !== userId || session.expiresAt < Date.now()) {
+    throw NotFoundError("Upload not found or expired");
+  }
+  if (session.busy) {
+    throw ConflictError("Another request for this upload is in progress");
+  }
+  return session;
+}
+
+function describeSession(session: UploadSession) {
+  return {
+    uploadId: session.id,
+    fileName: session.fileName,
+    size: session.size,
+    offset: session.offset,
+    chunkSize: ENV.ocrUploadChunkMb * 1024 * 1024,
+    expiresAt: new Date(session.expiresAt),
+  };
+}
+
+export function registerOcrUploadRoutes(app: Express) {
+  // Abandoned sessions are dropped even if no new upload starts
+  setInterval(pruneExpiredSessions, SESSION_PRUNE_INTERVAL_MS).unref();
+
+  // Single request upload + recognition
+  app.post("/api/ocr/upload", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    const contentLength = Number(req.headers["content-length"]) || 0;
+    if (contentLength > OCR_MAX_FILE_BYTES + MULTIPART_OVERHEAD_BYTES) {
+      sendError(res, tooLarge(OCR_MAX_FILE_BYTES));
+      return;
+    }
+
+    const filePath = await tempUploadPath();
+    try {
+      await enforceOcrLimits(user.id, { images: 1, bytes: contentLength });
+      const { fields, fileName, mimeType } = await receiveMultipart(req, filePath);
+      const options = parseOrThrow(uploadOptionsSchema, fields);
+      res.json(
+        await recognizeUpload(
+          user.id,
+          { filePath, fileName, mimeType },
+          options,
+          OCR_MAX_FILE_BYTES
+        )
+      );
+    } catch (error) {
+      sendError(res, error);
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  });
+
+  // Start a resumable upload
+  app.post("/api/ocr/uploads", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    try {
+      const { fileName, size, ...options } = parseOrThrow(createSessionSchema, req.body);
+      if (size > RESUMABLE_MAX_FILE_BYTES) throw tooLarge(RESUMABLE_MAX_FILE_BYTES);
+      await enforceOcrLimits(user.id, { images: 1, bytes: size });
+
+      const session: UploadSession = {
+        id: randomUUID(),
+        userId: user.id,
+        fileName,
+        size,
+        offset: 0,
+        options,
+        filePath: await tempUploadPath(),
+        expiresAt: Date.now() + SESSION_TTL_MS,
+        busy: false,
+      };
+      sessions.set(session.id, session);
+      res.status(201).json(describeSession(session));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Current offset, for resuming after a failed chunk
+  app.get("/api/ocr/uploads/:uploadId", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    try {
+      res.json(describeSession(findSession(req.params.uploadId, user.id)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Append a raw chunk, e.g. PUT /api/ocr/uploads/:uploadId?offset=5242880
+  app.put("/api/ocr/uploads/:uploadId", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    let session: UploadSession | undefined;
+    try {
+      session = findSession(req.params.uploadId, user.id);
+      const offset = Number(req.query.offset);
+      if (offset !== session.offset) {
+        res.status(409).json({
+          error: `Expected a chunk at offset ${session.offset}`,
+          offset: session.offset,
+        });
+        return;
+      }
+
+      const maxBytes = Math.min(
+        session.size - session.offset,
+        ENV.ocrUploadChunkMb * 1024 * 1024
+      );
+      if (Number(req.headers["content-length"]) > maxBytes) {
+        throw PayloadTooLargeError("Chunk exceeds the chunk size or the declared file size");
+      }
+
+      session.busy = true;
+      const written = await writeUpload(req, session.filePath, {
+        append: session.offset > 0,
+        maxBytes,
+        sniff: session.offset === 0,
+      });
+      session.mimeType ??= written.mimeType;
+      session.offset += written.bytes;
+      session.expiresAt = Date.now() + SESSION_TTL_MS;
+      res.json(describeSession(session));
+    } catch (error) {
+      // Drop a partially written chunk so the client can resend it
+      if (session) await truncate(session.filePath, session.offset).catch(() => {});
+      sendError(res, error);
+    } finally {
+      if (session) session.busy = false;
+    }
+  });
+
+  // Recognize a fully uploaded file
+  app.post("/api/ocr/uploads/:uploadId/complete", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    let session: UploadSession | undefined;
+    try {
+      session = findSession(req.params.uploadId, user.id);
+      if (session.offset !== session.size || !session.mimeType) {
+        throw BadRequestError(`Upload incomplete: ${session.offset} of ${session.size} bytes`);
+      }
+
+      session.busy = true;
+      const result = await recognizeUpload(
+        user.id,
+        { filePath: session.filePath, fileName: session.fileName, mimeType: session.mimeType },
+        session.options,
+        RESUMABLE_MAX_FILE_BYTES
+      );
+      sessions.delete(session.id);
+      await rm(session.filePath, { force: true });
+      res.json(result);
+    } catch (error) {
+      sendError(res, error);
+    } finally {
+      if (session) session.busy = false;
+    }
+  });
+
+  // Abandon a resumable upload
+  app.delete("/api/ocr/uploads/:uploadId", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    try {
+      const session = findSession(req.params.uploadId, user.id);
+      sessions.delete(session.id);
+      await rm(session.filePath, { force: true });
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ENV } from "./_core/env";
+import {
+  listAvailableLanguages,
+  parseLanguageSet,
+  resolveLanguageSet,
+  withOsdWorker,
+} from "./ocrWorkerPool";
+
+describe("OCR Worker Pool", () => {
+  describe("parseLanguageSet", () => {
+    it("should split, trim and dedupe language codes", () => {
+      expect(parseLanguageSet(" vie + eng+vie ")).toEqual(["vie", "eng"]);
+    });
+
+    it("should return an empty list for blank input", () => {
+      expect(parseLanguageSet(" + ")).toEqual([]);
+    });
+  });
+
+  describe("installed languages", () => {
+    const originalLangPath = ENV.tesseractLangPath;
+    let langDir: string;
+
+    beforeEach(() => {
+      langDir = fs.mkdtempSync(path.join(os.tmpdir(), "tessdata-"));
+      fs.writeFileSync(path.join(langDir, "eng.traineddata"), "");
+      fs.writeFileSync(path.join(langDir, "vie.traineddata.gz"), "");
+      fs.writeFileSync(path.join(langDir, "osd.traineddata"), "");
+      ENV.tesseractLangPath = langDir;
+    });
+
+    afterEach(() => {
+      ENV.tesseractLangPath = originalLangPath;
+      fs.rmSync(langDir, { recursive: true, force: true });
+    });
+
+    it("should list traineddata files except osd", async () => {
+      expect(await listAvailableLanguages()).toEqual(["eng", "vie"]);
+    });
+
+    it("should resolve installed language sets", async () => {
+      fs.writeFileSync(path.join(langDir, "vie.traineddata"), "");
+
+      const resolved = await resolveLanguageSet("vie+eng");
+      expect(resolved.key).toBe("vie+eng");
+      expect(resolved.gzip).toBe(false);
+    });
+
+    it("should reject sets mixing gzipped and plain traineddata", async () => {
+      expect((await resolveLanguageSet("vie")).gzip).toBe(true);
+      await expect(resolveLanguageSet("vie+eng")).rejects.toThrow(
+        "OCR languages vie+eng mix vie (.traineddata.gz) with eng (.traineddata)"
+      );
+    });
+
+    it("should require local osd data instead of downloading it", async () => {
+      const task = async () => "detected";
+      fs.rmSync(path.join(langDir, "osd.traineddata"));
+      await expect(withOsdWorker(task)).rejects.toThrow("need osd.traineddata");
+
+      ENV.tesseractLangPath = "";
+      await expect(withOsdWorker(task)).rejects.toThrow("need osd.traineddata");
+    });
+
+    it("should reject languages without traineddata", async () => {
+      await expect(resolveLanguageSet("eng+fra")).rejects.toThrow(
+        "Unsupported OCR language: fra"
+      );
+    });
+  });
+});
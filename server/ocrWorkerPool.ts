@@ -0,0 +1,281 @@
+import { createWorker, OEM, type LoggerMessage, type Worker } from "tesseract.js";
+import fs from "fs";
+import { ENV } from "./_core/env";
+
+/**
+ * Tesseract worker pool keyed by language set (e.g. "eng", "vie+eng"), plus
+ * the engine mode when a request picks one, since that is fixed when the
+ * worker starts ("eng#oem0"). Workers are created lazily, reused across
+ * requests and terminated after sitting idle for `ENV.ocrWorkerIdleMs`.
+ * Orientation and script detection runs on its own legacy-core worker
+ * under the "osd" key, from local data only.
+ */
+
+type PoolEntry = {
+  worker: Promise<Worker>;
+  /** Tail of the job chain; each job waits for the previous one to settle. */
+  tail: Promise<void>;
+  pending: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  /** Logger listener of the job currently holding the worker. */
+  onProgress: ((message: LoggerMessage) => void) | null;
+};
+
+const pool = new Map<string, PoolEntry>();
+
+const TRAINEDDATA_PATTERN = /^(.+)\.traineddata(\.gz)?$/;
+
+// Orientation/script data is not a recognition language.
+const OSD_LANGUAGE = "osd";
+const NON_RECOGNITION_LANGUAGES = new Set([OSD_LANGUAGE]);
+
+// Without a local tessdata directory, tesseract.js downloads English on demand.
+const FALLBACK_LANGUAGES = ["eng"];
+
+type InstalledLanguage = { code: string; gzip: boolean };
+
+async function readInstalledTraineddata(): Promise<InstalledLanguage[]> {
+  if (!ENV.tesseractLangPath) {
+    return FALLBACK_LANGUAGES.map(code => ({ code, gzip: true }));
+  }
+
+  try {
+    const entries = await fs.promises.readdir(ENV.tesseractLangPath);
+    const installed = new Map<string, InstalledLanguage>();
+    for (const entry of entries) {
+      const match = TRAINEDDATA_PATTERN.exec(entry);
+      if (!match) continue;
+      // Prefer the uncompressed file when both are present.
+      const existing = installed.get(match[1]);
+      if (!existing || existing.gzip) {
+        installed.set(match[1], { code: match[1], gzip: Boolean(match[2]) });
+      }
+    }
+    return Array.from(installed.values()).sort((a, b) =>
+      a.code.localeCompare(b.code)
+    );
+  } catch (error) {
+    console.error("[OCR] Failed to read traineddata directory:", error);
+    return [];
+  }
+}
+
+async function readInstalledLanguages() {
+  const installed = await readInstalledTraineddata();
+  return installed.filter(lang => !NON_RECOGNITION_LANGUAGES.has(lang.code));
+}
+
+/**
+ * List the language codes the server can recognize
+ */
+export async function listAvailableLanguages(): Promise<string[]> {
+  const installed = await readInstalledLanguages();
+  return installed.map(lang => lang.code);
+}
+
+/**
+ * Split a language string such as "vie+eng" into its codes, dropping
+ * blanks and duplicates while keeping Tesseract's priority order.
+ */
+export function parseLanguageSet(language: string): string[] {
+  const codes = language
+    .split("+")
+    .map(code => code.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(codes));
+}
+
+/**
+ * Resolve a requested language string against the installed traineddata.
+ * Throws if any code is unknown, or if the set mixes gzipped and plain
+ * files: a worker loads every language of its set in one format.
+ */
+export async function resolveLanguageSet(language: string) {
+  const codes = parseLanguageSet(language);
+  if (codes.length === 0) {
+    throw new Error("No OCR language specified");
+  }
+
+  const installed = await readInstalledLanguages();
+  const byCode = new Map(installed.map(lang => [lang.code, lang]));
+  const missing = codes.filter(code => !byCode.has(code));
+  if (missing.length > 0) {
+    throw new Error(
+      `Unsupported OCR language: ${missing.join(", ")}. Available: ${
+        installed.map(lang => lang.code).join(", ") || "none"
+      }`
+    );
+  }
+
+  const gzipped = codes.filter(code => byCode.get(code)!.gzip);
+  if (gzipped.length > 0 && gzipped.length < codes.length) {
+    const plain = codes.filter(code => !byCode.get(code)!.gzip);
+    throw new Error(
+      `OCR languages ${codes.join("+")} mix ${gzipped.join(", ")} (.traineddata.gz) with ${plain.join(", ")} (.traineddata); install them in the same format`
+    );
+  }
+
+  return {
+    key: codes.join("+"),
+    codes,
+    gzip: gzipped.length > 0,
+  };
+}
+
+function scheduleIdleShutdown(key: string, entry: PoolEntry) {
+  if (entry.idleTimer) clearTimeout(entry.idleTimer);
+  entry.idleTimer = setTimeout(() => {
+    if (pool.get(key) !== entry || entry.pending > 0) return;
+    pool.delete(key);
+    entry.worker
+      .then(worker => worker.terminate())
+      .catch(error => {
+        console.error(`[OCR] Failed to terminate idle worker (${key}):`, error);
+      });
+  }, ENV.ocrWorkerIdleMs);
+  entry.idleTimer.unref?.();
+}
+
+function getEntry(key: string, codes: string[], gzip: boolean, oem?: OEM): PoolEntry {
+  const existing = pool.get(key);
+  if (existing) return existing;
+
+  // These modes need the legacy core and traineddata with the legacy model
+  const legacy = oem === OEM.TESSERACT_ONLY || oem === OEM.TESSERACT_LSTM_COMBINED;
+  const entry: PoolEntry = {
+    worker: createWorker(codes, oem, {
+      ...(ENV.tesseractLangPath
+        ? { langPath: ENV.tesseractLangPath, cachePath: ENV.tesseractLangPath }
+        : {}),
+      gzip,
+      ...(legacy ? { legacyCore: true, legacyLang: true } : {}),
+      logger: message => entry.onProgress?.(message),
+    }),
+    tail: Promise.resolve(),
+    pending: 0,
+    idleTimer: null,
+    onProgress: null,
+  };
+  const { worker } = entry;
+  pool.set(key, entry);
+
+  // Drop failed workers so the next request can try again.
+  worker.catch(error => {
+    console.error(`[OCR] Failed to initialize worker (${key}):`, error);
+    if (pool.get(key) === entry) pool.delete(key);
+  });
+
+  return entry;
+}
+
+/**
+ * Run `task` with exclusive use of the worker for `language` and `oem`.
+ * Jobs for the same language set and engine mode run one at a time on a
+ * shared worker, so parameters a task sets and resets cannot reach other
+ * jobs. `onProgress` receives the worker's logger messages while `task` runs.
+ */
+export async function withOcrWorker<T>(
+  language: string,
+  task: (worker: Worker) => Promise<T>,
+  onProgress?: (message: LoggerMessage) => void,
+  oem?: OEM
+): Promise<T> {
+  const resolved = await resolveLanguageSet(language);
+  const key = oem === undefined ? resolved.key : `${resolved.key}#oem${oem}`;
+  return runOnWorker(
+    getEntry(key, resolved.codes, resolved.gzip, oem),
+    key,
+    task,
+    onProgress
+  );
+}
+
+/**
+ * Run `task` on the orientation/script detection worker. The data must be
+ * installed locally; it is never downloaded.
+ * @throws Error when osd.traineddata is not in TESSERACT_LANG_PATH
+ */
+export async function withOsdWorker<T>(task: (worker: Worker) => Promise<T>): Promise<T> {
+  const installed = ENV.tesseractLangPath ? await readInstalledTraineddata() : [];
+  const osd = installed.find(lang => lang.code === OSD_LANGUAGE);
+  if (!osd) {
+    throw new Error(
+      "Orientation and script detection need osd.traineddata in TESSERACT_LANG_PATH"
+    );
+  }
+  // Orientation detection only exists in the legacy (non-LSTM) engine
+  return runOnWorker(
+    getEntry(OSD_LANGUAGE, [OSD_LANGUAGE], osd.gzip, OEM.TESSERACT_ONLY),
+    OSD_LANGUAGE,
+    task
+  );
+}
+
+async function runOnWorker<T>(
+  entry: PoolEntry,
+  key: string,
+  task: (worker: Worker) => Promise<T>,
+  onProgress?: (message: LoggerMessage) => void
+): Promise<T> {
+  entry.pending++;
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = null;
+  }
+
+  const run = entry.tail.then(async () => {
+    let worker: Worker;
+    try {
+      worker = await entry.worker;
+    } catch {
+      throw new Error("Failed to initialize OCR worker");
+    }
+    entry.onProgress = onProgress ?? null;
+    try {
+      return await task(worker);
+    } finally {
+      entry.onProgress = null;
+    }
+  });
+  entry.tail = run.then(
+    () => undefined,
+    () => undefined
+  );
+
+  try {
+    return await run;
+  } finally {
+    entry.pending--;
+    if (entry.pending === 0) scheduleIdleShutdown(key, entry);
+  }
+}
+
+/**
+ * Pooled workers by language set, with the jobs running or waiting on each
+ */
+export function getOcrWorkerPoolStats() {
+  return Array.from(pool.entries()).map(([language, entry]) => ({
+    language,
+    pending: entry.pending,
+    idle: entry.pending === 0,
+  }));
+}
+
+/**
+ * Terminate every pooled worker
+ */
+export async function terminateAllOcrWorkers() {
+  const entries = Array.from(pool.entries());
+  pool.clear();
+  await Promise.all(
+    entries.map(async ([key, entry]) => {
+      if (entry.idleTimer) clearTimeout(entry.idleTimer);
+      try {
+        const worker = await entry.worker;
+        await worker.terminate();
+      } catch (error) {
+        console.error(`[OCR] Failed to terminate worker (${key}):`, error);
+      }
+    })
+  );
+}
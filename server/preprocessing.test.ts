@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { resolvePreprocessingProfile } from "@shared/preprocessing";
+import { applyPreprocessing, estimateSkewAngle, otsuThreshold } from "./preprocessing";
+
+function createLinesImage(angle: number) {
+  const lines = Array.from(
+    { length: 8 },
+    (_, i) => `<rect x="60" y="${60 + i * 40}" width="480" height="10" fill="#000"/>`
+  ).join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="420">
+    <rect width="600" height="420" fill="#fff"/>
+    <g transform="rotate(${angle} 300 210)">${lines}</g>
+  </svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+describe("Image Preprocessing", () => {
+  describe("resolvePreprocessingProfile", () => {
+    it("should default to the default preset", () => {
+      const profile = resolvePreprocessingProfile(undefined);
+      expect(profile.name).toBe("default");
+      expect(profile.steps.map(step => step.type)).toEqual(["resize", "grayscale"]);
+    });
+
+    it("should fill step defaults for custom profiles", () => {
+      const profile = resolvePreprocessingProfile({
+        steps: [{ type: "threshold", method: "fixed", value: 100, windowSize: 31, offset: 10 }],
+      });
+      expect(profile.name).toBe("custom");
+      expect(profile.steps[0]).toMatchObject({ type: "threshold", value: 100 });
+    });
+  });
+
+  describe("otsuThreshold", () => {
+    it("should split a bimodal histogram between the modes", () => {
+      const pixels = new Uint8Array([...Array(50).fill(20), ...Array(50).fill(220)]);
+      const level = otsuThreshold(pixels);
+      expect(level).toBeGreaterThan(20);
+      expect(level).toBeLessThanOrEqual(220);
+    });
+  });
+
+  describe("estimateSkewAngle", () => {
+    it("should detect rotated text lines", async () => {
+      const image = await createLinesImage(4);
+      const angle = await estimateSkewAngle(image, 10);
+      expect(Math.abs(angle - 4)).toBeLessThanOrEqual(0.5);
+    });
+  });
+
+  describe("applyPreprocessing", () => {
+    it("should binarize with the document preset", async () => {
+      const image = await createLinesImage(0);
+      const { image: output } = await applyPreprocessing(
+        image,
+        resolvePreprocessingProfile("document")
+      );
+      const { data } = await sharp(output).grayscale().raw().toBuffer({ resolveWithObject: true });
+      expect(new Set(data)).toEqual(new Set([0, 255]));
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import sharp from "sharp";
+import type { PreprocessingProfile, PreprocessingStep } from "@shared/preprocessing";
+
+/**
+ * Sharp implementations of the preprocessing steps in @shared/preprocessing.
+ * Each step materializes a lossless PNG so later steps see its output.
+ */
+
+type Gray = { data: Buffer; width: number; height: number };
+
+async function toGray(image: Buffer): Promise<Gray> {
+  const { data, info } = await sharp(image)
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+function fromGray({ data, width, height }: Gray) {
+  return sharp(data, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+/**
+ * Otsu's threshold: the level maximizing between-class variance
+ */
+export function otsuThreshold(pixels: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of pixels) histogram[value]++;
+
+  const total = pixels.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let best = 128;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance =
+      weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      // Pixels >= threshold become white, so split just above the dark class.
+      best = level + 1;
+    }
+  }
+  return best;
+}
+
+async function adaptiveThreshold(image: Buffer, windowSize: number, offset: number) {
+  const gray = await toGray(image);
+  // Gaussian local mean; sigma chosen so ~99% of the weight is inside the window.
+  const { data: mean } = await sharp(gray.data, {
+    raw: { width: gray.width, height: gray.height, channels: 1 },
+  })
+    .blur(Math.max(windowSize / 6, 0.3))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const out = Buffer.alloc(gray.data.length);
+  for (let i = 0; i < gray.data.length; i++) {
+    out[i] = gray.data[i] > mean[i] - offset ? 255 : 0;
+  }
+  return fromGray({ ...gray, data: out });
+}
+
+/**
+ * Estimate skew in degrees by maximizing the variance of sheared row
+ * projections of dark pixels (text lines line up at the right angle).
+ */
+export async function estimateSkewAngle(image: Buffer, maxAngle: number): Promise<number> {
+  const small = await sharp(image)
+    .resize(800, 800, { fit: "inside", withoutEnlargement: true })
+    .png()
+    .toBuffer();
+  const { data, width, height } = await toGray(small);
+  const level = otsuThreshold(data);
+
+  const darkX: number[] = [];
+  const darkY: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] < level) {
+        darkX.push(x);
+        darkY.push(y);
+      }
+    }
+  }
+  if (darkX.length === 0) return 0;
+
+  const rows = height + width * 2;
+  const counts = new Float64Array(rows);
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += 0.5) {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    counts.fill(0);
+    for (let i = 0; i < darkX.length; i++) {
+      counts[Math.round(darkY[i] - darkX[i] * slope) + width]++;
+    }
+    let score = 0;
+    for (let row = 1; row < rows; row++) {
+      const diff = counts[row] - counts[row - 1];
+      score += diff * diff;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+async function applyStep(
+  image: Buffer,
+  step: PreprocessingStep,
+  deskew: number[]
+): Promise<Buffer> {
+  switch (step.type) {
+    case "autoOrient":
+      return sharp(image).autoOrient().png().toBuffer();
+
+    // Applied to the page before preprocessing (see processImageWithOcr)
+    case "autoRotate":
+      return image;
+
+    case "resize": {
+      const { width = 0, height = 0 } = await sharp(image).metadata();
+      if (width <= step.maxDimension && height <= step.maxDimension) return image;
+      return sharp(image)
+        .resize(step.maxDimension, step.maxDimension, {
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .png()
+        .toBuffer();
+    }
+
+    case "upscale": {
+      const { width = 0, height = 0 } = await sharp(image).metadata();
+      const shorter = Math.min(width, height);
+      if (shorter === 0 || shorter >= step.minDimension) return image;
+      const factor = Math.min(step.minDimension / shorter, step.maxFactor);
+      return sharp(image)
+        .resize(Math.round(width * factor), Math.round(height * factor), {
+          kernel: "lanczos3",
+        })
+        .png()
+        .toBuffer();
+    }
+
+    case "grayscale":
+      return sharp(image).grayscale().png().toBuffer();
+
+    case "normalize":
+      return sharp(image)
+        .normalize({ lower: step.lower, upper: Math.max(step.upper, step.lower + 1) })
+        .png()
+        .toBuffer();
+
+    case "denoise":
+      return sharp(image).median(step.size).png().toBuffer();
+
+    case "sharpen":
+      return sharp(image).sharpen({ sigma: step.sigma }).png().toBuffer();
+
+    case "deskew": {
+      const angle = await estimateSkewAngle(image, step.maxAngle);
+      if (Math.abs(angle) < 0.25) return image;
+      deskew.push(-angle);
+      return sharp(image)
+        .rotate(-angle, { background: "#ffffff" })
+        .png()
+        .toBuffer();
+    }
+
+    case "threshold": {
+      if (step.method === "adaptive") {
+        return adaptiveThreshold(image, step.windowSize, step.offset);
+      }
+      const level =
+        step.method === "otsu" ? otsuThreshold((await toGray(image)).data) : step.value;
+      return sharp(image).grayscale().threshold(level).png().toBuffer();
+    }
+  }
+}
+
+export type PreprocessedImage = {
+  image: Buffer;
+  /** Clockwise degrees each deskew step rotated the image, in order. */
+  deskew: number[];
+};
+
+/**
+ * Run the profile's steps in order and return the image to recognize
+ */
+export async function applyPreprocessing(
+  image: Buffer,
+  profile: PreprocessingProfile
+): Promise<PreprocessedImage> {
+  let current = image;
+  const deskew: number[] = [];
+  for (const step of profile.steps) {
+    try {
+      current = await applyStep(current, step, deskew);
+    } catch (error) {
+      throw new Error(
+        `Image preprocessing failed at "${step.type}": ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+  return { image: current, deskew };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimit";
+
+describe("createRateLimiter", () => {
+  it("should allow requests up to the limit within a window", () => {
+    const limiter = createRateLimiter(2, 60_000);
+
+    expect(limiter.take(1, 1, 0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.take(1, 1, 10)).toMatchObject({ allowed: true, remaining: 0 });
+    const blocked = limiter.take(1, 1, 20);
+    expect(blocked).toMatchObject({ allowed: false, remaining: 0 });
+    expect(blocked.resetAt.getTime()).toBe(60_000);
+  });
+
+  it("should start a new window after the reset time", () => {
+    const limiter = createRateLimiter(1, 1000);
+
+    expect(limiter.take(1, 1, 0).allowed).toBe(true);
+    expect(limiter.take(1, 1, 999).allowed).toBe(false);
+    expect(limiter.take(1, 1, 1000).allowed).toBe(true);
+  });
+
+  it("should count keys separately and not charge rejected requests", () => {
+    const limiter = createRateLimiter(3, 1000);
+
+    expect(limiter.take("a", 2, 0).allowed).toBe(true);
+    expect(limiter.take("a", 2, 0).allowed).toBe(false);
+    expect(limiter.peek("a", 0).remaining).toBe(1);
+    expect(limiter.take("b", 3, 0).allowed).toBe(true);
+  });
+
+  it("should treat a limit of 0 as unlimited", () => {
+    const limiter = createRateLimiter(0, 1000);
+
+    for (let i = 0; i < 100; i++) expect(limiter.take(1).allowed).toBe(true);
+    expect(limiter.peek(1).remaining).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * In-memory fixed-window rate limiter. Counts are per process, which is
+ * enough to stop one user from monopolizing this server's OCR workers.
+ */
+
+export type RateLimitStatus = {
+  allowed: boolean;
+  /** 0 = unlimited. */
+  limit: number;
+  /** null when unlimited. */
+  remaining: number | null;
+  resetAt: Date;
+};
+
+export type RateLimiter = {
+  /** Count `cost` requests for `key` if they fit in the current window. */
+  take(key: string | number, cost?: number, now?: number): RateLimitStatus;
+  /** Current status without counting a request. */
+  peek(key: string | number, now?: number): RateLimitStatus;
+};
+
+/**
+ * @param limit - Requests allowed per window; 0 disables the limit
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string | number, { count: number; resetAt: number }>();
+
+  const current = (key: string | number, now: number) => {
+    const window = windows.get(key);
+    if (window && window.resetAt > now) return window;
+
+    // Drop expired windows so idle users don't accumulate
+    windows.forEach((value, other) => {
+      if (value.resetAt <= now) windows.delete(other);
+    });
+    const fresh = { count: 0, resetAt: now + windowMs };
+    windows.set(key, fresh);
+    return fresh;
+  };
+
+  const status = (window: { count: number; resetAt: number }, allowed: boolean) => ({
+    allowed,
+    limit,
+    remaining: limit === 0 ? null : Math.max(limit - window.count, 0),
+    resetAt: new Date(window.resetAt),
+  });
+
+  return {
+    take(key, cost = 1, now = Date.now()) {
+      const window = current(key, now);
+      if (limit !== 0 && window.count + cost > limit) return status(window, false);
+      window.count += cost;
+      return status(window, true);
+    },
+    peek(key, now = Date.now()) {
+      return status(current(key, now), true);
+    },
+  };
+}
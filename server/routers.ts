@@ -1,12 +1,149 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import {
+  ocrProcedure,
+  publicProcedure,
+  protectedProcedure,
+  router,
+  toTrpcError,
+} from "./_core/trpc";
+import { preprocessingInputSchema, resolvePreprocessingProfile } from "@shared/preprocessing";
+import { ocrParametersSchema } from "@shared/ocrParameters";
+import { ocrRegionsSchema, ocrRotationSchema } from "@shared/ocrRegions";
+import { TRPCError } from "@trpc/server";
+import { HttpError } from "@shared/_core/errors";
 import { z } from "zod";
-import { getUserOcrResults, saveOcrResult, deleteOcrResult } from "./db";
-import { processImageWithOcr, validateImageFile } from "./ocr";
-import { storagePut } from "./storage";
-import { nanoid } from "nanoid";
+import { OCR_DUPLICATE_POLICIES, OCR_RESULT_STATUSES } from "../drizzle/schema";
+import {
+  listOcrResults,
+  OCR_HISTORY_SORT_FIELDS,
+  getOcrResultById,
+  deleteOcrResult,
+  getOcrLayout,
+  getOcrPages,
+  getOcrRegions,
+  getOcrCorrections,
+  createOcrJob,
+  getOcrJob,
+  cancelOcrJob,
+  finalizeOcrJob,
+  searchOcrResults,
+  getOcrTextRevision,
+  getOcrTextRevisions,
+  getExtractionTemplate,
+  getOcrLayouts,
+  saveOcrExtraction,
+  getOcrExtractions,
+  findSimilarOcrResults,
+} from "./db";
+import { adminRouter } from "./adminRouter";
+import { analyticsRouter } from "./analyticsRouter";
+import { decodeCursor } from "./cursor";
+import { dictionariesRouter } from "./dictionariesRouter";
+import { applyExtractionTemplate, summarizeExtraction } from "./extraction";
+import { validateImageFile } from "./ocr";
+import { getOcrEngine, isOcrEngineRegistered, listOcrEngines } from "./ocrEngine";
+import { OCR_EXPORT_FORMATS, exportOcrResult } from "./ocrExport";
+import { notifyOcrJobQueue, notifyOcrJobUpdated, watchOcrJob } from "./ocrJobQueue";
+import {
+  OcrAttemptError,
+  recognizeAndSave,
+  retryOcrResult,
+  storeOcrImage,
+} from "./ocrPipeline";
+import { originalTextOf, reviseOcrText } from "./ocrRevisions";
+import { buildSnippet, parseSearchQuery, toBooleanQuery } from "./ocrSearch";
+import { storageDelete } from "./storage";
+import { TABLE_EXPORT_FORMATS, exportOcrTables, getOcrTables } from "./tableExport";
+import { templatesRouter } from "./templatesRouter";
+import { usageRouter } from "./usageRouter";
+import { createUserRegexBudget } from "./userRegex";
+
+const ocrEngineInput = z.string().refine(isOcrEngineRegistered, "Unknown OCR engine");
+
+const ocrImageInput = z.object({
+  imageData: z.string(), // Base64 encoded image
+  fileName: z.string().min(1),
+  mimeType: z.string(),
+  language: z.string().default("eng"),
+  // Preset name ("document", "receipt", "photo") or explicit steps
+  preprocessing: preprocessingInputSchema.optional(),
+  // Registered OCR engine; defaults to the deployment's OCR_ENGINE
+  engine: ocrEngineInput.optional(),
+  // Re-uploads of an identical file: reuse the earlier result or run again
+  duplicates: z.enum(OCR_DUPLICATE_POLICIES).optional(),
+  // Clockwise degrees, then only these page fractions (see shared/ocrRegions.ts)
+  rotation: ocrRotationSchema.optional(),
+  regions: ocrRegionsSchema.optional(),
+  // Tesseract settings for this image (see shared/ocrParameters.ts)
+  parameters: ocrParametersSchema.optional(),
+});
+
+/**
+ * Rethrowable error for a failed upload; HttpErrors (e.g. from
+ * validateImageFile) keep their status and code
+ */
+function toUploadError(error: unknown, fallback: string) {
+  if (error instanceof HttpError) {
+    return toTrpcError(error);
+  }
+  return new Error(error instanceof Error ? error.message : fallback);
+}
+
+async function findOcrResult(id: number, userId: number) {
+  let result;
+  try {
+    result = await getOcrResultById(id, userId);
+  } catch (error) {
+    console.error("[OCR] Failed to get result:", error);
+    throw new Error("Failed to retrieve OCR result");
+  }
+  if (!result) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "OCR result not found" });
+  }
+  return result;
+}
+
+async function saveTextRevision(
+  result: Awaited<ReturnType<typeof findOcrResult>>,
+  userId: number,
+  text: string,
+  revertedTo?: number
+) {
+  if (text === result.extractedText) {
+    return { success: true, revision: result.revision, changed: false };
+  }
+
+  let saved;
+  try {
+    saved = await reviseOcrText(result, userId, text, revertedTo);
+  } catch (error) {
+    console.error("[OCR] Failed to save text revision:", error);
+    throw new Error("Failed to save corrected text");
+  }
+  if (!saved) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "The text was changed by another edit; reload and try again",
+    });
+  }
+  return { success: true, revision: saved.revision, changed: true };
+}
+
+const expectedRevisionInput = z.number().int().min(0).optional();
+
+function assertExpectedRevision(
+  result: Awaited<ReturnType<typeof findOcrResult>>,
+  expectedRevision: number | undefined
+) {
+  if (expectedRevision !== undefined && expectedRevision !== result.revision) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `Text is at revision ${result.revision}, expected ${expectedRevision}`,
+    });
+  }
+}
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -22,83 +159,515 @@ export const appRouter = router({
     }),
   }),
 
+  templates: templatesRouter,
+  dictionaries: dictionariesRouter,
+  usage: usageRouter,
+  admin: adminRouter,
+  analytics: analyticsRouter,
+
   ocr: router({
     /**
-     * Upload image and perform OCR
+     * Upload image and perform OCR. Browsers should POST the file to
+     * /api/ocr/upload instead, which streams it rather than taking base64.
+     */
+    processImage: ocrProcedure
+      .input(ocrImageInput)
+      .mutation(async ({ ctx, input }) => {
+        try {
+          // Decode base64 image
+          const imageBuffer = Buffer.from(input.imageData, "base64");
+
+          const result = await recognizeAndSave(ctx.user.id, {
+            image: imageBuffer,
+            fileName: input.fileName,
+            mimeType: input.mimeType,
+            language: input.language,
+            engine: input.engine,
+            duplicates: input.duplicates,
+            preprocessing: resolvePreprocessingProfile(input.preprocessing),
+            rotation: input.rotation,
+            regions: input.regions,
+            parameters: input.parameters,
+          });
+
+          return {
+            success: true,
+            id: result.id,
+            language: result.language,
+            orientation: result.orientation,
+            text: result.text,
+            confidence: result.confidence,
+            engine: result.engine,
+            processingTimeMs: result.processingTimeMs,
+            imageUrl: result.imageUrl,
+            parameters: result.parameters,
+            regions: result.regions,
+            reused: result.reused,
+          };
+        } catch (error) {
+          console.error("[OCR] Processing failed:", error);
+          throw toUploadError(error, "Failed to process image");
+        }
+      }),
+
+    /**
+     * Run a failed result again from its stored original, optionally with
+     * another language, preprocessing profile, engine or engine parameters
      */
-    processImage: protectedProcedure
+    retry: ocrProcedure
       .input(
         z.object({
-          imageData: z.string(), // Base64 encoded image
-          fileName: z.string().min(1),
-          mimeType: z.string(),
-          language: z.string().default("eng"),
+          id: z.number(),
+          language: z.string().optional(),
+          preprocessing: preprocessingInputSchema.optional(),
+          engine: ocrEngineInput.optional(),
+          parameters: ocrParametersSchema.optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
         try {
-          // Decode base64 image
-          const imageBuffer = Buffer.from(input.imageData, "base64");
+          const result = await retryOcrResult(ctx.user.id, input.id, {
+            language: input.language,
+            engine: input.engine,
+            parameters: input.parameters,
+            preprocessing: input.preprocessing
+              ? resolvePreprocessingProfile(input.preprocessing)
+              : undefined,
+          });
 
-          // Validate image
-          const validation = validateImageFile(imageBuffer, input.mimeType);
-          if (!validation.valid) {
-            throw new Error(validation.error || "Invalid image");
-          }
+          return {
+            success: true,
+            id: result.id,
+            language: result.language,
+            orientation: result.orientation,
+            text: result.text,
+            confidence: result.confidence,
+            engine: result.engine,
+            processingTimeMs: result.processingTimeMs,
+            imageUrl: result.imageUrl,
+            parameters: result.parameters,
+            regions: result.regions,
+          };
+        } catch (error) {
+          console.error("[OCR] Retry failed:", error);
+          throw toUploadError(error, "Failed to retry OCR");
+        }
+      }),
+
+    /**
+     * List OCR engines available on the server
+     */
+    listEngines: protectedProcedure.query(() => {
+      const defaultEngine = getOcrEngine().name;
+      return listOcrEngines().map(engine => ({
+        name: engine.name,
+        capabilities: engine.capabilities,
+        isDefault: engine.name === defaultEngine,
+      }));
+    }),
+
+    /**
+     * List OCR languages installed for an engine (default engine if omitted)
+     */
+    listLanguages: protectedProcedure
+      .input(z.object({ engine: ocrEngineInput.optional() }).optional())
+      .query(async ({ input }) => {
+        try {
+          return await getOcrEngine(input?.engine).listLanguages();
+        } catch (error) {
+          console.error("[OCR] Failed to list languages:", error);
+          throw new Error("Failed to list OCR languages");
+        }
+      }),
+
+    /**
+     * Get a page of the user's OCR history (without full text).
+     * Pass the returned nextCursor to fetch the following page.
+     */
+    getHistory: protectedProcedure
+      .input(
+        z
+          .object({
+            cursor: z.string().optional(),
+            limit: z.number().int().min(1).max(100).default(20),
+            sortBy: z.enum(OCR_HISTORY_SORT_FIELDS).default("date"),
+            sortOrder: z.enum(["asc", "desc"]).default("desc"),
+            language: z.string().optional(),
+            minConfidence: z.number().min(0).max(100).optional(),
+            maxConfidence: z.number().min(0).max(100).optional(),
+            dateFrom: z.date().optional(),
+            dateTo: z.date().optional(),
+            status: z.enum(OCR_RESULT_STATUSES).optional(),
+          })
+          .default({ limit: 20, sortBy: "date", sortOrder: "desc" })
+      )
+      .query(async ({ ctx, input }) => {
+        if (input.cursor && !decodeCursor(input.cursor)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid history cursor" });
+        }
+
+        try {
+          return await listOcrResults(ctx.user.id, input);
+        } catch (error) {
+          console.error("[OCR] Failed to get history:", error);
+          throw new Error("Failed to retrieve OCR history");
+        }
+      }),
+
+    /**
+     * Get one OCR result including its full text
+     */
+    getResult: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ ctx, input }) => findOcrResult(input.id, ctx.user.id)),
+
+    /**
+     * Save a corrected text as a new revision. Pass `expectedRevision` to
+     * fail with CONFLICT instead of overwriting someone else's edit.
+     */
+    updateText: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          text: z.string().max(1_000_000),
+          expectedRevision: expectedRevisionInput,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const result = await findOcrResult(input.id, ctx.user.id);
+        assertExpectedRevision(result, input.expectedRevision);
+        return saveTextRevision(result, ctx.user.id, input.text);
+      }),
+
+    /**
+     * Machine output and every saved correction of a result, oldest first
+     */
+    getRevisions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const result = await findOcrResult(input.id, ctx.user.id);
+        try {
+          return {
+            currentRevision: result.revision,
+            original: { text: originalTextOf(result), createdAt: result.createdAt },
+            revisions: await getOcrTextRevisions(input.id, ctx.user.id),
+          };
+        } catch (error) {
+          console.error("[OCR] Failed to get text revisions:", error);
+          throw new Error("Failed to retrieve text revisions");
+        }
+      }),
 
-          // Process image with OCR
-          const ocrResult = await processImageWithOcr(imageBuffer, input.language);
+    /**
+     * Restore an earlier revision (0 = machine output) by saving it as a
+     * new revision, so the history stays append-only
+     */
+    revertText: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          revision: z.number().int().min(0),
+          expectedRevision: expectedRevisionInput,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const result = await findOcrResult(input.id, ctx.user.id);
+        assertExpectedRevision(result, input.expectedRevision);
 
-          if (!ocrResult.success) {
-            throw new Error(ocrResult.error || "OCR processing failed");
+        let text: string | undefined;
+        if (input.revision === 0) {
+          text = originalTextOf(result);
+        } else {
+          try {
+            text = (await getOcrTextRevision(input.id, ctx.user.id, input.revision))?.text;
+          } catch (error) {
+            console.error("[OCR] Failed to get text revision:", error);
+            throw new Error("Failed to retrieve text revision");
           }
+        }
+        if (text === undefined) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+        }
+        return saveTextRevision(result, ctx.user.id, text, input.revision);
+      }),
+
+    /**
+     * Earlier uploads that look like this result's image (re-scans,
+     * re-encodes, resized copies), closest first. `distance` is the number
+     * of differing perceptual-hash bits (0-64).
+     */
+    findSimilar: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          maxDistance: z.number().int().min(0).max(32).default(10),
+          limit: z.number().int().min(1).max(100).default(20),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const result = await findOcrResult(input.id, ctx.user.id);
+        if (!result.perceptualHash) return [];
 
-          // Upload image to S3
-          const fileKey = `ocr/${ctx.user.id}/${nanoid()}-${input.fileName}`;
-          const { url: imageUrl } = await storagePut(
-            fileKey,
-            imageBuffer,
-            input.mimeType
+        try {
+          const similar = await findSimilarOcrResults(
+            ctx.user.id,
+            result.id,
+            result.perceptualHash,
+            input.maxDistance,
+            input.limit
           );
+          return similar.map(({ sha256, ...item }) => ({
+            ...item,
+            exactDuplicate: sha256 !== null && sha256 === result.sha256,
+          }));
+        } catch (error) {
+          console.error("[OCR] Failed to find similar results:", error);
+          throw new Error("Failed to find similar OCR results");
+        }
+      }),
 
-          // Save result to database
-          await saveOcrResult({
-            userId: ctx.user.id,
-            imageFileName: input.fileName,
-            imageUrl,
-            extractedText: ocrResult.text,
-            confidence: ocrResult.confidence,
+    /**
+     * Full-text search over the user's OCR history. Supports "quoted
+     * phrases"; every word must match (as a prefix).
+     */
+    search: protectedProcedure
+      .input(
+        z.object({
+          query: z.string().min(1).max(500),
+          dateFrom: z.date().optional(),
+          dateTo: z.date().optional(),
+          language: z.string().optional(),
+          minConfidence: z.number().min(0).max(100).optional(),
+          limit: z.number().int().min(1).max(100).default(20),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const parsed = parseSearchQuery(input.query);
+        if (parsed.phrases.length === 0 && parsed.terms.length === 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Search query is empty" });
+        }
+
+        try {
+          const rows = await searchOcrResults(ctx.user.id, {
+            booleanQuery: toBooleanQuery(parsed),
+            dateFrom: input.dateFrom,
+            dateTo: input.dateTo,
             language: input.language,
-            processingTimeMs: ocrResult.processingTimeMs,
+            minConfidence: input.minConfidence,
+            limit: input.limit,
+            offset: input.offset,
           });
 
-          return {
-            success: true,
-            text: ocrResult.text,
-            confidence: ocrResult.confidence,
-            processingTimeMs: ocrResult.processingTimeMs,
-            imageUrl,
+          return rows.map(({ extractedText, ...row }) => ({
+            ...row,
+            snippet: buildSnippet(extractedText, parsed),
+          }));
+        } catch (error) {
+          console.error("[OCR] Search failed:", error);
+          throw new Error("Failed to search OCR history");
+        }
+      }),
+
+    /**
+     * Get ordered page results of a multi-page OCR result
+     */
+    getPages: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        try {
+          return await getOcrPages(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to get pages:", error);
+          throw new Error("Failed to retrieve OCR pages");
+        }
+      }),
+
+    /**
+     * Get the labeled region-of-interest results of an OCR result
+     */
+    getRegions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        try {
+          return await getOcrRegions(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to get regions:", error);
+          throw new Error("Failed to retrieve OCR regions");
+        }
+      }),
+
+    /**
+     * Get the changes the user's dictionaries made to the machine output,
+     * each with the recognized text and its replacement
+     */
+    getCorrections: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        try {
+          return await getOcrCorrections(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to get corrections:", error);
+          throw new Error("Failed to retrieve OCR corrections");
+        }
+      }),
+
+    /**
+     * Get word/line/paragraph layout for an OCR result page
+     */
+    getLayout: protectedProcedure
+      .input(z.object({ id: z.number(), page: z.number().int().min(1).default(1) }))
+      .query(async ({ ctx, input }) => {
+        let layout;
+        try {
+          layout = await getOcrLayout(input.id, ctx.user.id, input.page);
+        } catch (error) {
+          console.error("[OCR] Failed to get layout:", error);
+          throw new Error("Failed to retrieve OCR layout");
+        }
+        if (!layout) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "OCR layout not found" });
+        }
+        return layout;
+      }),
+
+    /**
+     * Run an extraction template over a result's current text and layout.
+     * The typed fields are stored with the result, replacing earlier runs
+     * of the same template.
+     */
+    applyTemplate: protectedProcedure
+      .input(z.object({ id: z.number(), templateId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const result = await findOcrResult(input.id, ctx.user.id);
+
+        let template;
+        try {
+          template = await getExtractionTemplate(input.templateId, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to get extraction template:", error);
+          throw new Error("Failed to retrieve extraction template");
+        }
+        if (!template) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Extraction template not found" });
+        }
+
+        try {
+          const pages = await getOcrLayouts(input.id, ctx.user.id);
+          const fields = await applyExtractionTemplate(
+            template.fields,
+            result.extractedText,
+            pages,
+            createUserRegexBudget(ctx.user.id)
+          );
+          const extraction = {
+            ocrResultId: result.id,
+            templateId: template.id,
+            templateName: template.name,
+            status: summarizeExtraction(fields, template.fields),
+            fields,
           };
+          await saveOcrExtraction(extraction);
+          return extraction;
         } catch (error) {
-          console.error("[OCR] Processing failed:", error);
+          console.error("[OCR] Failed to apply extraction template:", error);
+          // A template pattern that ran out of time keeps its 422
+          if (error instanceof HttpError) throw toTrpcError(error);
+          throw new Error("Failed to apply extraction template");
+        }
+      }),
+
+    /**
+     * Stored template outputs for a result
+     */
+    getExtractions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        try {
+          return await getOcrExtractions(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to get extractions:", error);
+          throw new Error("Failed to retrieve extractions");
+        }
+      }),
+
+    /**
+     * Export an OCR result as searchable PDF, hOCR, ALTO, TSV or text.
+     * File content is base64 encoded; browsers can also use /api/ocr/:id/export.
+     */
+    export: protectedProcedure
+      .input(z.object({ id: z.number(), format: z.enum(OCR_EXPORT_FORMATS) }))
+      .query(async ({ ctx, input }) => {
+        let file;
+        try {
+          file = await exportOcrResult(input.id, ctx.user.id, input.format);
+        } catch (error) {
+          console.error("[OCR] Export failed:", error);
+          if (error instanceof HttpError) throw toTrpcError(error);
           throw new Error(
-            error instanceof Error ? error.message : "Failed to process image"
+            error instanceof Error ? error.message : "Failed to export OCR result"
           );
         }
+        if (!file) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "OCR result not found" });
+        }
+        return {
+          fileName: file.fileName,
+          mimeType: file.mimeType,
+          data: file.content.toString("base64"),
+        };
       }),
 
     /**
-     * Get user's OCR history
+     * Tables detected from the word boxes of every page of a result
      */
-    getHistory: protectedProcedure.query(async ({ ctx }) => {
-      try {
-        const results = await getUserOcrResults(ctx.user.id);
-        return results;
-      } catch (error) {
-        console.error("[OCR] Failed to get history:", error);
-        throw new Error("Failed to retrieve OCR history");
-      }
-    }),
+    getTables: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        let tables;
+        try {
+          tables = await getOcrTables(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Table detection failed:", error);
+          if (error instanceof HttpError) throw toTrpcError(error);
+          throw new Error(error instanceof Error ? error.message : "Failed to detect tables");
+        }
+        if (!tables) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "OCR result not found" });
+        }
+        return tables;
+      }),
+
+    /**
+     * Export detected tables as CSV, JSON or XLSX (base64 encoded).
+     * `table` selects one table by index; all tables are exported otherwise.
+     */
+    exportTable: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          format: z.enum(TABLE_EXPORT_FORMATS),
+          table: z.number().int().min(0).optional(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        let file;
+        try {
+          file = await exportOcrTables(input.id, ctx.user.id, input.format, input.table);
+        } catch (error) {
+          console.error("[OCR] Table export failed:", error);
+          if (error instanceof HttpError) throw toTrpcError(error);
+          throw new Error(error instanceof Error ? error.message : "Failed to export tables");
+        }
+        if (!file) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "OCR result not found" });
+        }
+        return {
+          fileName: file.fileName,
+          mimeType: file.mimeType,
+          data: file.content.toString("base64"),
+        };
+      }),
 
     /**
      * Delete OCR result
@@ -106,29 +675,30 @@ export const appRouter = router({
     deleteResult: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
+        let deleted;
         try {
-          await deleteOcrResult(input.id, ctx.user.id);
-          return { success: true };
+          deleted = await deleteOcrResult(input.id, ctx.user.id);
         } catch (error) {
           console.error("[OCR] Failed to delete result:", error);
           throw new Error("Failed to delete OCR result");
         }
+
+        // The row is already gone, so a failed image delete is only logged
+        for (const key of deleted.imageKeys) {
+          await storageDelete(key).catch(error =>
+            console.error(`[OCR] Failed to delete stored image ${key}:`, error)
+          );
+        }
+        return { success: true };
       }),
 
     /**
      * Process multiple images in batch
      */
-    processBatch: protectedProcedure
+    processBatch: ocrProcedure
       .input(
         z.object({
-          images: z.array(
-            z.object({
-              imageData: z.string(),
-              fileName: z.string().min(1),
-              mimeType: z.string(),
-              language: z.string().default("eng"),
-            })
-          ),
+          images: z.array(ocrImageInput),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -141,59 +711,28 @@ export const appRouter = router({
             // Decode base64 image
             const imageBuffer = Buffer.from(image.imageData, "base64");
 
-            // Validate image
-            const validation = validateImageFile(imageBuffer, image.mimeType);
-            if (!validation.valid) {
-              errors.push({
-                fileName: image.fileName,
-                error: validation.error || "Invalid image",
-              });
-              continue;
-            }
-
-            // Process image with OCR
-            const ocrResult = await processImageWithOcr(imageBuffer, image.language);
-
-            if (!ocrResult.success) {
-              errors.push({
-                fileName: image.fileName,
-                error: ocrResult.error || "OCR processing failed",
-              });
-              continue;
-            }
-
-            // Upload image to S3
-            const fileKey = `ocr/${ctx.user.id}/${nanoid()}-${image.fileName}`;
-            const { url: imageUrl } = await storagePut(
-              fileKey,
-              imageBuffer,
-              image.mimeType
-            );
-
-            // Save result to database
-            await saveOcrResult({
-              userId: ctx.user.id,
-              imageFileName: image.fileName,
-              imageUrl,
-              extractedText: ocrResult.text,
-              confidence: ocrResult.confidence,
+            const result = await recognizeAndSave(ctx.user.id, {
+              image: imageBuffer,
+              fileName: image.fileName,
+              mimeType: image.mimeType,
               language: image.language,
-              processingTimeMs: ocrResult.processingTimeMs,
+              engine: image.engine,
+              duplicates: image.duplicates,
+              preprocessing: resolvePreprocessingProfile(image.preprocessing),
+              rotation: image.rotation,
+              regions: image.regions,
+              parameters: image.parameters,
             });
 
-            results.push({
-              fileName: image.fileName,
-              text: ocrResult.text,
-              confidence: ocrResult.confidence,
-              processingTimeMs: ocrResult.processingTimeMs,
-              imageUrl,
-              success: true,
-            });
+            results.push({ ...result, success: true });
           } catch (error) {
             console.error("[OCR] Batch processing failed for", image.fileName, error);
             errors.push({
               fileName: image.fileName,
               error: error instanceof Error ? error.message : "Unknown error",
+              code: error instanceof HttpError ? error.code : undefined,
+              // Saved failed attempt, for ocr.retry
+              resultId: error instanceof OcrAttemptError ? error.resultId : undefined,
             });
           }
         }
@@ -206,6 +745,130 @@ export const appRouter = router({
           totalFailed: errors.length,
         };
       }),
+
+    /**
+     * Queue images for background OCR; poll ocr.getJob or subscribe to
+     * ocr.onJobProgress for per-item progress
+     */
+    submitJob: ocrProcedure
+      .input(
+        z.object({
+          images: z.array(ocrImageInput).min(1),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const items = [];
+
+        for (const image of input.images) {
+          const item = {
+            fileName: image.fileName,
+            mimeType: image.mimeType,
+            language: image.language,
+            engine: getOcrEngine(image.engine).name,
+            duplicates: image.duplicates,
+            preprocessing: resolvePreprocessingProfile(image.preprocessing),
+            rotation: image.rotation,
+            regions: image.regions?.length ? image.regions : null,
+            parameters: image.parameters ?? null,
+          };
+          try {
+            const imageBuffer = Buffer.from(image.imageData, "base64");
+
+            // Reject invalid images up front rather than queueing them
+            const validation = await validateImageFile(imageBuffer, image.mimeType);
+            if (!validation.valid) {
+              items.push({
+                ...item,
+                status: "failed" as const,
+                error: validation.error.message,
+              });
+              continue;
+            }
+
+            const stored = await storeOcrImage(
+              ctx.user.id,
+              image.fileName,
+              imageBuffer,
+              image.mimeType
+            );
+            items.push({ ...item, imageKey: stored.key, imageUrl: stored.url });
+          } catch (error) {
+            console.error("[OCR] Failed to queue", image.fileName, error);
+            items.push({
+              ...item,
+              status: "failed" as const,
+              error: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        }
+
+        let jobId;
+        try {
+          jobId = await createOcrJob(ctx.user.id, items);
+        } catch (error) {
+          console.error("[OCR] Failed to submit job:", error);
+          throw new Error("Failed to submit OCR job");
+        }
+        if (!jobId) {
+          throw new Error("Failed to submit OCR job: database not available");
+        }
+
+        await finalizeOcrJob(jobId);
+        void notifyOcrJobQueue();
+
+        return { success: true, jobId };
+      }),
+
+    /**
+     * Get an OCR job with per-item status and progress
+     */
+    getJob: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        let job;
+        try {
+          job = await getOcrJob(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to get job:", error);
+          throw new Error("Failed to retrieve OCR job");
+        }
+        if (!job) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "OCR job not found" });
+        }
+        return job;
+      }),
+
+    /**
+     * Cancel an OCR job; items already being recognized still complete
+     */
+    cancelJob: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        let cancelled;
+        try {
+          cancelled = await cancelOcrJob(input.id, ctx.user.id);
+        } catch (error) {
+          console.error("[OCR] Failed to cancel job:", error);
+          throw new Error("Failed to cancel OCR job");
+        }
+        if (!cancelled) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "OCR job not found or already finished",
+          });
+        }
+        notifyOcrJobUpdated(input.id);
+        return { success: true };
+      }),
+
+    /**
+     * Stream job snapshots until the job finishes
+     */
+    onJobProgress: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .subscription(async function* ({ ctx, input, signal }) {
+        yield* watchOcrJob(input.id, ctx.user.id, signal);
+      }),
   }),
 });
 
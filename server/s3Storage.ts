@@ -0,0 +1,89 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { ENV } from "./_core/env";
+import type { StorageBackend } from "./storage";
+
+/**
+ * Storage in an S3-compatible bucket (AWS S3, MinIO, Ceph, ...), configured
+ * with S3_BUCKET, S3_REGION and, for other providers, S3_ENDPOINT and
+ * S3_FORCE_PATH_STYLE. Without S3_ACCESS_KEY_ID the SDK's default
+ * credential chain is used. The bucket can stay private: stored objects
+ * are linked through /api/storage, which redirects to presigned URLs
+ * valid for S3_URL_EXPIRES_SECONDS.
+ */
+
+let client: S3Client | null = null;
+
+function getBucket() {
+  if (!ENV.s3Bucket) {
+    throw new Error("S3 storage not configured: set S3_BUCKET");
+  }
+  return ENV.s3Bucket;
+}
+
+function getClient() {
+  if (!client) {
+    client = new S3Client({
+      region: ENV.s3Region,
+      endpoint: ENV.s3Endpoint || undefined,
+      forcePathStyle: ENV.s3ForcePathStyle,
+      credentials: ENV.s3AccessKeyId
+        ? { accessKeyId: ENV.s3AccessKeyId, secretAccessKey: ENV.s3SecretAccessKey }
+        : undefined,
+    });
+  }
+  return client;
+}
+
+export const s3Storage: StorageBackend = {
+  name: "s3",
+
+  async put(key, data, contentType) {
+    await getClient().send(
+      new PutObjectCommand({ Bucket: getBucket(), Key: key, Body: data, ContentType: contentType })
+    );
+    return undefined;
+  },
+
+  async putFile(key, filePath, contentType) {
+    const { size } = await stat(filePath);
+    await getClient().send(
+      new PutObjectCommand({
+        Bucket: getBucket(),
+        Key: key,
+        // Streamed bodies need their length up front
+        Body: createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType,
+      })
+    );
+    return undefined;
+  },
+
+  getUrl: key =>
+    getSignedUrl(getClient(), new GetObjectCommand({ Bucket: getBucket(), Key: key }), {
+      expiresIn: ENV.s3UrlExpiresSeconds,
+    }),
+
+  async read(key) {
+    const response = await getClient().send(
+      new GetObjectCommand({ Bucket: getBucket(), Key: key })
+    );
+    if (!response.Body) {
+      throw new Error(`Storage download failed: ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  },
+
+  async delete(key) {
+    // S3 deletes are idempotent; a missing key is not an error
+    await getClient().send(new DeleteObjectCommand({ Bucket: getBucket(), Key: key }));
+  },
+};
@@ -0,0 +1,189 @@
+import type { OcrLayout } from "../drizzle/schema";
+
+/**
+ * Minimal PDF writer for searchable PDFs: each page is the scanned image
+ * with the recognized words drawn as invisible text (render mode 3) over
+ * their bounding boxes.
+ *
+ * Text uses a glyph-less Type0 font with Identity-H encoding and a
+ * ToUnicode map, so any BMP character (including Vietnamese) is searchable
+ * and copyable without embedding a real font.
+ */
+
+export type SearchablePdfPage = {
+  /** JPEG encoded page image, same pixel size as `layout.width/height`. */
+  jpeg: Buffer;
+  channels: number;
+  layout: OcrLayout;
+};
+
+// Nominal glyph width of the glyph-less font, in 1/1000 text space units.
+const GLYPH_WIDTH = 500;
+
+const TO_UNICODE_CMAP = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+1 beginbfrange
+<0000> <FFFF> <0000>
+endbfrange
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+function toUtf16Hex(text: string) {
+  let hex = "";
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, "0");
+  }
+  return hex.toUpperCase();
+}
+
+function buildTextLayer(layout: OcrLayout, scale: number, pageHeight: number) {
+  const commands: string[] = ["BT", "3 Tr"];
+
+  for (const block of layout.blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const text = word.text.trim();
+          if (!text) continue;
+
+          const { x0, y0, x1, y1 } = word.bbox;
+          const fontSize = Math.max((y1 - y0) * scale, 1);
+          const naturalWidth = (text.length * GLYPH_WIDTH * fontSize) / 1000;
+          const horizontalScale = (100 * (x1 - x0) * scale) / naturalWidth;
+
+          commands.push(
+            `/F1 ${formatNumber(fontSize)} Tf`,
+            `${formatNumber(horizontalScale)} Tz`,
+            `1 0 0 1 ${formatNumber(x0 * scale)} ${formatNumber(pageHeight - y1 * scale)} Tm`,
+            `<${toUtf16Hex(text)}> Tj`
+          );
+        }
+      }
+    }
+  }
+
+  commands.push("ET");
+  return commands.join("\n");
+}
+
+/**
+ * Build a searchable PDF from page images and their layouts
+ * @param dpi - Resolution the page images were recognized at
+ */
+export function buildSearchablePdf(pages: SearchablePdfPage[], dpi: number): Buffer {
+  const objects: Buffer[] = [];
+  const addObject = (body: string | Buffer) => {
+    objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+    return objects.length;
+  };
+  const streamObject = (dict: string, data: Buffer) =>
+    Buffer.concat([
+      Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream", "latin1"),
+    ]);
+
+  // Reserve catalog and page tree so pages can reference them.
+  const catalogId = addObject("");
+  const pagesId = addObject("");
+
+  const toUnicodeId = addObject(
+    streamObject("", Buffer.from(TO_UNICODE_CMAP, "latin1"))
+  );
+  const descriptorId = addObject(
+    "<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 4 " +
+      `/FontBBox [0 0 ${GLYPH_WIDTH} 1000] /ItalicAngle 0 /Ascent 1000 ` +
+      "/Descent 0 /CapHeight 1000 /StemV 80 >>"
+  );
+  const cidFontId = addObject(
+    "<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont " +
+      "/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> " +
+      `/FontDescriptor ${descriptorId} 0 R /DW ${GLYPH_WIDTH} /CIDToGIDMap /Identity >>`
+  );
+  const fontId = addObject(
+    "<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H " +
+      `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`
+  );
+
+  const scale = 72 / dpi;
+  const pageIds: number[] = [];
+
+  for (const page of pages) {
+    const { width, height } = page.layout;
+    const pageWidth = width * scale;
+    const pageHeight = height * scale;
+
+    const imageId = addObject(
+      streamObject(
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+          `/ColorSpace /${page.channels === 1 ? "DeviceGray" : "DeviceRGB"} ` +
+          "/BitsPerComponent 8 /Filter /DCTDecode",
+        page.jpeg
+      )
+    );
+
+    const content = [
+      `q ${formatNumber(pageWidth)} 0 0 ${formatNumber(pageHeight)} 0 0 cm /Im0 Do Q`,
+      buildTextLayer(page.layout, scale, pageHeight),
+    ].join("\n");
+    const contentId = addObject(streamObject("", Buffer.from(content, "latin1")));
+
+    pageIds.push(
+      addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R ` +
+          `/MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}] ` +
+          `/Resources << /Font << /F1 ${fontId} 0 R >> /XObject << /Im0 ${imageId} 0 R >> >> ` +
+          `/Contents ${contentId} 0 R >>`
+      )
+    );
+  }
+
+  objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, "latin1");
+  objects[pagesId - 1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    "latin1"
+  );
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(value => `${String(value).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+  return Buffer.concat(chunks);
+}
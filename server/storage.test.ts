@@ -0,0 +1,103 @@
+import express from "express";
+import { mkdtemp, rm } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+import { getStorageBackend, storageDelete, storageGet, storagePut, storageRead } from "./storage";
+import { registerStorageRoutes } from "./storageRoutes";
+
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn(async () => ({ id: 1, role: "user" })) },
+}));
+
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const original = { ...ENV };
+
+let storageDir = "";
+let baseUrl = "";
+let server: ReturnType<ReturnType<typeof express>["listen"]>;
+
+beforeAll(async () => {
+  storageDir = await mkdtemp(path.join(tmpdir(), "storage-test-"));
+  ENV.storageBackend = "local";
+  ENV.localStorageDir = storageDir;
+
+  const app = express();
+  registerStorageRoutes(app);
+  server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  Object.assign(ENV, original);
+  await new Promise(resolve => server.close(resolve));
+  await rm(storageDir, { recursive: true, force: true });
+});
+
+describe("Storage", () => {
+  it("should pick the forge backend only when its credentials are set", () => {
+    ENV.storageBackend = "";
+    expect(getStorageBackend().name).toBe("local");
+    expect(getStorageBackend("s3").name).toBe("s3");
+    expect(() => getStorageBackend("ftp")).toThrow("Unknown storage backend: ftp");
+    ENV.storageBackend = "local";
+  });
+
+  it("should store, read and delete objects on disk", async () => {
+    const stored = await storagePut("/ocr/1/abc-scan.png", png, "image/png");
+
+    expect(stored).toEqual({ key: "ocr/1/abc-scan.png", url: "/api/storage/ocr/1/abc-scan.png" });
+    expect(await storageRead(stored.key)).toEqual(png);
+    expect((await storageGet(stored.key)).url).toBe(stored.url);
+
+    await storageDelete(stored.key);
+    await storageDelete(stored.key);
+    await expect(storageRead(stored.key)).rejects.toThrow("Stored object not found");
+  });
+
+  it("should reject keys outside the storage directory", async () => {
+    await expect(storagePut("ocr/../../escape.txt", "x")).rejects.toThrow("Invalid storage key");
+  });
+
+  it("should reject keys with empty, . or .. segments on every backend", async () => {
+    for (const key of ["ocr/1/abc-/../../2/evil.png", "ocr/1/./evil.png", "ocr//1/evil.png"]) {
+      await expect(storagePut(key, "x")).rejects.toThrow("Invalid storage key");
+      ENV.storageBackend = "s3";
+      await expect(storageRead(key)).rejects.toThrow("Invalid storage key");
+      ENV.storageBackend = "local";
+    }
+    await expect(storageRead("ocr/2/evil.png")).rejects.toThrow("Stored object not found");
+  });
+
+  describe("GET /api/storage/*", () => {
+    it("should serve the user's objects with their sniffed content type", async () => {
+      const { url } = await storagePut("ocr/1/def-scan.html", png, "text/html");
+
+      const response = await fetch(baseUrl + url);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("image/png");
+      expect(Buffer.from(await response.arrayBuffer())).toEqual(png);
+    });
+
+    it("should hide other users' objects from everyone but admins", async () => {
+      const { url } = await storagePut("ocr/2/ghi-scan.png", png, "image/png");
+
+      expect((await fetch(baseUrl + url)).status).toBe(404);
+      expect((await fetch(`${baseUrl}/api/storage/ocr/1/..%2F2/ghi-scan.png`)).status).toBe(404);
+
+      vi.mocked(sdk.authenticateRequest).mockResolvedValueOnce({ id: 3, role: "admin" } as never);
+      expect((await fetch(baseUrl + url)).status).toBe(200);
+    });
+
+    it("should require authentication", async () => {
+      vi.mocked(sdk.authenticateRequest).mockRejectedValueOnce(new Error("no session"));
+
+      expect((await fetch(`${baseUrl}/api/storage/ocr/1/def-scan.html`)).status).toBe(401);
+    });
+  });
+});
@@ -1,99 +1,134 @@
+import { BadRequestError } from '@shared/_core/errors';
+import type { Readable } from 'node:stream';
 import { ENV } from './_core/env';
+import { diskStorage } from './diskStorage';
+import { forgeStorage } from './forgeStorage';
+import { s3Storage } from './s3Storage';
 
-type StorageConfig = { baseUrl: string; apiKey: string };
+/**
+ * Object storage for uploaded images and rendered pages. STORAGE_BACKEND
+ * picks the backend: "forge" (the Forge storage proxy), "s3" (any
+ * S3-compatible bucket) or "local" (a directory on disk). Unset, it is
+ * forge when the proxy credentials are configured and local otherwise.
+ * Objects of the s3 and local backends are linked through the
+ * authenticated /api/storage route (see storageRoutes.ts).
+ */
 
-function getStorageConfig(): StorageConfig {
-  const baseUrl = ENV.forgeApiUrl;
-  const apiKey = ENV.forgeApiKey;
+export const STORAGE_BACKEND_NAMES = ["forge", "s3", "local"] as const;
+export type StorageBackendName = (typeof STORAGE_BACKEND_NAMES)[number];
 
-  if (!baseUrl || !apiKey) {
-    throw new Error(
-      "Storage proxy credentials missing: set BUILT_IN_FORGE_API_URL and BUILT_IN_FORGE_API_KEY"
-    );
-  }
+export type StorageData = Buffer | Uint8Array | string;
 
-  return { baseUrl: baseUrl.replace(/\/+$/, ""), apiKey };
-}
+/** An object read from a backend without download URLs. */
+export type StorageObjectStream = { body: Readable; contentType: string; size: number };
 
-function buildUploadUrl(baseUrl: string, relKey: string): URL {
-  const url = new URL("v1/storage/upload", ensureTrailingSlash(baseUrl));
-  url.searchParams.set("path", normalizeKey(relKey));
-  return url;
-}
+export type StorageBackend = {
+  name: StorageBackendName;
+  /**
+   * @returns URL of the stored object, or undefined to link it through
+   * /api/storage
+   */
+  put(key: string, data: StorageData, contentType: string): Promise<string | undefined>;
+  /** Store a file from disk without reading it into memory. */
+  putFile(key: string, filePath: string, contentType: string): Promise<string | undefined>;
+  /** Download URL, possibly short-lived; backends without one implement open. */
+  getUrl?(key: string): Promise<string>;
+  open?(key: string): Promise<StorageObjectStream>;
+  read(key: string): Promise<Buffer>;
+  /** Deleting a missing object succeeds. */
+  delete(key: string): Promise<void>;
+};
 
-async function buildDownloadUrl(
-  baseUrl: string,
-  relKey: string,
-  apiKey: string
-): Promise<string> {
-  const downloadApiUrl = new URL(
-    "v1/storage/downloadUrl",
-    ensureTrailingSlash(baseUrl)
-  );
-  downloadApiUrl.searchParams.set("path", normalizeKey(relKey));
-  const response = await fetch(downloadApiUrl, {
-    method: "GET",
-    headers: buildAuthHeaders(apiKey),
-  });
-  return (await response.json()).url;
-}
+/** Path of the authenticated route serving stored objects. */
+export const STORAGE_ROUTE_PREFIX = "/api/storage/";
 
-function ensureTrailingSlash(value: string): string {
-  return value.endsWith("/") ? value : `${value}/`;
+/**
+ * Whether a key is a plain relative path: no empty, "." or ".." segments
+ */
+export function isSafeStorageKey(key: string) {
+  return key
+    .split("/")
+    .every(segment => segment !== "" && segment !== "." && segment !== ".." && !segment.includes("\0"));
 }
 
+/**
+ * @throws HttpError 400 for keys that are not plain relative paths
+ */
 function normalizeKey(relKey: string): string {
-  return relKey.replace(/^\/+/, "");
+  const key = relKey.replace(/^\/+/, "");
+  if (!isSafeStorageKey(key)) {
+    throw BadRequestError("Invalid storage key");
+  }
+  return key;
+}
+
+/**
+ * App URL of a stored object, e.g. /api/storage/ocr/1/abc-scan.png
+ */
+export function storageRouteUrl(key: string) {
+  return STORAGE_ROUTE_PREFIX + key.split("/").map(encodeURIComponent).join("/");
 }
 
-function toFormData(
-  data: Buffer | Uint8Array | string,
-  contentType: string,
-  fileName: string
-): FormData {
-  const blob =
-    typeof data === "string"
-      ? new Blob([data], { type: contentType })
-      : new Blob([data as any], { type: contentType });
-  const form = new FormData();
-  form.append("file", blob, fileName || "file");
-  return form;
+const backends: Record<StorageBackendName, StorageBackend> = {
+  forge: forgeStorage,
+  s3: s3Storage,
+  local: diskStorage,
+};
+
+function isStorageBackendName(value: string): value is StorageBackendName {
+  return (STORAGE_BACKEND_NAMES as readonly string[]).includes(value);
 }
 
-function buildAuthHeaders(apiKey: string): HeadersInit {
-  return { Authorization: `Bearer ${apiKey}` };
+/**
+ * The configured backend; defaults to the deployment's STORAGE_BACKEND
+ */
+export function getStorageBackend(name?: string): StorageBackend {
+  const backendName =
+    name || ENV.storageBackend || (ENV.forgeApiUrl && ENV.forgeApiKey ? "forge" : "local");
+  if (!isStorageBackendName(backendName)) {
+    throw new Error(
+      `Unknown storage backend: ${backendName}. Available: ${STORAGE_BACKEND_NAMES.join(", ")}`
+    );
+  }
+  return backends[backendName];
 }
 
 export async function storagePut(
   relKey: string,
-  data: Buffer | Uint8Array | string,
+  data: StorageData,
   contentType = "application/octet-stream"
 ): Promise<{ key: string; url: string }> {
-  const { baseUrl, apiKey } = getStorageConfig();
   const key = normalizeKey(relKey);
-  const uploadUrl = buildUploadUrl(baseUrl, key);
-  const formData = toFormData(data, contentType, key.split("/").pop() ?? key);
-  const response = await fetch(uploadUrl, {
-    method: "POST",
-    headers: buildAuthHeaders(apiKey),
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const message = await response.text().catch(() => response.statusText);
-    throw new Error(
-      `Storage upload failed (${response.status} ${response.statusText}): ${message}`
-    );
-  }
-  const url = (await response.json()).url;
-  return { key, url };
+  const url = await getStorageBackend().put(key, data, contentType);
+  return { key, url: url ?? storageRouteUrl(key) };
+}
+
+/**
+ * Upload a file from disk; the body is streamed rather than read into memory
+ */
+export async function storagePutFile(
+  relKey: string,
+  filePath: string,
+  contentType = "application/octet-stream"
+): Promise<{ key: string; url: string }> {
+  const key = normalizeKey(relKey);
+  const url = await getStorageBackend().putFile(key, filePath, contentType);
+  return { key, url: url ?? storageRouteUrl(key) };
 }
 
 export async function storageGet(relKey: string): Promise<{ key: string; url: string; }> {
-  const { baseUrl, apiKey } = getStorageConfig();
   const key = normalizeKey(relKey);
+  const backend = getStorageBackend();
   return {
     key,
-    url: await buildDownloadUrl(baseUrl, key, apiKey),
+    url: backend.getUrl ? await backend.getUrl(key) : storageRouteUrl(key),
   };
 }
+
+export async function storageRead(relKey: string): Promise<Buffer> {
+  return getStorageBackend().read(normalizeKey(relKey));
+}
+
+export async function storageDelete(relKey: string): Promise<void> {
+  return getStorageBackend().delete(normalizeKey(relKey));
+}
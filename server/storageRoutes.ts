@@ -0,0 +1,64 @@
+import type { Express, Request, Response } from "express";
+import { HttpError } from "@shared/_core/errors";
+import type { User } from "../drizzle/schema";
+import { sdk } from "./_core/sdk";
+import { STORAGE_ROUTE_PREFIX, getStorageBackend, isSafeStorageKey } from "./storage";
+
+/**
+ * Whether a user may download a stored object. OCR images live under
+ * ocr/<userId>/ (see ocrPipeline.ts); admins may read any key.
+ */
+export function canReadStorageKey(user: Pick<User, "id" | "role">, key: string) {
+  if (!isSafeStorageKey(key)) return false;
+  const segments = key.split("/");
+  return user.role === "admin" || (segments[0] === "ocr" && segments[1] === String(user.id));
+}
+
+export function registerStorageRoutes(app: Express) {
+  // Stored objects of the s3 and local backends, e.g. /api/storage/ocr/1/abc-scan.png
+  app.get(`${STORAGE_ROUTE_PREFIX}*`, async (req: Request, res: Response) => {
+    let user;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const key = req.params[0];
+    // Other users' objects are reported missing rather than forbidden
+    if (!key || !canReadStorageKey(user, key)) {
+      res.status(404).json({ error: "Stored object not found" });
+      return;
+    }
+
+    try {
+      const backend = getStorageBackend();
+      if (!backend.open) {
+        // Private buckets hand out short-lived presigned URLs
+        res.redirect(302, await backend.getUrl!(key));
+        return;
+      }
+
+      const object = await backend.open(key);
+      res.status(200).set({
+        "Content-Type": object.contentType,
+        "Content-Length": String(object.size),
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      });
+      object.body.on("error", error => {
+        console.error("[Storage] Download failed", error);
+        res.destroy(error);
+      });
+      object.body.pipe(res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Storage] Download failed", error);
+      res.status(500).json({ error: "Storage download failed" });
+    }
+  });
+}
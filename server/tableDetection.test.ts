@@ -0,0 +1,117 @@
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import type { OcrLayout, OcrLayoutWord } from "../drizzle/schema";
+import { detectTables } from "./tableDetection";
+import { buildCsv, toSpreadsheetValue } from "./tableExport";
+import { buildXlsx, columnName } from "./xlsx";
+
+function word(text: string, x0: number, y0: number): OcrLayoutWord {
+  return { text, confidence: 90, bbox: { x0, y0, x1: x0 + text.length * 10, y1: y0 + 20 } };
+}
+
+// Each column in its own block, as Tesseract often returns tables
+function layoutOf(columns: OcrLayoutWord[][]): OcrLayout {
+  return {
+    width: 800,
+    height: 600,
+    confidence: 90,
+    blocks: columns.map(words => ({
+      text: "",
+      confidence: 90,
+      bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
+      blockType: "FLOWING_TEXT",
+      paragraphs: [
+        {
+          text: "",
+          confidence: 90,
+          bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
+          lines: words.map(w => ({ ...w, words: [w] })),
+        },
+      ],
+    })),
+  };
+}
+
+function unzip(zip: Buffer) {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString();
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(zip.subarray(start, start + size)).toString());
+    offset = start + size;
+  }
+  return files;
+}
+
+describe("Table Detection", () => {
+  const layout = layoutOf([
+    [word("Price", 20, 10), word("list", 80, 10)],
+    [word("Item", 20, 60), word("Apples", 20, 90), word("Pears", 20, 120), word("Kiwi", 20, 150)],
+    [word("Qty", 300, 60), word("12", 300, 90), word("3", 310, 120), word("40", 300, 150)],
+    [
+      word("Price", 500, 60),
+      word("1,250.00", 500, 90),
+      word("9.50", 520, 120),
+      word("0.75", 520, 150),
+    ],
+    [word("Thank", 20, 300), word("you", 80, 300)],
+  ]);
+
+  it("should rebuild rows and columns from word boxes", () => {
+    const tables = detectTables(layout, 2);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].pageNumber).toBe(2);
+    expect(tables[0].rows).toEqual([
+      ["Item", "Qty", "Price"],
+      ["Apples", "12", "1,250.00"],
+      ["Pears", "3", "9.50"],
+      ["Kiwi", "40", "0.75"],
+    ]);
+    expect(tables[0].bbox).toEqual({ x0: 20, y0: 60, x1: 580, y1: 170 });
+  });
+
+  it("should leave cells empty when a row has no word in a column", () => {
+    const sparse = layoutOf([
+      [word("Mon", 20, 10), word("Tue", 20, 40), word("Wed", 20, 70)],
+      [word("8h", 200, 10), word("6h", 200, 70)],
+      [word("ok", 400, 10), word("late", 400, 40)],
+    ]);
+    expect(detectTables(sparse)[0].rows).toEqual([
+      ["Mon", "8h", "ok"],
+      ["Tue", "", "late"],
+      ["Wed", "6h", ""],
+    ]);
+  });
+
+  it("should not report plain paragraphs as tables", () => {
+    const prose = layoutOf([[word("Just", 20, 10), word("text", 70, 10), word("here", 20, 40)]]);
+    expect(detectTables(prose)).toEqual([]);
+  });
+
+  it("should export CSV with quoting and a UTF-8 BOM", () => {
+    const csv = buildCsv([
+      { pageNumber: 1, bbox: { x0: 0, y0: 0, x1: 0, y1: 0 }, rows: [["Tên", 'A "b"'], ["1,5", "x"]] },
+    ]);
+    expect(csv).toBe('﻿Tên,"A ""b"""\r\n"1,5",x\r\n');
+  });
+
+  it("should build an XLSX workbook with numeric cells", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(27)).toBe("AB");
+    expect(toSpreadsheetValue("1,250.00")).toBe(1250);
+    expect(toSpreadsheetValue("12 kg")).toBe("12 kg");
+
+    const files = unzip(
+      buildXlsx([{ name: "Page 1 Table 1", rows: [["Item", "Price"], ["Apples", 1250]] }])
+    );
+    expect([...files.keys()]).toContain("xl/worksheets/sheet1.xml");
+    expect(files.get("xl/workbook.xml")).toContain('name="Page 1 Table 1"');
+    const sheet = files.get("xl/worksheets/sheet1.xml");
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Apples</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>1250</v></c>');
+  });
+});
@@ -0,0 +1,161 @@
+import type { OcrBbox, OcrLayout, OcrLayoutWord } from "../drizzle/schema";
+
+/**
+ * Table detection from word bounding boxes. Words are grouped into visual
+ * rows, rows are split into cells at wide horizontal gaps, and runs of
+ * consecutive multi-cell rows become tables whose columns are the merged
+ * x-extents of their cells.
+ */
+
+export type DetectedTable = {
+  pageNumber: number;
+  bbox: OcrBbox;
+  /** Cell text, row-major; empty string for empty cells. */
+  rows: string[][];
+};
+
+export type TableDetectionOptions = {
+  /** Gap between words, in multiples of the row's median word height, that starts a new cell. */
+  gapFactor?: number;
+  minRows?: number;
+  minColumns?: number;
+};
+
+type Row = { words: OcrLayoutWord[]; y0: number; y1: number };
+type Cell = { x0: number; x1: number; words: OcrLayoutWord[] };
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+function allWords(layout: OcrLayout) {
+  return layout.blocks.flatMap(block =>
+    block.paragraphs.flatMap(paragraph =>
+      paragraph.lines.flatMap(line => line.words.filter(word => word.text.trim()))
+    )
+  );
+}
+
+/**
+ * Group words into rows across blocks; Tesseract often puts each table
+ * column in its own block, so block structure cannot be trusted
+ */
+function groupRows(words: OcrLayoutWord[]): Row[] {
+  const sorted = [...words].sort(
+    (a, b) => (a.bbox.y0 + a.bbox.y1) / 2 - (b.bbox.y0 + b.bbox.y1) / 2
+  );
+  const rows: Row[] = [];
+  for (const word of sorted) {
+    const center = (word.bbox.y0 + word.bbox.y1) / 2;
+    const row = rows[rows.length - 1];
+    if (row && center >= row.y0 && center <= row.y1) {
+      row.words.push(word);
+      row.y0 = Math.min(row.y0, word.bbox.y0);
+      row.y1 = Math.max(row.y1, word.bbox.y1);
+    } else {
+      rows.push({ words: [word], y0: word.bbox.y0, y1: word.bbox.y1 });
+    }
+  }
+  for (const row of rows) row.words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  return rows;
+}
+
+function splitCells(row: Row, gapFactor: number): Cell[] {
+  const height = median(row.words.map(word => word.bbox.y1 - word.bbox.y0));
+  const minGap = Math.max(height * gapFactor, 1);
+  const cells: Cell[] = [];
+  for (const word of row.words) {
+    const cell = cells[cells.length - 1];
+    if (cell && word.bbox.x0 - cell.x1 < minGap) {
+      cell.words.push(word);
+      cell.x1 = Math.max(cell.x1, word.bbox.x1);
+    } else {
+      cells.push({ x0: word.bbox.x0, x1: word.bbox.x1, words: [word] });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Merge overlapping cell extents into column bands, left to right
+ */
+function columnBands(cells: Cell[]) {
+  const bands: { x0: number; x1: number }[] = [];
+  for (const cell of [...cells].sort((a, b) => a.x0 - b.x0)) {
+    const band = bands[bands.length - 1];
+    if (band && cell.x0 <= band.x1) {
+      band.x1 = Math.max(band.x1, cell.x1);
+    } else {
+      bands.push({ x0: cell.x0, x1: cell.x1 });
+    }
+  }
+  return bands;
+}
+
+function buildTable(
+  pageNumber: number,
+  rows: { row: Row; cells: Cell[] }[],
+  minColumns: number
+): DetectedTable | null {
+  const bands = columnBands(rows.flatMap(({ cells }) => cells));
+  if (bands.length < minColumns) return null;
+
+  const grid = rows.map(({ cells }) => {
+    const texts = bands.map(() => [] as string[]);
+    for (const cell of cells) {
+      const center = (cell.x0 + cell.x1) / 2;
+      const column = bands.findIndex(band => center >= band.x0 && center <= band.x1);
+      texts[column === -1 ? bands.length - 1 : column].push(
+        cell.words.map(word => word.text).join(" ")
+      );
+    }
+    return texts.map(parts => parts.join(" "));
+  });
+
+  return {
+    pageNumber,
+    bbox: {
+      x0: bands[0].x0,
+      y0: rows[0].row.y0,
+      x1: bands[bands.length - 1].x1,
+      y1: rows[rows.length - 1].row.y1,
+    },
+    rows: grid,
+  };
+}
+
+/**
+ * Detect tables on one page layout, top to bottom
+ */
+export function detectTables(
+  layout: OcrLayout,
+  pageNumber = 1,
+  options: TableDetectionOptions = {}
+): DetectedTable[] {
+  const { gapFactor = 1.5, minRows = 2, minColumns = 2 } = options;
+  const rows = groupRows(allWords(layout)).map(row => ({
+    row,
+    cells: splitCells(row, gapFactor),
+  }));
+
+  const tables: DetectedTable[] = [];
+  let run: typeof rows = [];
+  const flush = () => {
+    if (run.length >= minRows) {
+      const table = buildTable(pageNumber, run, minColumns);
+      if (table) tables.push(table);
+    }
+    run = [];
+  };
+
+  for (const entry of rows) {
+    if (entry.cells.length >= 2) {
+      run.push(entry);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return tables;
+}
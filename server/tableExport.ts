@@ -0,0 +1,110 @@
+import { BadRequestError, NotFoundError } from "@shared/_core/errors";
+import { getOcrLayouts, getOcrResultById } from "./db";
+import type { OcrExportFile } from "./ocrExport";
+import { detectTables, type DetectedTable } from "./tableDetection";
+import { buildXlsx } from "./xlsx";
+
+/**
+ * Export tables detected in an OCR result's layout as CSV, JSON or XLSX
+ */
+
+export const TABLE_EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+export type TableExportFormat = (typeof TABLE_EXPORT_FORMATS)[number];
+
+const MIME_TYPES: Record<TableExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Plain or comma-grouped decimals become numeric spreadsheet cells.
+const NUMERIC_CELL = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?$/;
+
+function csvField(value: string) {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * RFC 4180 CSV; multiple tables are separated by an empty line
+ */
+export function buildCsv(tables: DetectedTable[]) {
+  const body = tables
+    .map(table => table.rows.map(row => row.map(csvField).join(",")).join("\r\n"))
+    .join("\r\n\r\n");
+  // BOM so spreadsheet apps read the file as UTF-8
+  return "\uFEFF" + body + "\r\n";
+}
+
+export function toSpreadsheetValue(cell: string): string | number {
+  return NUMERIC_CELL.test(cell) ? Number(cell.replace(/,/g, "")) : cell;
+}
+
+/**
+ * Tables detected on every page of a user's OCR result, in page order;
+ * undefined if the result does not exist
+ * @throws HttpError 404 when the result has no stored layout
+ */
+export async function getOcrTables(
+  id: number,
+  userId: number
+): Promise<DetectedTable[] | undefined> {
+  const result = await getOcrResultById(id, userId);
+  if (!result) return undefined;
+  return detectResultTables(id, userId);
+}
+
+async function detectResultTables(id: number, userId: number) {
+  const pages = await getOcrLayouts(id, userId);
+  if (pages.length === 0) {
+    throw NotFoundError("No layout stored for this result; table detection requires layout data");
+  }
+  return pages.flatMap(({ pageNumber, layout }) => detectTables(layout, pageNumber));
+}
+
+/**
+ * Build a table export file; undefined if the result does not exist
+ * @param tableIndex - Export only this table (0-based); all tables if omitted
+ * @throws HttpError 404 without layout or tables, 400 for a table index out of range
+ */
+export async function exportOcrTables(
+  id: number,
+  userId: number,
+  format: TableExportFormat,
+  tableIndex?: number
+): Promise<OcrExportFile | undefined> {
+  const result = await getOcrResultById(id, userId);
+  if (!result) return undefined;
+
+  const detected = await detectResultTables(id, userId);
+  if (detected.length === 0) {
+    throw NotFoundError("No tables detected in this result");
+  }
+  if (tableIndex !== undefined && !detected[tableIndex]) {
+    throw BadRequestError(`Table ${tableIndex + 1} not found; ${detected.length} detected`);
+  }
+  const tables = tableIndex === undefined ? detected : [detected[tableIndex]];
+
+  const baseName = result.imageFileName.replace(/\.[^.]+$/, "") || "ocr";
+  const suffix = tableIndex === undefined ? "tables" : `table-${tableIndex + 1}`;
+  const file = (content: string | Buffer): OcrExportFile => ({
+    fileName: `${baseName}-${suffix}.${format}`,
+    mimeType: MIME_TYPES[format],
+    content: typeof content === "string" ? Buffer.from(content, "utf-8") : content,
+  });
+
+  switch (format) {
+    case "csv":
+      return file(buildCsv(tables));
+    case "json":
+      return file(JSON.stringify({ fileName: result.imageFileName, tables }, null, 2));
+    case "xlsx":
+      return file(
+        buildXlsx(
+          tables.map((table, i) => ({
+            name: `Page ${table.pageNumber} Table ${(tableIndex ?? i) + 1}`,
+            rows: table.rows.map(row => row.map(toSpreadsheetValue)),
+          }))
+        )
+      );
+  }
+}
@@ -0,0 +1,107 @@
+import { extractionTemplateInputSchema } from "@shared/extraction";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import {
+  createExtractionTemplate,
+  deleteExtractionTemplate,
+  getExtractionTemplate,
+  listExtractionTemplates,
+  updateExtractionTemplate,
+} from "./db";
+
+async function assertNameAvailable(userId: number, name: string, exceptId?: number) {
+  let templates;
+  try {
+    templates = await listExtractionTemplates(userId);
+  } catch (error) {
+    console.error("[Templates] Failed to list templates:", error);
+    throw new Error("Failed to save extraction template");
+  }
+  if (templates.some(template => template.name === name && template.id !== exceptId)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A template named "${name}" already exists`,
+    });
+  }
+}
+
+/**
+ * CRUD for the user's field extraction templates; ocr.applyTemplate runs them
+ */
+export const templatesRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listExtractionTemplates(ctx.user.id);
+    } catch (error) {
+      console.error("[Templates] Failed to list templates:", error);
+      throw new Error("Failed to list extraction templates");
+    }
+  }),
+
+  get: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ ctx, input }) => {
+    let template;
+    try {
+      template = await getExtractionTemplate(input.id, ctx.user.id);
+    } catch (error) {
+      console.error("[Templates] Failed to get template:", error);
+      throw new Error("Failed to retrieve extraction template");
+    }
+    if (!template) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Extraction template not found" });
+    }
+    return template;
+  }),
+
+  create: protectedProcedure
+    .input(extractionTemplateInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertNameAvailable(ctx.user.id, input.name);
+
+      let template;
+      try {
+        template = await createExtractionTemplate({ userId: ctx.user.id, ...input });
+      } catch (error) {
+        console.error("[Templates] Failed to create template:", error);
+        throw new Error("Failed to save extraction template");
+      }
+      if (!template) {
+        throw new Error("Failed to save extraction template: database not available");
+      }
+      return { success: true, id: template.id };
+    }),
+
+  update: protectedProcedure
+    .input(extractionTemplateInputSchema.extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+      await assertNameAvailable(ctx.user.id, values.name, id);
+
+      let updated;
+      try {
+        updated = await updateExtractionTemplate(id, ctx.user.id, {
+          ...values,
+          description: values.description ?? null,
+        });
+      } catch (error) {
+        console.error("[Templates] Failed to update template:", error);
+        throw new Error("Failed to save extraction template");
+      }
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Extraction template not found" });
+      }
+      return { success: true };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await deleteExtractionTemplate(input.id, ctx.user.id);
+        return { success: true };
+      } catch (error) {
+        console.error("[Templates] Failed to delete template:", error);
+        throw new Error("Failed to delete extraction template");
+      }
+    }),
+});
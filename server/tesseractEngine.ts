@@ -0,0 +1,156 @@
+import sharp from "sharp";
+import { PSM, type Block, type Bbox, type Page, type Worker, type WorkerParams } from "tesseract.js";
+import type { OcrParameters } from "@shared/ocrParameters";
+import type { OcrBbox, OcrLayout } from "../drizzle/schema";
+import type { OcrEngine } from "./ocrEngine";
+import {
+  listAvailableLanguages,
+  terminateAllOcrWorkers,
+  withOcrWorker,
+  withOsdWorker,
+} from "./ocrWorkerPool";
+
+/**
+ * Default OCR engine: Tesseract.js on the pooled workers
+ */
+export const tesseractEngine: OcrEngine = {
+  name: "tesseract",
+  capabilities: { layout: true, orientation: true },
+
+  listLanguages: listAvailableLanguages,
+
+  async recognize(image, language, options = {}) {
+    const { oem, ...parameters } = options.parameters ?? {};
+    const result = await withOcrWorker(
+      language,
+      async worker => {
+        await applyWorkerParameters(worker, parameters);
+        return worker.recognize(
+          image,
+          options.rectangle ? { rectangle: options.rectangle } : {},
+          { text: true, blocks: true }
+        );
+      },
+      message => {
+        if (message.status === "recognizing text") {
+          options.onProgress?.(message.progress);
+        }
+      },
+      oem
+    );
+
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+
+    return {
+      text: result.data.text || "",
+      confidence: toConfidence(result.data.confidence),
+      layout: toOcrLayout(result.data, width, height),
+    };
+  },
+
+  async detectOrientation(image) {
+    const result = await withOsdWorker(worker => worker.detect(image));
+    const { orientation_degrees, orientation_confidence, script, script_confidence } =
+      result.data;
+    if (orientation_degrees === null) return null;
+    return {
+      degrees: orientation_degrees,
+      orientationConfidence: orientation_confidence ?? 0,
+      script,
+      scriptConfidence: script_confidence ?? 0,
+    };
+  },
+
+  terminate: terminateAllOcrWorkers,
+};
+
+type RequestParameters = Omit<OcrParameters, "oem">;
+
+/** Tesseract's own values for the parameters a request may change. */
+const DEFAULT_WORKER_PARAMETERS = {
+  tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+  tessedit_char_whitelist: "",
+  tessedit_char_blacklist: "",
+  preserve_interword_spaces: "0",
+  user_defined_dpi: "0",
+} satisfies Partial<WorkerParams>;
+
+/**
+ * Map request parameters onto Tesseract variables, starting from the
+ * defaults so that nothing a previous job set carries over
+ */
+export function toWorkerParameters(parameters: RequestParameters): Partial<WorkerParams> {
+  return {
+    ...DEFAULT_WORKER_PARAMETERS,
+    ...(parameters.psm !== undefined && {
+      tessedit_pageseg_mode: String(parameters.psm) as PSM,
+    }),
+    ...(parameters.whitelist !== undefined && {
+      tessedit_char_whitelist: parameters.whitelist,
+    }),
+    ...(parameters.blacklist !== undefined && {
+      tessedit_char_blacklist: parameters.blacklist,
+    }),
+    ...(parameters.preserveInterwordSpaces !== undefined && {
+      preserve_interword_spaces: parameters.preserveInterwordSpaces ? "1" : "0",
+    }),
+    ...(parameters.dpi !== undefined && { user_defined_dpi: String(parameters.dpi) }),
+  };
+}
+
+/**
+ * Set every request-settable variable on a pooled worker. Tesseract keeps
+ * variables between jobs, so each job sets all of them rather than only
+ * the ones it changes; the pool runs one job per worker at a time.
+ */
+export async function applyWorkerParameters(
+  worker: Pick<Worker, "setParameters">,
+  parameters: RequestParameters
+) {
+  await worker.setParameters(toWorkerParameters(parameters));
+}
+
+function toBbox(bbox: Bbox): OcrBbox {
+  return { x0: bbox.x0, y0: bbox.y0, x1: bbox.x1, y1: bbox.y1 };
+}
+
+function toConfidence(value: number | null | undefined) {
+  return Math.round(value || 0);
+}
+
+/**
+ * Convert Tesseract's block tree into the persisted layout shape
+ */
+export function toOcrLayout(
+  page: Pick<Page, "blocks" | "confidence">,
+  width: number,
+  height: number
+): OcrLayout {
+  const blocks: Block[] = page.blocks ?? [];
+  return {
+    width,
+    height,
+    confidence: toConfidence(page.confidence),
+    blocks: blocks.map(block => ({
+      text: block.text,
+      confidence: toConfidence(block.confidence),
+      bbox: toBbox(block.bbox),
+      blockType: block.blocktype,
+      paragraphs: block.paragraphs.map(paragraph => ({
+        text: paragraph.text,
+        confidence: toConfidence(paragraph.confidence),
+        bbox: toBbox(paragraph.bbox),
+        lines: paragraph.lines.map(line => ({
+          text: line.text,
+          confidence: toConfidence(line.confidence),
+          bbox: toBbox(line.bbox),
+          words: line.words.map(word => ({
+            text: word.text,
+            confidence: toConfidence(word.confidence),
+            bbox: toBbox(word.bbox),
+          })),
+        })),
+      })),
+    })),
+  };
+}
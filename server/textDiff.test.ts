@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { applyTextDiff, diffText, summarizeTextDiff } from "@shared/textDiff";
+
+describe("Text Diff", () => {
+  it("should diff at word granularity", () => {
+    const ops = diffText("Totl amount: 12.50 USD", "Total amount: 12.80 USD");
+    expect(ops).toEqual([
+      { op: "delete", text: "Totl" },
+      { op: "insert", text: "Total" },
+      { op: "equal", length: 9 },
+      { op: "delete", text: "12.50" },
+      { op: "insert", text: "12.80" },
+      { op: "equal", length: 4 },
+    ]);
+    expect(summarizeTextDiff(ops)).toEqual({ inserted: 10, deleted: 9 });
+  });
+
+  it("should return a single equal run for identical text", () => {
+    expect(diffText("same text", "same text")).toEqual([{ op: "equal", length: 9 }]);
+    expect(diffText("", "")).toEqual([]);
+  });
+
+  it("should rebuild the new text from the old one", () => {
+    const pairs = [
+      ["", "added from nothing"],
+      ["removed entirely", ""],
+      ["line one\nline too\n\nline three", "line one\nline two\nline three\nline four"],
+      ["Tiếng Việt có dấu", "Tiếng Việt không dấu"],
+    ];
+    for (const [before, after] of pairs) {
+      expect(applyTextDiff(before, diffText(before, after))).toBe(after);
+    }
+  });
+});
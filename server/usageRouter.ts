@@ -0,0 +1,16 @@
+import { protectedProcedure, router } from "./_core/trpc";
+import { getOcrUsage } from "./ocrQuotas";
+
+/**
+ * The user's OCR usage against their quotas and rate limit
+ */
+export const usageRouter = router({
+  get: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getOcrUsage(ctx.user.id);
+    } catch (error) {
+      console.error("[Usage] Failed to get usage:", error);
+      throw new Error("Failed to retrieve usage");
+    }
+  }),
+});
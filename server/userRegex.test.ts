@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ENV } from "./_core/env";
+import {
+  USER_REGEX_MAX_INPUT,
+  USER_REGEX_MAX_MATCHES,
+  createUserRegexBudget,
+  execUserRegex,
+  matchAllUserRegex,
+  type UserRegexBudget,
+} from "./userRegex";
+
+const original = { ...ENV };
+const backtrack = (budget: UserRegexBudget) =>
+  execUserRegex(budget, "(a+)+$", "", [`${"a".repeat(40)}!`]);
+
+afterEach(() => {
+  Object.assign(ENV, original);
+});
+
+describe("User regex", () => {
+  it("should return the first match of each input with its groups", async () => {
+    expect(
+      await execUserRegex(createUserRegexBudget(1), "total:\\s*(\\d+)(x)?", "gi", [
+        "Total: 42",
+        "none",
+      ])
+    ).toEqual([{ index: 0, groups: ["Total: 42", "42", undefined] }, null]);
+  });
+
+  it("should return the matches of each input up to the cap", async () => {
+    const budget = createUserRegexBudget(1);
+    const [matches] = await matchAllUserRegex(budget, "(?<=-)\\w", "", ["A-b-c"]);
+    const [empty] = await matchAllUserRegex(budget, "", "", ["a".repeat(USER_REGEX_MAX_INPUT)]);
+
+    expect(matches).toEqual([
+      { index: 2, groups: ["b"] },
+      { index: 4, groups: ["c"] },
+    ]);
+    expect(empty).toHaveLength(USER_REGEX_MAX_MATCHES);
+  });
+
+  it("should cut off long inputs", async () => {
+    const [end] = await execUserRegex(createUserRegexBudget(1), "$", "", [
+      "a".repeat(USER_REGEX_MAX_INPUT + 10),
+    ]);
+
+    expect(end?.index).toBe(USER_REGEX_MAX_INPUT);
+  });
+
+  it("should reject invalid patterns", async () => {
+    await expect(execUserRegex(createUserRegexBudget(1), "(", "", ["x"])).rejects.toThrow(
+      "Invalid pattern ("
+    );
+  });
+
+  it("should stop the request's remaining patterns after a timeout", async () => {
+    ENV.regexTimeoutMs = 200;
+    const budget = createUserRegexBudget(1);
+
+    const slow = backtrack(budget);
+    const next = execUserRegex(budget, "a+", "", ["baa"]);
+
+    await expect(slow).rejects.toMatchObject({ statusCode: 422, code: "REGEX_TIMEOUT" });
+    await expect(next).rejects.toMatchObject({ code: "REGEX_TIMEOUT" });
+    expect(await execUserRegex(createUserRegexBudget(1), "a+", "", ["baa"])).toEqual([
+      { index: 1, groups: ["aa"] },
+    ]);
+  });
+
+  it("should limit the total time of a request", async () => {
+    ENV.regexBudgetMs = 0;
+
+    await expect(
+      execUserRegex(createUserRegexBudget(1), "a", "", ["a"])
+    ).rejects.toMatchObject({ code: "REGEX_TIMEOUT" });
+  });
+
+  it("should not make other users wait for a slow pattern", async () => {
+    ENV.regexTimeoutMs = 2000;
+
+    const slow = backtrack(createUserRegexBudget(1));
+    const started = Date.now();
+    await execUserRegex(createUserRegexBudget(2), "a+", "", ["baa"]);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    await expect(slow).rejects.toMatchObject({ code: "REGEX_TIMEOUT" });
+  });
+});
@@ -0,0 +1,208 @@
+import { BadRequestError, HttpError, UnprocessableEntityError } from "@shared/_core/errors";
+import { Worker } from "node:worker_threads";
+import { ENV } from "./_core/env";
+
+/**
+ * User-supplied regular expressions (extraction template patterns and
+ * dictionary rules) run on a worker thread per user, so a pattern that
+ * backtracks catastrophically fails its own request instead of blocking
+ * the server or other users. Each job may take up to REGEX_TIMEOUT_MS and
+ * all jobs of one request share a budget of REGEX_BUDGET_MS. After a
+ * timeout the worker is replaced and the rest of the budget is forfeited,
+ * so the request's remaining patterns fail at once.
+ */
+
+/** Longest input a user pattern runs on; longer text is cut off. */
+export const USER_REGEX_MAX_INPUT = 200_000;
+
+/** Most matches returned per input; later ones are dropped. */
+export const USER_REGEX_MAX_MATCHES = 1000;
+
+/** A match: its offset, then the matched text and each capture group. */
+export type UserRegexMatch = { index: number; groups: (string | undefined)[] };
+
+/** Whose worker runs the patterns, and when the request runs out of time. */
+export type UserRegexBudget = { userId: number; deadline: number };
+
+type Job = { source: string; flags: string; inputs: string[]; all: boolean; maxMatches: number };
+
+type WorkerEntry = {
+  worker: Worker | null;
+  /** Tail of the job chain; each job waits for the previous one to settle. */
+  tail: Promise<unknown>;
+  pending: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+};
+
+// Plain script, since a worker can load neither TypeScript nor the server bundle
+const WORKER_SOURCE = `
+const { parentPort } = require("node:worker_threads");
+parentPort.on("message", ({ source, flags, inputs, all, maxMatches }) => {
+  try {
+    const pattern = new RegExp(source, flags);
+    const toMatch = match => ({ index: match.index, groups: Array.from(match) });
+    const results = inputs.map(input => {
+      if (!all) {
+        const match = pattern.exec(input);
+        return match && toMatch(match);
+      }
+      const matches = [];
+      for (const match of input.matchAll(pattern)) {
+        if (matches.length === maxMatches) break;
+        matches.push(toMatch(match));
+      }
+      return matches;
+    });
+    parentPort.postMessage({ results });
+  } catch (error) {
+    parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+// Idle workers are dropped quickly; starting one takes a few milliseconds
+const WORKER_IDLE_MS = 30_000;
+
+const workers = new Map<number, WorkerEntry>();
+
+/**
+ * Time budget for the patterns of one request by the user
+ */
+export function createUserRegexBudget(userId: number): UserRegexBudget {
+  return { userId, deadline: Date.now() + ENV.regexBudgetMs };
+}
+
+function timeoutError(source: string) {
+  return UnprocessableEntityError(`Pattern ${source} ran out of time`, "REGEX_TIMEOUT");
+}
+
+function isTimeout(error: unknown) {
+  return error instanceof HttpError && error.code === "REGEX_TIMEOUT";
+}
+
+function getEntry(userId: number) {
+  let entry = workers.get(userId);
+  if (!entry) {
+    entry = { worker: null, tail: Promise.resolve(), pending: 0, idleTimer: null };
+    workers.set(userId, entry);
+  }
+  return entry;
+}
+
+function scheduleIdleShutdown(userId: number, entry: WorkerEntry) {
+  if (entry.idleTimer) clearTimeout(entry.idleTimer);
+  entry.idleTimer = setTimeout(() => {
+    if (workers.get(userId) !== entry || entry.pending > 0) return;
+    workers.delete(userId);
+    void entry.worker?.terminate();
+  }, WORKER_IDLE_MS);
+  entry.idleTimer.unref?.();
+}
+
+function runJob(entry: WorkerEntry, job: Job, timeoutMs: number): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    if (!entry.worker) {
+      entry.worker = new Worker(WORKER_SOURCE, { eval: true });
+      // Pending jobs keep the process alive through their timers
+      entry.worker.unref();
+    }
+    const current = entry.worker;
+    const discard = () => {
+      if (entry.worker === current) entry.worker = null;
+      void current.terminate();
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      discard();
+      reject(timeoutError(job.source));
+    }, timeoutMs);
+    const onMessage = (message: { results?: unknown[]; error?: string }) => {
+      cleanup();
+      if (message.error !== undefined) {
+        reject(BadRequestError(`Invalid pattern ${job.source}: ${message.error}`));
+      } else {
+        resolve(message.results ?? []);
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      discard();
+      reject(error);
+    };
+    function cleanup() {
+      clearTimeout(timer);
+      current.off("message", onMessage);
+      current.off("error", onError);
+    }
+
+    current.on("message", onMessage);
+    current.on("error", onError);
+    current.postMessage(job);
+  });
+}
+
+async function enqueue(budget: UserRegexBudget, job: Omit<Job, "maxMatches">) {
+  const entry = getEntry(budget.userId);
+  entry.pending++;
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = null;
+  }
+
+  const inputs = job.inputs.map(input => input.slice(0, USER_REGEX_MAX_INPUT));
+  const run = entry.tail.then(() => {
+    // Time spent waiting for the user's earlier jobs counts against the budget
+    const timeoutMs = Math.min(ENV.regexTimeoutMs, budget.deadline - Date.now());
+    if (timeoutMs <= 0) throw timeoutError(job.source);
+    return runJob(entry, { ...job, inputs, maxMatches: USER_REGEX_MAX_MATCHES }, timeoutMs).catch(
+      error => {
+        if (isTimeout(error)) budget.deadline = 0;
+        throw error;
+      }
+    );
+  });
+  entry.tail = run.catch(() => {});
+
+  try {
+    return await run;
+  } finally {
+    entry.pending--;
+    if (entry.pending === 0) scheduleIdleShutdown(budget.userId, entry);
+  }
+}
+
+/**
+ * First match of a user pattern in each input
+ * @throws HttpError 422 when the pattern or the request runs out of time
+ */
+export async function execUserRegex(
+  budget: UserRegexBudget,
+  source: string,
+  flags: string,
+  inputs: string[]
+): Promise<(UserRegexMatch | null)[]> {
+  return (await enqueue(budget, {
+    source,
+    flags: flags.replace(/[gy]/g, ""),
+    inputs,
+    all: false,
+  })) as (UserRegexMatch | null)[];
+}
+
+/**
+ * Matches of a user pattern in each input, at most USER_REGEX_MAX_MATCHES each
+ * @throws HttpError 422 when the pattern or the request runs out of time
+ */
+export async function matchAllUserRegex(
+  budget: UserRegexBudget,
+  source: string,
+  flags: string,
+  inputs: string[]
+): Promise<UserRegexMatch[][]> {
+  return (await enqueue(budget, {
+    source,
+    flags: flags.includes("g") ? flags : `${flags}g`,
+    inputs,
+    all: true,
+  })) as UserRegexMatch[][];
+}
@@ -3,17 +3,27 @@
  * Throw this from route handlers to send specific HTTP errors.
  */
 export class HttpError extends Error {
-  constructor(
-    public statusCode: number,
-    message: string
-  ) {
+  statusCode: number;
+  /** Machine-readable reason, e.g. "IMAGE_FORMAT_MISMATCH". */
+  code?: string;
+
+  constructor(statusCode: number, message: string, code?: string) {
     super(message);
     this.name = "HttpError";
+    this.statusCode = statusCode;
+    this.code = code;
   }
 }
 
 // Convenience constructors
-export const BadRequestError = (msg: string) => new HttpError(400, msg);
-export const UnauthorizedError = (msg: string) => new HttpError(401, msg);
-export const ForbiddenError = (msg: string) => new HttpError(403, msg);
-export const NotFoundError = (msg: string) => new HttpError(404, msg);
+export const BadRequestError = (msg: string, code?: string) => new HttpError(400, msg, code);
+export const UnauthorizedError = (msg: string, code?: string) => new HttpError(401, msg, code);
+export const ForbiddenError = (msg: string, code?: string) => new HttpError(403, msg, code);
+export const NotFoundError = (msg: string, code?: string) => new HttpError(404, msg, code);
+export const ConflictError = (msg: string, code?: string) => new HttpError(409, msg, code);
+export const PayloadTooLargeError = (msg: string, code?: string) => new HttpError(413, msg, code);
+export const UnsupportedMediaTypeError = (msg: string, code?: string) =>
+  new HttpError(415, msg, code);
+export const UnprocessableEntityError = (msg: string, code?: string) =>
+  new HttpError(422, msg, code);
+export const TooManyRequestsError = (msg: string, code?: string) => new HttpError(429, msg, code);
@@ -3,3 +3,5 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+/** OCR language that picks a language set from the detected script. */
+export const OCR_AUTO_LANGUAGE = "auto";
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { regexSource } from "./extraction";
+
+/**
+ * User dictionaries that correct recognized text after OCR. Rules rewrite
+ * known misreadings; words are the user's vocabulary (product names, place
+ * names), and tokens that are a near miss of exactly one word are replaced
+ * with it. Every change is recorded as a correction for review.
+ */
+
+export const OCR_DICTIONARY_MAX_WORDS = 5000;
+export const OCR_DICTIONARY_MAX_RULES = 100;
+
+export const dictionaryRuleSchema = z.discriminatedUnion("type", [
+  /** Replace a word or phrase wherever it appears as whole words. */
+  z.object({
+    type: z.literal("replace"),
+    find: z.string().trim().min(1).max(100),
+    replace: z.string().trim().max(100),
+    matchCase: z.boolean().default(false),
+  }),
+  /**
+   * Swap characters one for one (the first of `from` becomes the first of
+   * `to`, ...) inside the parts of each token matching `within`, e.g. "O"
+   * to "0" within "(?<=-)[0-9O]+" for the digits of codes like "AB-1O23".
+   * Without `within` the whole token is affected.
+   */
+  z
+    .object({
+      type: z.literal("characters"),
+      from: z.string().min(1).max(50),
+      to: z.string().min(1).max(50),
+      within: regexSource.optional(),
+    })
+    .refine(
+      rule => Array.from(rule.from).length === Array.from(rule.to).length,
+      "from and to must have the same number of characters"
+    ),
+]);
+
+export type DictionaryRule = z.infer<typeof dictionaryRuleSchema>;
+
+export const dictionaryInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  /** Disabled dictionaries are kept but not applied to new results. */
+  enabled: z.boolean().default(true),
+  words: z
+    .array(z.string().trim().min(1).max(100))
+    .max(OCR_DICTIONARY_MAX_WORDS)
+    .transform(words => Array.from(new Set(words))),
+  rules: z.array(dictionaryRuleSchema).max(OCR_DICTIONARY_MAX_RULES).default([]),
+});
+
+export type DictionaryInput = z.infer<typeof dictionaryInputSchema>;
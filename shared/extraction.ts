@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+/**
+ * User-defined extraction templates that turn OCR text into typed fields.
+ * Each field tries its rules in order; the first one that finds text wins,
+ * and the value is then parsed and validated according to the field type.
+ */
+
+export const EXTRACTION_FIELD_TYPES = ["text", "date", "amount", "number", "taxId"] as const;
+export type ExtractionFieldType = (typeof EXTRACTION_FIELD_TYPES)[number];
+
+/** JavaScript regular expression source, checked to compile. */
+export const regexSource = z
+  .string()
+  .min(1)
+  .max(500)
+  .refine(source => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Invalid regular expression");
+
+/** Fraction of the page width/height, 0-1 from the top-left corner. */
+const fraction = z.number().min(0).max(1);
+
+export const extractionRuleSchema = z.discriminatedUnion("type", [
+  /** Match a regular expression against the full text. */
+  z.object({
+    type: z.literal("regex"),
+    pattern: regexSource,
+    /** Capture group holding the value; defaults to 1, or 0 without groups. */
+    group: z.number().int().min(0).max(20).optional(),
+  }),
+  /** Value following a keyword, on the same line or the next one. */
+  z.object({
+    type: z.literal("anchor"),
+    keyword: z.string().min(1).max(100),
+    direction: z.enum(["right", "below"]).default("right"),
+  }),
+  /** Words whose centre lies inside a box on the page layout. */
+  z.object({
+    type: z.literal("region"),
+    page: z.number().int().min(1).default(1),
+    x: fraction,
+    y: fraction,
+    width: fraction,
+    height: fraction,
+  }),
+]);
+
+export type ExtractionRule = z.infer<typeof extractionRuleSchema>;
+
+export const extractionFieldSchema = z.object({
+  /** Output key, e.g. "invoiceNumber". */
+  key: z
+    .string()
+    .min(1)
+    .max(64)
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Keys must be identifiers"),
+  label: z.string().max(100).optional(),
+  type: z.enum(EXTRACTION_FIELD_TYPES).default("text"),
+  required: z.boolean().default(false),
+  rules: z.array(extractionRuleSchema).min(1).max(10),
+  /** Extra validation for the extracted text (text and taxId fields). */
+  pattern: regexSource.optional(),
+  /** Order of numeric date parts, e.g. 03/04/2025 is 3 April with "DMY". */
+  dateOrder: z.enum(["DMY", "MDY", "YMD"]).default("DMY"),
+});
+
+export type ExtractionField = z.infer<typeof extractionFieldSchema>;
+
+export const extractionTemplateInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  fields: z
+    .array(extractionFieldSchema)
+    .min(1)
+    .max(50)
+    .refine(
+      fields => new Set(fields.map(field => field.key)).size === fields.length,
+      "Field keys must be unique"
+    ),
+});
+
+export type ExtractionTemplateInput = z.infer<typeof extractionTemplateInputSchema>;
+
+export const EXTRACTED_FIELD_STATUSES = ["valid", "invalid", "missing"] as const;
+export type ExtractedFieldStatus = (typeof EXTRACTED_FIELD_STATUSES)[number];
+
+export type ExtractedField = {
+  key: string;
+  label?: string;
+  type: ExtractionFieldType;
+  status: ExtractedFieldStatus;
+  /** Text the rule matched, before parsing. */
+  raw: string | null;
+  /** ISO date (YYYY-MM-DD) for dates, number for amounts/numbers, else text. */
+  value: string | number | null;
+  /** Index of the rule that matched. */
+  rule: number | null;
+  error?: string;
+};
@@ -0,0 +1,20 @@
+/**
+ * Reasons validateImageFile rejects an upload. Sent as `code` by the
+ * /api/ocr/upload routes and as `data.errorCode` on tRPC errors.
+ */
+export const IMAGE_VALIDATION_ERROR_CODES = [
+  /** Larger than OCR_MAX_UPLOAD_MB (OCR_MAX_RESUMABLE_UPLOAD_MB for resumable uploads). */
+  "IMAGE_TOO_LARGE",
+  /** Declared MIME type or file signature is not an accepted format. */
+  "IMAGE_UNSUPPORTED_FORMAT",
+  /** File signature does not match the declared MIME type. */
+  "IMAGE_FORMAT_MISMATCH",
+  /** Header (or PDF page table) could not be read. */
+  "IMAGE_UNREADABLE",
+  /** Width, height or pixel count (of PDF pages as rendered) above the configured maximum. */
+  "IMAGE_DIMENSIONS_EXCEEDED",
+  /** More frames (e.g. TIFF or PDF pages) than OCR_MAX_PAGES. */
+  "IMAGE_TOO_MANY_FRAMES",
+] as const;
+
+export type ImageValidationErrorCode = (typeof IMAGE_VALIDATION_ERROR_CODES)[number];
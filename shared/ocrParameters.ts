@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+/**
+ * Tesseract recognition parameters a request may set. They apply to that
+ * request only and are stored with the result, so it can be reproduced.
+ */
+
+/** Page segmentation modes that recognize text (0 and 2 only analyse layout). */
+export const OCR_PAGE_SEGMENTATION_MODES = {
+  autoWithOsd: 1,
+  auto: 3,
+  singleColumn: 4,
+  singleBlockVertical: 5,
+  singleBlock: 6,
+  singleLine: 7,
+  singleWord: 8,
+  circledWord: 9,
+  singleChar: 10,
+  sparseText: 11,
+  sparseTextWithOsd: 12,
+  rawLine: 13,
+} as const;
+
+const psmValues: number[] = Object.values(OCR_PAGE_SEGMENTATION_MODES);
+
+/** Engine modes: 0 legacy, 1 LSTM, 2 legacy + LSTM, 3 whatever the traineddata has. */
+export const OCR_ENGINE_MODES = [0, 1, 2, 3] as const;
+
+const characterSet = z.string().min(1).max(500);
+
+export const ocrParametersSchema = z
+  .object({
+    /** Page segmentation mode, e.g. 7 for one line of text or 11 for sparse text. */
+    psm: z
+      .number()
+      .int()
+      .refine(value => psmValues.includes(value), "Unsupported page segmentation mode")
+      .optional(),
+    /** Legacy modes (0, 2) need traineddata that includes the legacy model. */
+    oem: z
+      .number()
+      .int()
+      .refine(value => (OCR_ENGINE_MODES as readonly number[]).includes(value), "Unsupported OCR engine mode")
+      .optional(),
+    /** Only recognize these characters, e.g. "0123456789." for meter readings. */
+    whitelist: characterSet.optional(),
+    /** Never recognize these characters. */
+    blacklist: characterSet.optional(),
+    /** Keep runs of spaces between words instead of collapsing them. */
+    preserveInterwordSpaces: z.boolean().optional(),
+    /** Resolution to assume when the image does not say. */
+    dpi: z.number().int().min(70).max(2400).optional(),
+  })
+  .strict();
+
+export type OcrParameters = z.infer<typeof ocrParametersSchema>;
+
+export const OCR_PARAMETER_KEYS = Object.keys(
+  ocrParametersSchema.shape
+) as (keyof OcrParameters)[];
+
+/**
+ * Whether two parameter sets are the same, ignoring key order and unset keys
+ */
+export function sameOcrParameters(a: OcrParameters | null, b: OcrParameters | null) {
+  return OCR_PARAMETER_KEYS.every(key => a?.[key] === b?.[key]);
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+/**
+ * Regions of interest: parts of a page to recognize instead of the whole
+ * image, e.g. the total on a receipt. Coordinates are fractions of the page
+ * after the requested rotation, 0-1 from the top-left corner, so they do not
+ * depend on the resolution the client displayed the image at.
+ */
+
+export const OCR_MAX_REGIONS = 20;
+
+/** Fraction of the page width/height, 0-1 from the top-left corner. */
+const fraction = z.number().min(0).max(1);
+
+// Rounding in the client may overshoot the page edge by a hair
+const EDGE_TOLERANCE = 1e-6;
+
+export const ocrRegionSchema = z
+  .object({
+    /** Shown with the region's text; defaults to "Region N". */
+    label: z.string().trim().min(1).max(100).optional(),
+    page: z.number().int().min(1).default(1),
+    x: fraction,
+    y: fraction,
+    width: fraction.positive(),
+    height: fraction.positive(),
+  })
+  .refine(
+    region =>
+      region.x + region.width <= 1 + EDGE_TOLERANCE &&
+      region.y + region.height <= 1 + EDGE_TOLERANCE,
+    "Region must lie inside the page"
+  );
+
+export type OcrRegion = z.infer<typeof ocrRegionSchema>;
+export type OcrRegionInput = z.input<typeof ocrRegionSchema>;
+
+export const ocrRegionsSchema = z.array(ocrRegionSchema).max(OCR_MAX_REGIONS);
+
+/** Clockwise rotation in degrees, applied to every page before regions. */
+export const ocrRotationSchema = z.number().int().min(-180).max(180);
+
+/**
+ * Label of the region at `index`, falling back to "Region N"
+ */
+export function ocrRegionLabel(region: Pick<OcrRegion, "label">, index: number) {
+  return region.label ?? `Region ${index + 1}`;
+}
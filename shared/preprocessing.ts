@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+/**
+ * Declarative image preprocessing profiles applied before OCR.
+ * Steps run in order; each one is a sharp-based transform on the server.
+ */
+
+export const preprocessingStepSchema = z.discriminatedUnion("type", [
+  /** Apply EXIF orientation. */
+  z.object({ type: z.literal("autoOrient") }),
+  /**
+   * Turn sideways or upside-down pages upright using the engine's
+   * orientation detection (Tesseract OSD), before the other steps. Skipped
+   * when the request sets a rotation or regions, or the engine cannot detect
+   * orientation.
+   */
+  z.object({ type: z.literal("autoRotate") }),
+  /** Shrink so neither side exceeds `maxDimension`. */
+  z.object({
+    type: z.literal("resize"),
+    maxDimension: z.number().int().min(100).max(10000).default(4000),
+  }),
+  /** Enlarge small images so the shorter side reaches `minDimension`. */
+  z.object({
+    type: z.literal("upscale"),
+    minDimension: z.number().int().min(100).max(4000).default(1200),
+    maxFactor: z.number().min(1).max(4).default(3),
+  }),
+  z.object({ type: z.literal("grayscale") }),
+  /** Stretch contrast between the given luminance percentiles. */
+  z.object({
+    type: z.literal("normalize"),
+    lower: z.number().min(0).max(99).default(1),
+    upper: z.number().min(1).max(100).default(99),
+  }),
+  /** Median filter to remove speckle noise. */
+  z.object({
+    type: z.literal("denoise"),
+    size: z.number().int().min(3).max(9).default(3),
+  }),
+  z.object({
+    type: z.literal("sharpen"),
+    sigma: z.number().min(0.3).max(10).default(1),
+  }),
+  /** Straighten text lines rotated by up to `maxAngle` degrees. */
+  z.object({
+    type: z.literal("deskew"),
+    maxAngle: z.number().min(1).max(45).default(10),
+  }),
+  /** Binarize: Otsu, local (adaptive) mean, or a fixed 0-255 level. */
+  z.object({
+    type: z.literal("threshold"),
+    method: z.enum(["otsu", "adaptive", "fixed"]).default("otsu"),
+    value: z.number().int().min(0).max(255).default(128),
+    windowSize: z.number().int().min(3).max(101).default(31),
+    offset: z.number().int().min(0).max(64).default(10),
+  }),
+]);
+
+export type PreprocessingStep = z.infer<typeof preprocessingStepSchema>;
+
+export type PreprocessingProfile = {
+  /** Preset name, or "custom" for caller-defined steps. */
+  name: string;
+  steps: PreprocessingStep[];
+};
+
+const step = (input: z.input<typeof preprocessingStepSchema>) =>
+  preprocessingStepSchema.parse(input);
+
+export const PREPROCESSING_PRESETS = {
+  /** Previous hardcoded behaviour: downscale huge images and grayscale. */
+  default: [step({ type: "resize" }), step({ type: "grayscale" })],
+  document: [
+    step({ type: "autoOrient" }),
+    step({ type: "resize" }),
+    step({ type: "grayscale" }),
+    step({ type: "normalize" }),
+    step({ type: "deskew" }),
+    step({ type: "threshold", method: "otsu" }),
+  ],
+  receipt: [
+    step({ type: "autoOrient" }),
+    step({ type: "resize" }),
+    step({ type: "upscale", minDimension: 1600 }),
+    step({ type: "grayscale" }),
+    step({ type: "normalize" }),
+    step({ type: "denoise" }),
+    step({ type: "deskew" }),
+    step({ type: "threshold", method: "adaptive" }),
+  ],
+  photo: [
+    step({ type: "autoOrient" }),
+    step({ type: "resize" }),
+    step({ type: "grayscale" }),
+    step({ type: "normalize" }),
+    step({ type: "denoise" }),
+    step({ type: "sharpen" }),
+  ],
+} satisfies Record<string, PreprocessingStep[]>;
+
+export type PreprocessingPreset = keyof typeof PREPROCESSING_PRESETS;
+
+export const PREPROCESSING_PRESET_NAMES = Object.keys(
+  PREPROCESSING_PRESETS
+) as [PreprocessingPreset, ...PreprocessingPreset[]];
+
+/** A preset name or an explicit list of steps. */
+export const preprocessingInputSchema = z.union([
+  z.enum(PREPROCESSING_PRESET_NAMES),
+  z.object({ steps: z.array(preprocessingStepSchema).max(20) }),
+]);
+
+export type PreprocessingInput = z.infer<typeof preprocessingInputSchema>;
+
+/**
+ * Resolve a preset name or step list into the profile to apply and record
+ */
+export function resolvePreprocessingProfile(
+  input: PreprocessingInput | undefined
+): PreprocessingProfile {
+  if (input === undefined) {
+    return { name: "default", steps: PREPROCESSING_PRESETS.default };
+  }
+  if (typeof input === "string") {
+    return { name: input, steps: PREPROCESSING_PRESETS[input] };
+  }
+  return { name: "custom", steps: input.steps };
+}
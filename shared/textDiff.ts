@@ -0,0 +1,119 @@
+/**
+ * Word-level text diff used for versioned OCR corrections.
+ * Equal runs store only their length; apply a diff to the text it was
+ * computed from to get the new text back.
+ */
+
+export type TextDiffOp =
+  | { op: "equal"; length: number }
+  | { op: "delete"; text: string }
+  | { op: "insert"; text: string };
+
+// Above this many LCS cells the changed middle is diffed as one replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string) {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Diff two texts at word granularity (whitespace runs are their own tokens)
+ */
+export function diffText(before: string, after: string): TextDiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const ops: TextDiffOp[] = [];
+
+  const push = (op: TextDiffOp["op"], token: string) => {
+    const last = ops[ops.length - 1];
+    if (op === "equal") {
+      if (last?.op === "equal") last.length += token.length;
+      else ops.push({ op, length: token.length });
+    } else if (last?.op === op) {
+      last.text += token;
+    } else {
+      ops.push({ op, text: token });
+    }
+  };
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  for (let i = 0; i < start; i++) push("equal", a[i]);
+
+  const n = endA - start;
+  const m = endB - start;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) push("delete", a[i]);
+    for (let j = start; j < endB; j++) push("insert", b[j]);
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of a[start + i..] and b[start + j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[start + i] === b[start + j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        push("equal", a[start + i]);
+        i++;
+        j++;
+      } else if (j >= m || (i < n && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        push("delete", a[start + i]);
+        i++;
+      } else {
+        push("insert", b[start + j]);
+        j++;
+      }
+    }
+  }
+
+  for (let i = endA; i < a.length; i++) push("equal", a[i]);
+  return ops;
+}
+
+/**
+ * Rebuild the new text from the old text and its diff
+ */
+export function applyTextDiff(before: string, ops: TextDiffOp[]): string {
+  let offset = 0;
+  let result = "";
+  for (const op of ops) {
+    if (op.op === "equal") {
+      result += before.slice(offset, offset + op.length);
+      offset += op.length;
+    } else if (op.op === "delete") {
+      offset += op.text.length;
+    } else {
+      result += op.text;
+    }
+  }
+  return result;
+}
+
+/**
+ * Characters inserted and deleted by a diff
+ */
+export function summarizeTextDiff(ops: TextDiffOp[]) {
+  let inserted = 0;
+  let deleted = 0;
+  for (const op of ops) {
+    if (op.op === "insert") inserted += op.text.length;
+    else if (op.op === "delete") deleted += op.text.length;
+  }
+  return { inserted, deleted };
+}
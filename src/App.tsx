@@ -1,34 +1,43 @@
-import { useState } from 'react'
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
-import './App.css'
+import { Redirect, Route, Switch } from 'wouter'
+import AppLayout from './components/AppLayout'
+import { useAuth } from './hooks/useAuth'
+import AdminPage from './pages/AdminPage'
+import AnalyticsPage from './pages/AnalyticsPage'
+import DictionariesPage from './pages/DictionariesPage'
+import HistoryPage from './pages/HistoryPage'
+import JobPage from './pages/JobPage'
+import LoginPage from './pages/LoginPage'
+import ResultPage from './pages/ResultPage'
+import TemplatesPage from './pages/TemplatesPage'
+import UploadPage from './pages/UploadPage'
 
 function App() {
-  const [count, setCount] = useState(0)
+  const { user, loading } = useAuth()
+
+  if (loading) {
+    return <p className="p-8 text-center text-slate-500">Loading…</p>
+  }
+
+  if (!user) {
+    return <LoginPage />
+  }
 
   return (
-    <>
-      <div>
-        <a href="https://vite.dev" target="_blank">
-          <img src={viteLogo} className="logo" alt="Vite logo" />
-        </a>
-        <a href="https://react.dev" target="_blank">
-          <img src={reactLogo} className="logo react" alt="React logo" />
-        </a>
-      </div>
-      <h1>Vite + React</h1>
-      <div className="card">
-        <button onClick={() => setCount((count) => count + 1)}>
-          count is {count}
-        </button>
-        <p>
-          Edit <code>src/App.tsx</code> and save to test HMR
-        </p>
-      </div>
-      <p className="read-the-docs">
-        Click on the Vite and React logos to learn more
-      </p>
-    </>
+    <AppLayout>
+      <Switch>
+        <Route path="/" component={UploadPage} />
+        <Route path="/history" component={HistoryPage} />
+        <Route path="/results/:id" component={ResultPage} />
+        <Route path="/jobs/:id" component={JobPage} />
+        <Route path="/templates" component={TemplatesPage} />
+        <Route path="/dictionaries" component={DictionariesPage} />
+        <Route path="/analytics" component={AnalyticsPage} />
+        {user.role === 'admin' && <Route path="/admin" component={AdminPage} />}
+        <Route>
+          <Redirect to="/" />
+        </Route>
+      </Switch>
+    </AppLayout>
   )
 }
 
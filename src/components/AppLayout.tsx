@@ -0,0 +1,79 @@
+import type { ReactNode } from 'react'
+import { Link, useRoute } from 'wouter'
+import {
+  BarChart3,
+  BookA,
+  FileText,
+  History,
+  ListChecks,
+  LogOut,
+  Shield,
+  Upload,
+} from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import { cn } from '../lib/utils'
+
+function NavLink({ href, children }: { href: string; children: ReactNode }) {
+  const [active] = useRoute(href)
+  return (
+    <Link
+      href={href}
+      className={cn(
+        'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm font-medium',
+        active ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-200',
+      )}
+    >
+      {children}
+    </Link>
+  )
+}
+
+export default function AppLayout({ children }: { children: ReactNode }) {
+  const { user, logout } = useAuth()
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b bg-white">
+        <div className="mx-auto flex max-w-6xl items-center gap-4 px-4 py-3">
+          <Link href="/" className="flex items-center gap-2 font-semibold">
+            <FileText className="size-5" />
+            Text Recognition
+          </Link>
+          <nav className="flex gap-1">
+            <NavLink href="/">
+              <Upload className="size-4" /> Upload
+            </NavLink>
+            <NavLink href="/history">
+              <History className="size-4" /> History
+            </NavLink>
+            <NavLink href="/templates">
+              <ListChecks className="size-4" /> Templates
+            </NavLink>
+            <NavLink href="/dictionaries">
+              <BookA className="size-4" /> Dictionaries
+            </NavLink>
+            <NavLink href="/analytics">
+              <BarChart3 className="size-4" /> Analytics
+            </NavLink>
+            {user?.role === 'admin' && (
+              <NavLink href="/admin">
+                <Shield className="size-4" /> Admin
+              </NavLink>
+            )}
+          </nav>
+          <div className="ml-auto flex items-center gap-3 text-sm text-slate-600">
+            <span>{user?.name ?? user?.email}</span>
+            <button
+              type="button"
+              onClick={() => logout()}
+              className="flex items-center gap-1 rounded-md px-2 py-1 hover:bg-slate-100"
+            >
+              <LogOut className="size-4" /> Sign out
+            </button>
+          </div>
+        </div>
+      </header>
+      <main className="mx-auto max-w-6xl px-4 py-6">{children}</main>
+    </div>
+  )
+}
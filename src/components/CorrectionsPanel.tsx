@@ -0,0 +1,32 @@
+import { SpellCheck } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+
+/**
+ * What the user's dictionaries changed in the machine output: the
+ * recognized text next to its replacement
+ */
+export default function CorrectionsPanel({ resultId }: { resultId: number }) {
+  const corrections = trpc.ocr.getCorrections.useQuery({ id: resultId })
+
+  if (!corrections.data?.length) return null
+
+  return (
+    <div className="rounded-xl border bg-white p-3 text-sm">
+      <h2 className="mb-2 flex items-center gap-1.5 font-medium">
+        <SpellCheck className="size-4" /> Dictionary corrections
+      </h2>
+      <ul className="space-y-1">
+        {corrections.data.map(correction => (
+          <li key={correction.id} className="flex flex-wrap items-baseline gap-x-2">
+            <span className="font-mono text-red-700 line-through">{correction.original}</span>
+            <span className="text-slate-400">→</span>
+            <span className="font-mono text-green-700">{correction.suggestion}</span>
+            <span className="ml-auto text-xs text-slate-500">
+              {correction.dictionaryName} · {correction.kind}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
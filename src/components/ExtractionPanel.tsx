@@ -0,0 +1,82 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { ListChecks } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+import { cn } from '../lib/utils'
+
+const STATUS_STYLES: Record<string, string> = {
+  valid: 'text-green-700',
+  invalid: 'text-red-700',
+  missing: 'text-slate-400',
+}
+
+export default function ExtractionPanel({ resultId }: { resultId: number }) {
+  const utils = trpc.useUtils()
+  const templates = trpc.templates.list.useQuery()
+  const extractions = trpc.ocr.getExtractions.useQuery({ id: resultId })
+  const applyTemplate = trpc.ocr.applyTemplate.useMutation()
+  const [templateId, setTemplateId] = useState<number | ''>('')
+
+  if (!templates.data?.length) return null
+
+  const onApply = async () => {
+    if (templateId === '') return
+    try {
+      const extraction = await applyTemplate.mutateAsync({ id: resultId, templateId })
+      await utils.ocr.getExtractions.invalidate({ id: resultId })
+      toast[extraction.status === 'valid' ? 'success' : 'warning'](
+        `${extraction.templateName}: ${extraction.status}`,
+      )
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Extraction failed')
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border bg-white p-3">
+      <div className="flex items-center gap-2 text-sm">
+        <ListChecks className="size-4" />
+        <select
+          value={templateId}
+          onChange={event => setTemplateId(event.target.value ? Number(event.target.value) : '')}
+          className="flex-1 rounded-md border px-2 py-1"
+        >
+          <option value="">Extract fields with…</option>
+          {templates.data.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={templateId === '' || applyTemplate.isPending}
+          className="rounded-md border px-3 py-1 hover:bg-slate-100 disabled:opacity-40"
+        >
+          Apply
+        </button>
+      </div>
+
+      {(extractions.data ?? []).map(extraction => (
+        <table key={extraction.id} className="w-full text-sm">
+          <caption className="pb-1 text-left font-medium">
+            {extraction.templateName}{' '}
+            <span className={STATUS_STYLES[extraction.status]}>({extraction.status})</span>
+          </caption>
+          <tbody className="divide-y">
+            {extraction.fields.map(field => (
+              <tr key={field.key}>
+                <td className="py-1 pr-3 text-slate-500">{field.label ?? field.key}</td>
+                <td className="py-1 font-mono">{field.value ?? field.raw ?? '—'}</td>
+                <td className={cn('py-1 text-right text-xs', STATUS_STYLES[field.status])}>
+                  {field.error ?? field.status}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ))}
+    </div>
+  )
+}
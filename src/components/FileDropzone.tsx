@@ -0,0 +1,102 @@
+import { useRef, useState, type DragEvent } from 'react'
+import { Camera, ImageUp } from 'lucide-react'
+import { toast } from 'sonner'
+import { ACCEPTED_MIME_TYPES, MAX_UPLOAD_BYTES, cn, formatBytes } from '../lib/utils'
+
+type FileDropzoneProps = {
+  onFiles: (files: File[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Drag-and-drop, multi-file picker and camera capture. Files the server
+ * would reject are filtered out with a toast.
+ */
+export default function FileDropzone({ onFiles, disabled }: FileDropzoneProps) {
+  const [dragging, setDragging] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const cameraInput = useRef<HTMLInputElement>(null)
+
+  const accept = (list: FileList | null) => {
+    if (!list) return
+    const accepted: File[] = []
+    for (const file of Array.from(list)) {
+      if (!ACCEPTED_MIME_TYPES.includes(file.type)) {
+        toast.error(`${file.name}: unsupported file type`)
+      } else if (file.size > MAX_UPLOAD_BYTES) {
+        toast.error(`${file.name}: larger than ${formatBytes(MAX_UPLOAD_BYTES)}`)
+      } else {
+        accepted.push(file)
+      }
+    }
+    if (accepted.length > 0) onFiles(accepted)
+  }
+
+  const onDrop = (event: DragEvent) => {
+    event.preventDefault()
+    setDragging(false)
+    if (!disabled) accept(event.dataTransfer.files)
+  }
+
+  return (
+    <div
+      onDragOver={event => {
+        event.preventDefault()
+        setDragging(true)
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={onDrop}
+      className={cn(
+        'flex flex-col items-center gap-4 rounded-xl border-2 border-dashed bg-white p-10 text-center',
+        dragging ? 'border-slate-900 bg-slate-100' : 'border-slate-300',
+        disabled && 'opacity-50',
+      )}
+    >
+      <ImageUp className="size-10 text-slate-400" />
+      <p className="text-slate-600">
+        Drop images or PDFs here (JPEG, PNG, WebP, TIFF, PDF up to{' '}
+        {formatBytes(MAX_UPLOAD_BYTES)})
+      </p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => fileInput.current?.click()}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700"
+        >
+          Choose files
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => cameraInput.current?.click()}
+          className="flex items-center gap-1.5 rounded-lg border px-4 py-2 text-sm font-medium hover:bg-slate-100"
+        >
+          <Camera className="size-4" /> Take photo
+        </button>
+      </div>
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        accept={ACCEPTED_MIME_TYPES.join(',')}
+        className="hidden"
+        onChange={event => {
+          accept(event.target.files)
+          event.target.value = ''
+        }}
+      />
+      <input
+        ref={cameraInput}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={event => {
+          accept(event.target.files)
+          event.target.value = ''
+        }}
+      />
+    </div>
+  )
+}
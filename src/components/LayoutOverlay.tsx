@@ -0,0 +1,41 @@
+import type { OcrLayout } from '@shared/types'
+
+type LayoutOverlayProps = {
+  layout: OcrLayout
+  /** Words below this confidence (0-100) are highlighted. */
+  threshold: number
+}
+
+/**
+ * SVG drawn over the page image, in the layout's pixel space, marking
+ * low-confidence words for review.
+ */
+export default function LayoutOverlay({ layout, threshold }: LayoutOverlayProps) {
+  const words = layout.blocks.flatMap(block =>
+    block.paragraphs.flatMap(paragraph => paragraph.lines.flatMap(line => line.words)),
+  )
+
+  return (
+    <svg
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      preserveAspectRatio="none"
+      className="pointer-events-none absolute inset-0 size-full"
+    >
+      {words
+        .filter(word => word.confidence < threshold)
+        .map((word, index) => (
+          <rect
+            key={index}
+            x={word.bbox.x0}
+            y={word.bbox.y0}
+            width={word.bbox.x1 - word.bbox.x0}
+            height={word.bbox.y1 - word.bbox.y0}
+            className="fill-amber-400/30 stroke-amber-500"
+            strokeWidth={2}
+          >
+            <title>{`${word.text} (${word.confidence}%)`}</title>
+          </rect>
+        ))}
+    </svg>
+  )
+}
@@ -0,0 +1,118 @@
+import {
+  OCR_ENGINE_MODES,
+  OCR_PAGE_SEGMENTATION_MODES,
+  type OcrParameters,
+} from '@shared/ocrParameters'
+
+const PSM_LABELS: Record<keyof typeof OCR_PAGE_SEGMENTATION_MODES, string> = {
+  autoWithOsd: 'Automatic, with orientation',
+  auto: 'Automatic',
+  singleColumn: 'Single column',
+  singleBlockVertical: 'Single vertical block',
+  singleBlock: 'Single block',
+  singleLine: 'Single line',
+  singleWord: 'Single word',
+  circledWord: 'Word in a circle',
+  singleChar: 'Single character',
+  sparseText: 'Sparse text',
+  sparseTextWithOsd: 'Sparse text, with orientation',
+  rawLine: 'Raw line',
+}
+
+const OEM_LABELS: Record<(typeof OCR_ENGINE_MODES)[number], string> = {
+  0: 'Legacy',
+  1: 'LSTM',
+  2: 'Legacy + LSTM',
+  3: 'Whatever is installed',
+}
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value))
+
+/**
+ * Optional Tesseract settings for an upload; blank fields keep the defaults
+ */
+export default function ParametersFields({
+  value,
+  onChange,
+}: {
+  value: OcrParameters
+  onChange: (value: OcrParameters) => void
+}) {
+  const set = (changes: Partial<OcrParameters>) => onChange({ ...value, ...changes })
+
+  return (
+    <details className="rounded-xl border bg-white p-4 text-sm">
+      <summary className="cursor-pointer font-medium">Tesseract settings</summary>
+      <div className="mt-3 grid gap-4 sm:grid-cols-2">
+        <label className="block">
+          <span className="mb-1 block text-xs text-slate-500">Page segmentation</span>
+          <select
+            value={value.psm ?? ''}
+            onChange={event => set({ psm: toNumber(event.target.value) })}
+            className="w-full rounded-md border px-2 py-1.5"
+          >
+            <option value="">Default</option>
+            {Object.entries(OCR_PAGE_SEGMENTATION_MODES).map(([name, mode]) => (
+              <option key={mode} value={mode}>
+                {mode}: {PSM_LABELS[name as keyof typeof PSM_LABELS]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs text-slate-500">Engine mode</span>
+          <select
+            value={value.oem ?? ''}
+            onChange={event => set({ oem: toNumber(event.target.value) })}
+            className="w-full rounded-md border px-2 py-1.5"
+          >
+            <option value="">Default</option>
+            {OCR_ENGINE_MODES.map(mode => (
+              <option key={mode} value={mode}>
+                {mode}: {OEM_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs text-slate-500">Only these characters</span>
+          <input
+            value={value.whitelist ?? ''}
+            onChange={event => set({ whitelist: event.target.value || undefined })}
+            placeholder="e.g. 0123456789.,"
+            maxLength={500}
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs text-slate-500">Never these characters</span>
+          <input
+            value={value.blacklist ?? ''}
+            onChange={event => set({ blacklist: event.target.value || undefined })}
+            maxLength={500}
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs text-slate-500">DPI when the image has none</span>
+          <input
+            type="number"
+            min={70}
+            max={2400}
+            value={value.dpi ?? ''}
+            onChange={event => set({ dpi: toNumber(event.target.value) })}
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+        </label>
+        <label className="flex items-center gap-1.5 self-end">
+          <input
+            type="checkbox"
+            checked={value.preserveInterwordSpaces ?? false}
+            onChange={event => set({ preserveInterwordSpaces: event.target.checked || undefined })}
+          />
+          Keep spacing between words
+        </label>
+      </div>
+    </details>
+  )
+}
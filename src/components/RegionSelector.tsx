@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import { RotateCcw, RotateCw, X } from 'lucide-react'
+import { OCR_MAX_REGIONS, ocrRegionLabel, type OcrRegionInput } from '@shared/ocrRegions'
+
+export type RegionSelection = { rotation: number; regions: OcrRegionInput[] }
+
+type Point = { x: number; y: number }
+
+// Largest side the preview canvas is drawn at; regions are page fractions
+const PREVIEW_SIZE = 1200
+// Drags smaller than this fraction of the page are treated as clicks
+const MIN_REGION = 0.01
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+/** Keep rotations within the -180..180 the server accepts. */
+function normalizeRotation(degrees: number) {
+  const turned = ((degrees % 360) + 360) % 360
+  return turned > 180 ? turned - 360 : turned
+}
+
+/**
+ * Preview of an image, rotated like the server will rotate it, on which
+ * regions of interest are drawn by dragging. Changing the rotation clears
+ * the regions, since they are fractions of the rotated page.
+ */
+export default function RegionSelector({
+  file,
+  value,
+  onChange,
+}: {
+  file: File
+  value: RegionSelection
+  onChange: (value: RegionSelection) => void
+}) {
+  const canvas = useRef<HTMLCanvasElement>(null)
+  const [image, setImage] = useState<HTMLImageElement>()
+  const [start, setStart] = useState<Point>()
+  const [current, setCurrent] = useState<Point>()
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => setImage(img)
+    img.src = url
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  useEffect(() => {
+    if (!image || !canvas.current) return
+    const radians = (value.rotation * Math.PI) / 180
+    const sin = Math.abs(Math.sin(radians))
+    const cos = Math.abs(Math.cos(radians))
+    const width = image.naturalWidth * cos + image.naturalHeight * sin
+    const height = image.naturalWidth * sin + image.naturalHeight * cos
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height))
+
+    const context = canvas.current.getContext('2d')
+    if (!context) return
+    canvas.current.width = Math.round(width * scale)
+    canvas.current.height = Math.round(height * scale)
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.current.width, canvas.current.height)
+    context.translate(canvas.current.width / 2, canvas.current.height / 2)
+    context.rotate(radians)
+    context.scale(scale, scale)
+    context.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2)
+  }, [image, value.rotation])
+
+  const toPoint = (event: PointerEvent) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    }
+  }
+
+  const draft =
+    start && current
+      ? {
+          x: Math.min(start.x, current.x),
+          y: Math.min(start.y, current.y),
+          width: Math.abs(current.x - start.x),
+          height: Math.abs(current.y - start.y),
+        }
+      : undefined
+
+  const onPointerUp = () => {
+    if (draft && draft.width >= MIN_REGION && draft.height >= MIN_REGION) {
+      onChange({ ...value, regions: [...value.regions, { page: 1, ...draft }] })
+    }
+    setStart(undefined)
+    setCurrent(undefined)
+  }
+
+  const rotate = (degrees: number) =>
+    onChange({ rotation: normalizeRotation(degrees), regions: [] })
+
+  const updateRegion = (index: number, region: OcrRegionInput | undefined) =>
+    onChange({
+      ...value,
+      regions: value.regions.flatMap((existing, i) =>
+        i !== index ? [existing] : region ? [region] : [],
+      ),
+    })
+
+  const full = value.regions.length >= OCR_MAX_REGIONS
+
+  return (
+    <div className="space-y-3 rounded-xl border bg-white p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">Regions</span>
+        <span className="text-slate-500">
+          {value.regions.length === 0
+            ? 'Drag on the image to recognize only part of it'
+            : `${value.regions.length} of up to ${OCR_MAX_REGIONS}`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            aria-label="Rotate left"
+            onClick={() => rotate(value.rotation - 90)}
+            className="rounded-md border p-1 hover:bg-slate-100"
+          >
+            <RotateCcw className="size-4" />
+          </button>
+          <input
+            type="number"
+            min={-180}
+            max={180}
+            value={value.rotation}
+            onChange={event => rotate(Math.round(Number(event.target.value)))}
+            aria-label="Rotation in degrees"
+            className="w-16 rounded-md border px-2 py-1"
+          />
+          <button
+            type="button"
+            aria-label="Rotate right"
+            onClick={() => rotate(value.rotation + 90)}
+            className="rounded-md border p-1 hover:bg-slate-100"
+          >
+            <RotateCw className="size-4" />
+          </button>
+        </div>
+      </div>
+
+      <div
+        onPointerDown={event => {
+          if (full) return
+          event.currentTarget.setPointerCapture(event.pointerId)
+          setStart(toPoint(event))
+          setCurrent(toPoint(event))
+        }}
+        onPointerMove={event => start && setCurrent(toPoint(event))}
+        onPointerUp={onPointerUp}
+        className="relative mx-auto w-fit cursor-crosshair touch-none select-none"
+      >
+        <canvas ref={canvas} className="block max-h-[32rem] max-w-full" />
+        {[...value.regions, ...(draft ? [draft] : [])].map((region, index) => (
+          <div
+            key={index}
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+            className="pointer-events-none absolute border-2 border-blue-600 bg-blue-500/10"
+          >
+            {index < value.regions.length && (
+              <span className="absolute -top-5 left-0 rounded bg-blue-600 px-1 text-xs text-white">
+                {ocrRegionLabel(value.regions[index], index)}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {value.regions.length > 0 && (
+        <ul className="space-y-1">
+          {value.regions.map((region, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <input
+                value={region.label ?? ''}
+                onChange={event =>
+                  updateRegion(index, { ...region, label: event.target.value || undefined })
+                }
+                placeholder={ocrRegionLabel({}, index)}
+                maxLength={100}
+                className="flex-1 rounded-md border px-2 py-1"
+              />
+              <button
+                type="button"
+                aria-label={`Remove ${ocrRegionLabel(region, index)}`}
+                onClick={() => updateRegion(index, undefined)}
+                className="rounded p-1 hover:bg-slate-100"
+              >
+                <X className="size-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { toast } from 'sonner'
+import { Copy, Crop } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+
+/**
+ * Text of each region of interest the result was limited to
+ */
+export default function RegionsPanel({ resultId }: { resultId: number }) {
+  const regions = trpc.ocr.getRegions.useQuery({ id: resultId })
+
+  if (!regions.data?.length) return null
+
+  const onCopy = async (text: string) => {
+    await navigator.clipboard.writeText(text)
+    toast.success('Copied to clipboard')
+  }
+
+  return (
+    <div className="rounded-xl border bg-white p-3 text-sm">
+      <h2 className="mb-2 flex items-center gap-1.5 font-medium">
+        <Crop className="size-4" /> Regions
+      </h2>
+      <dl className="space-y-2">
+        {regions.data.map(region => (
+          <div key={region.id}>
+            <dt className="flex items-center gap-2 text-xs text-slate-500">
+              {region.label} · page {region.pageNumber} · {region.confidence}%
+              <button
+                type="button"
+                aria-label={`Copy ${region.label}`}
+                onClick={() => onCopy(region.extractedText)}
+                className="ml-auto rounded p-1 hover:bg-slate-100"
+              >
+                <Copy className="size-3.5" />
+              </button>
+            </dt>
+            <dd className="whitespace-pre-wrap font-mono">{region.extractedText || '–'}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
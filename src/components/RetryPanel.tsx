@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, RotateCw } from 'lucide-react'
+import { OCR_AUTO_LANGUAGE } from '@shared/const'
+import { PREPROCESSING_PRESET_NAMES, type PreprocessingPreset } from '@shared/preprocessing'
+import { trpc } from '../lib/trpc'
+
+/**
+ * Error of a failed result, with a form to run it again using another
+ * language or preprocessing preset
+ */
+export default function RetryPanel({
+  id,
+  status,
+  language: initialLanguage,
+  errorMessage,
+  canRetry,
+}: {
+  id: number
+  status: 'pending' | 'failed'
+  language: string
+  errorMessage: string | null
+  /** False when the original image was never stored. */
+  canRetry: boolean
+}) {
+  const utils = trpc.useUtils()
+  const languages = trpc.ocr.listLanguages.useQuery()
+  const retry = trpc.ocr.retry.useMutation()
+  const [language, setLanguage] = useState(initialLanguage)
+  const [preprocessing, setPreprocessing] = useState<PreprocessingPreset | ''>('')
+
+  const onRetry = async () => {
+    try {
+      const result = await retry.mutateAsync({
+        id,
+        language,
+        preprocessing: preprocessing || undefined,
+      })
+      toast.success(`Recognized with ${result.confidence}% confidence`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Retry failed')
+    } finally {
+      await Promise.all([
+        utils.ocr.getResult.invalidate({ id }),
+        utils.ocr.getHistory.invalidate(),
+        utils.usage.get.invalidate(),
+      ])
+    }
+  }
+
+  if (status === 'pending') {
+    return (
+      <div className="rounded-xl border bg-white p-4 text-sm text-slate-600">
+        A retry of this upload is in progress.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-red-200 bg-red-50 p-4 text-sm">
+      <p className="flex items-start gap-2 text-red-700">
+        <AlertTriangle className="mt-0.5 size-4 shrink-0" />
+        {errorMessage ?? 'Recognition failed'}
+      </p>
+      {canRetry ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={language}
+            onChange={event => setLanguage(event.target.value)}
+            className="rounded-md border bg-white px-2 py-1"
+          >
+            {!(languages.data ?? []).includes(language) && language !== OCR_AUTO_LANGUAGE && (
+              <option value={language}>{language}</option>
+            )}
+            <option value={OCR_AUTO_LANGUAGE}>Auto-detect</option>
+            {(languages.data ?? []).map(code => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          <select
+            value={preprocessing}
+            onChange={event => setPreprocessing(event.target.value as PreprocessingPreset | '')}
+            className="rounded-md border bg-white px-2 py-1"
+          >
+            <option value="">Same preprocessing</option>
+            {PREPROCESSING_PRESET_NAMES.map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={retry.isPending}
+            className="flex items-center gap-1 rounded-md bg-slate-900 px-3 py-1 text-white hover:bg-slate-700 disabled:opacity-50"
+          >
+            <RotateCw className="size-4" /> {retry.isPending ? 'Retrying…' : 'Retry'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-slate-600">The original file was not stored; upload it again.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { History, RotateCcw } from 'lucide-react'
+import type { TextDiffOp } from '@shared/textDiff'
+
+type Revision = {
+  revision: number
+  text: string
+  diff: TextDiffOp[]
+  charsInserted: number
+  charsDeleted: number
+  editsFromOriginal: number
+  revertedTo: number | null
+  createdAt: Date
+}
+
+type Props = {
+  original: { text: string; createdAt: Date }
+  revisions: Revision[]
+  currentRevision: number
+  onRevert: (revision: number) => void
+}
+
+function DiffView({ before, diff }: { before: string; diff: TextDiffOp[] }) {
+  let offset = 0
+  return (
+    <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-slate-50 p-2 font-mono text-xs">
+      {diff.map((op, index) => {
+        if (op.op === 'equal') {
+          const text = before.slice(offset, offset + op.length)
+          offset += op.length
+          return <span key={index}>{text}</span>
+        }
+        if (op.op === 'delete') {
+          offset += op.text.length
+          return (
+            <del key={index} className="bg-red-100 text-red-700">
+              {op.text}
+            </del>
+          )
+        }
+        return (
+          <ins key={index} className="bg-green-100 text-green-700 no-underline">
+            {op.text}
+          </ins>
+        )
+      })}
+    </pre>
+  )
+}
+
+export default function RevisionHistory({ original, revisions, currentRevision, onRevert }: Props) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const textOf = (revision: number) =>
+    revision === 0 ? original.text : revisions.find(r => r.revision === revision)?.text ?? ''
+
+  return (
+    <div className="rounded-xl border bg-white">
+      <h2 className="flex items-center gap-1.5 border-b px-3 py-2 text-sm font-medium">
+        <History className="size-4" /> Revisions
+      </h2>
+      <ul className="divide-y text-sm">
+        {[...revisions].reverse().map(revision => (
+          <li key={revision.revision} className="space-y-2 px-3 py-2">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() =>
+                  setExpanded(open => (open === revision.revision ? null : revision.revision))
+                }
+                className="font-medium hover:underline"
+              >
+                #{revision.revision}
+              </button>
+              <span className="text-slate-500">{format(revision.createdAt, 'PPp')}</span>
+              <span className="text-green-700">+{revision.charsInserted}</span>
+              <span className="text-red-700">−{revision.charsDeleted}</span>
+              {revision.revertedTo !== null && (
+                <span className="text-slate-500">restored #{revision.revertedTo}</span>
+              )}
+              <span className="ml-auto text-xs text-slate-400">
+                {revision.editsFromOriginal} chars from original
+              </span>
+              {revision.revision !== currentRevision && (
+                <button
+                  type="button"
+                  onClick={() => onRevert(revision.revision)}
+                  title="Restore this revision"
+                  className="rounded p-1 hover:bg-slate-100"
+                >
+                  <RotateCcw className="size-4" />
+                </button>
+              )}
+            </div>
+            {expanded === revision.revision && (
+              <DiffView before={textOf(revision.revision - 1)} diff={revision.diff} />
+            )}
+          </li>
+        ))}
+        <li className="flex items-center gap-2 px-3 py-2">
+          <span className="font-medium">#0</span>
+          <span className="text-slate-500">OCR output · {format(original.createdAt, 'PPp')}</span>
+          {currentRevision !== 0 && (
+            <button
+              type="button"
+              onClick={() => onRevert(0)}
+              title="Restore the OCR output"
+              className="ml-auto rounded p-1 hover:bg-slate-100"
+            >
+              <RotateCcw className="size-4" />
+            </button>
+          )}
+        </li>
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { Link } from 'wouter'
+import { format } from 'date-fns'
+import { Copy as CopyIcon } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+
+export default function SimilarPanel({ resultId }: { resultId: number }) {
+  const similar = trpc.ocr.findSimilar.useQuery({ id: resultId })
+
+  if (!similar.data?.length) return null
+
+  return (
+    <div className="rounded-xl border bg-white p-3 text-sm">
+      <h2 className="mb-2 flex items-center gap-1.5 font-medium">
+        <CopyIcon className="size-4" /> Similar uploads
+      </h2>
+      <ul className="space-y-1">
+        {similar.data.map(item => (
+          <li key={item.id} className="flex items-center gap-2">
+            <Link href={`/results/${item.id}`} className="truncate text-blue-600 hover:underline">
+              {item.imageFileName}
+            </Link>
+            <span className="text-slate-500">{format(item.createdAt, 'PP')}</span>
+            <span className="ml-auto text-xs text-slate-500">
+              {item.exactDuplicate ? 'identical file' : `${item.distance} bits apart`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { toast } from 'sonner'
+import { Table } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+import { downloadBase64 } from '../lib/utils'
+
+const TABLE_FORMATS = ['csv', 'xlsx', 'json'] as const
+
+export default function TablesPanel({ resultId }: { resultId: number }) {
+  const utils = trpc.useUtils()
+  const tables = trpc.ocr.getTables.useQuery({ id: resultId }, { retry: false })
+
+  if (!tables.data?.length) return null
+
+  const onDownload = async (format: (typeof TABLE_FORMATS)[number], table?: number) => {
+    try {
+      const file = await utils.ocr.exportTable.fetch({ id: resultId, format, table })
+      downloadBase64(file.data, file.fileName, file.mimeType)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed')
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-xl border bg-white p-3 text-sm">
+      <div className="flex items-center gap-2">
+        <Table className="size-4" />
+        <span className="font-medium">
+          {tables.data.length} table{tables.data.length > 1 ? 's' : ''} detected
+        </span>
+        <span className="ml-auto flex gap-1">
+          {TABLE_FORMATS.map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onDownload(format)}
+              className="rounded-md border px-2 py-0.5 uppercase hover:bg-slate-100"
+            >
+              {format}
+            </button>
+          ))}
+        </span>
+      </div>
+      {tables.data.map((table, index) => (
+        <details key={index} className="rounded-md border">
+          <summary className="cursor-pointer px-2 py-1 text-slate-600">
+            Table {index + 1} · page {table.pageNumber} · {table.rows.length}×
+            {table.rows[0]?.length ?? 0}
+          </summary>
+          <div className="overflow-auto p-2">
+            <table className="text-xs">
+              <tbody>
+                {table.rows.map((row, r) => (
+                  <tr key={r} className="border-b last:border-0">
+                    {row.map((cell, c) => (
+                      <td key={c} className="px-2 py-0.5">
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={() => onDownload('csv', index)}
+              className="mt-2 rounded-md border px-2 py-0.5 hover:bg-slate-100"
+            >
+              Download this table (CSV)
+            </button>
+          </div>
+        </details>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { formatDistanceToNow } from 'date-fns'
+import { Gauge } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+import { cn, formatBytes } from '../lib/utils'
+
+function Meter({
+  label,
+  used,
+  limit,
+  format = String,
+  resetAt,
+}: {
+  label: string
+  used: number
+  limit: number
+  format?: (value: number) => string
+  resetAt?: Date
+}) {
+  // A limit of 0 means unlimited
+  const ratio = limit === 0 ? 0 : Math.min(used / limit, 1)
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-600">
+        <span>{label}</span>
+        <span>
+          {format(used)} / {limit === 0 ? '∞' : format(limit)}
+        </span>
+      </div>
+      <div className="mt-1 h-1.5 rounded bg-slate-100">
+        <div
+          className={cn('h-full rounded', ratio >= 0.9 ? 'bg-red-500' : 'bg-slate-700')}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+      {resetAt && ratio >= 1 && (
+        <p className="mt-1 text-xs text-red-600">
+          Resets {formatDistanceToNow(resetAt, { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default function UsageSummary() {
+  const usage = trpc.usage.get.useQuery()
+  if (!usage.data) return null
+  const { images, pages, storage, maxBatchSize } = usage.data
+
+  return (
+    <div className="rounded-xl border bg-white p-4">
+      <h2 className="mb-3 flex items-center gap-1.5 text-sm font-medium">
+        <Gauge className="size-4" /> Usage
+      </h2>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Meter label="Images today" {...images} />
+        <Meter label="Pages this month" {...pages} />
+        <Meter
+          label="Storage"
+          used={storage.usedBytes}
+          limit={storage.limitBytes}
+          format={formatBytes}
+        />
+      </div>
+      {maxBatchSize > 0 && (
+        <p className="mt-3 text-xs text-slate-500">Up to {maxBatchSize} files per batch.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+/**
+ * OAuth portal sign-in URL; the portal redirects back to /api/oauth/callback
+ * with `state` carrying the base64 redirect URI the server expects.
+ */
+export function getLoginUrl() {
+  const redirectUri = `${window.location.origin}/api/oauth/callback`
+  const url = new URL('/app-auth', import.meta.env.VITE_OAUTH_PORTAL_URL)
+  url.searchParams.set('appId', import.meta.env.VITE_APP_ID)
+  url.searchParams.set('redirectUri', redirectUri)
+  url.searchParams.set('state', btoa(redirectUri))
+  url.searchParams.set('type', 'signIn')
+  return url.toString()
+}
@@ -0,0 +1,22 @@
+import { trpc } from '../lib/trpc'
+
+export function useAuth() {
+  const utils = trpc.useUtils()
+  const me = trpc.auth.me.useQuery(undefined, {
+    retry: false,
+    refetchOnWindowFocus: false,
+  })
+  const logout = trpc.auth.logout.useMutation({
+    onSuccess: () => {
+      utils.auth.me.setData(undefined, null)
+      utils.invalidate()
+    },
+  })
+
+  return {
+    user: me.data ?? null,
+    loading: me.isLoading,
+    isAuthenticated: Boolean(me.data),
+    logout: () => logout.mutateAsync(),
+  }
+}
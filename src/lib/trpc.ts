@@ -0,0 +1,27 @@
+import { createTRPCReact } from '@trpc/react-query'
+import { httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client'
+import superjson from 'superjson'
+import type { AppRouter } from '../../server/routers'
+
+export const trpc = createTRPCReact<AppRouter>()
+
+export function createTrpcClient() {
+  return trpc.createClient({
+    links: [
+      splitLink({
+        // Subscriptions (job progress) stream over server-sent events
+        condition: op => op.type === 'subscription',
+        true: httpSubscriptionLink({
+          url: '/api/trpc',
+          transformer: superjson,
+          eventSourceOptions: () => ({ withCredentials: true }),
+        }),
+        false: httpBatchLink({
+          url: '/api/trpc',
+          transformer: superjson,
+          fetch: (input, init) => fetch(input, { ...init, credentials: 'include' }),
+        }),
+      }),
+    ],
+  })
+}
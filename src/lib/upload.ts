@@ -0,0 +1,116 @@
+import type { OcrParameters } from '@shared/ocrParameters'
+import type { OcrRegionInput } from '@shared/ocrRegions'
+
+/**
+ * Binary uploads to /api/ocr/upload (see server/ocrUpload.ts). Files larger
+ * than one chunk go through a resumable session so a dropped connection
+ * only resends the current chunk.
+ */
+
+export type UploadOptions = {
+  language: string
+  preprocessing?: string
+  engine?: string
+  rotation?: number
+  regions?: OcrRegionInput[]
+  parameters?: OcrParameters
+}
+
+export type UploadResult = {
+  success: boolean
+  id?: number
+  text: string
+  confidence: number
+  engine: string
+  processingTimeMs: number
+  imageUrl: string
+  parameters: OcrParameters
+  regions: { label: string; page: number; text: string; confidence: number }[]
+  reused: boolean
+}
+
+type UploadSession = { uploadId: string; offset: number; size: number; chunkSize: number }
+
+// Must not exceed the server's OCR_UPLOAD_CHUNK_MB
+const RESUMABLE_THRESHOLD_BYTES = 5 * 1024 * 1024
+const CHUNK_RETRIES = 3
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, credentials: 'include' })
+  const body = response.status === 204 ? undefined : await response.json().catch(() => undefined)
+  if (!response.ok) {
+    throw Object.assign(new Error(body?.error ?? `Upload failed (${response.status})`), {
+      status: response.status,
+      // ImageValidationErrorCode for rejected files
+      code: body?.code as string | undefined,
+      // Failed attempt saved by the server; ocr.retry can run it again
+      resultId: body?.resultId as number | undefined,
+    })
+  }
+  return body as T
+}
+
+function uploadMultipart(file: File, options: UploadOptions) {
+  const form = new FormData()
+  for (const [name, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      form.append(name, typeof value === 'string' ? value : JSON.stringify(value))
+    }
+  }
+  form.append('file', file)
+  return request<UploadResult>('/api/ocr/upload', { method: 'POST', body: form })
+}
+
+async function uploadResumable(
+  file: File,
+  options: UploadOptions,
+  onProgress?: (progress: number) => void,
+) {
+  let session = await request<UploadSession>('/api/ocr/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...options, fileName: file.name, size: file.size }),
+  })
+  const sessionUrl = `/api/ocr/uploads/${session.uploadId}`
+
+  try {
+    let failures = 0
+    while (session.offset < session.size) {
+      const chunk = file.slice(session.offset, session.offset + session.chunkSize)
+      try {
+        session = await request<UploadSession>(`${sessionUrl}?offset=${session.offset}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: chunk,
+        })
+        failures = 0
+        onProgress?.(session.offset / session.size)
+      } catch (error) {
+        // Rejected chunks (too large, not an image) won't succeed on retry
+        const status = (error as { status?: number }).status
+        const retryable = status === undefined || status === 409 || status >= 500
+        if (!retryable || ++failures > CHUNK_RETRIES) throw error
+        // Resume from whatever the server actually kept
+        session = await request<UploadSession>(sessionUrl)
+      }
+    }
+    return await request<UploadResult>(`${sessionUrl}/complete`, { method: 'POST' })
+  } catch (error) {
+    void request(sessionUrl, { method: 'DELETE' }).catch(() => {})
+    throw error
+  }
+}
+
+/**
+ * Upload one file and recognize it
+ * @param onProgress - Upload progress (0-1), reported for chunked uploads
+ */
+export function uploadForOcr(
+  file: File,
+  options: UploadOptions,
+  onProgress?: (progress: number) => void,
+) {
+  return file.size > RESUMABLE_THRESHOLD_BYTES
+    ? uploadResumable(file, options, onProgress)
+    : uploadMultipart(file, options)
+}
@@ -0,0 +1,313 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { Activity, Search, Trash2 } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import { trpc } from '../lib/trpc'
+import { formatBytes, formatDuration } from '../lib/utils'
+
+const PAGE_SIZE = 50
+
+function HealthPanel() {
+  const health = trpc.admin.health.useQuery(undefined, { refetchInterval: 10_000 })
+  if (!health.data) return null
+  const { engines, workers, jobWorker, queue } = health.data
+
+  return (
+    <div className="rounded-xl border bg-white p-4 text-sm">
+      <h2 className="mb-3 flex items-center gap-1.5 font-medium">
+        <Activity className="size-4" /> Health
+      </h2>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-xs text-slate-500">Engines</p>
+          <p>{engines.join(', ')}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Tesseract workers</p>
+          {workers.length === 0 && <p>None running</p>}
+          {workers.map(worker => (
+            <p key={worker.language}>
+              {worker.language}: {worker.idle ? 'idle' : `${worker.pending} pending`}
+            </p>
+          ))}
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Job queue</p>
+          <p>
+            {jobWorker.polling ? 'Polling' : 'Stopped'}, {jobWorker.running}/
+            {jobWorker.concurrency} running
+          </p>
+          {queue && (
+            <>
+              <p>
+                {queue.counts.queued} queued, {queue.counts.failed} failed
+              </p>
+              {queue.oldestQueuedAt && (
+                <p className="text-xs text-slate-500">
+                  Oldest queued {format(queue.oldestQueuedAt, 'PPp')}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function QuotaForm({
+  userId,
+  quota,
+}: {
+  userId: number
+  quota: { imagesPerDay: number | null; pagesPerMonth: number | null; storageBytes: number | null }
+}) {
+  const utils = trpc.useUtils()
+  const setQuota = trpc.admin.setUserQuota.useMutation()
+  // Blank keeps the server default; 0 means unlimited
+  const [values, setValues] = useState({
+    imagesPerDay: quota.imagesPerDay?.toString() ?? '',
+    pagesPerMonth: quota.pagesPerMonth?.toString() ?? '',
+    storageMb: quota.storageBytes === null ? '' : String(quota.storageBytes / 1024 / 1024),
+  })
+  const parse = (value: string) => (value.trim() === '' ? null : Number(value))
+
+  const onSave = async () => {
+    const storageMb = parse(values.storageMb)
+    try {
+      await setQuota.mutateAsync({
+        userId,
+        imagesPerDay: parse(values.imagesPerDay),
+        pagesPerMonth: parse(values.pagesPerMonth),
+        storageBytes: storageMb === null ? null : Math.round(storageMb * 1024 * 1024),
+      })
+      await utils.admin.getUserStats.invalidate({ userId })
+      toast.success('Quota saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Save failed')
+    }
+  }
+
+  const field = (key: keyof typeof values, label: string) => (
+    <label className="text-xs text-slate-500">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={values[key]}
+        onChange={event => setValues({ ...values, [key]: event.target.value })}
+        placeholder="Default"
+        className="mt-1 block w-28 rounded-md border px-2 py-1 text-sm text-slate-900"
+      />
+    </label>
+  )
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      {field('imagesPerDay', 'Images / day')}
+      {field('pagesPerMonth', 'Pages / month')}
+      {field('storageMb', 'Storage (MB)')}
+      <button
+        type="button"
+        onClick={onSave}
+        disabled={setQuota.isPending}
+        className="rounded-md border px-3 py-1 text-sm hover:bg-slate-100 disabled:opacity-50"
+      >
+        Save quota
+      </button>
+    </div>
+  )
+}
+
+function UserPanel({ userId }: { userId: number }) {
+  const utils = trpc.useUtils()
+  const stats = trpc.admin.getUserStats.useQuery({ userId })
+  const results = trpc.admin.listUserResults.useQuery({ userId, limit: 50 })
+  const purge = trpc.admin.purgeUserResults.useMutation()
+
+  const onPurge = async (resultIds?: number[]) => {
+    const what = resultIds ? 'this result' : 'ALL results'
+    if (!window.confirm(`Delete ${what} and the stored images?`)) return
+    try {
+      const purged = await purge.mutateAsync({ userId, resultIds })
+      await utils.admin.invalidate()
+      if (purged.failedImages.length > 0) {
+        toast.warning(`${purged.failedImages.length} images could not be deleted from storage`)
+      } else {
+        toast.success(`Deleted ${purged.deletedResults} results, ${purged.deletedImages} images`)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Purge failed')
+    }
+  }
+
+  if (!stats.data) return <p className="text-sm text-slate-500">Loading…</p>
+  const { user, results: totals, usage, quota } = stats.data
+
+  return (
+    <div className="space-y-4 rounded-xl border bg-white p-4 text-sm">
+      <div className="flex items-center gap-3">
+        <h2 className="font-medium">{user.name ?? user.email ?? user.openId}</h2>
+        <button
+          type="button"
+          onClick={() => onPurge()}
+          disabled={purge.isPending || totals.results + totals.failed === 0}
+          className="ml-auto flex items-center gap-1 rounded-md border border-red-200 px-3 py-1 text-red-700 hover:bg-red-50 disabled:opacity-50"
+        >
+          <Trash2 className="size-4" /> Purge all results
+        </button>
+      </div>
+      <p className="text-slate-600">
+        {totals.results} results ({totals.failed} failed), {totals.pages} pages, average
+        confidence{' '}
+        {totals.avgConfidence === null ? '–' : `${Math.round(totals.avgConfidence)}%`},{' '}
+        {formatDuration(totals.totalProcessingTimeMs)} processing,{' '}
+        {formatBytes(totals.storageBytes)} stored. Today {usage.images.used} images, this month{' '}
+        {usage.pages.used} pages.
+      </p>
+      <QuotaForm key={userId} userId={userId} quota={quota} />
+      <ul className="divide-y border-t">
+        {(results.data?.items ?? []).map(result => (
+          <li key={result.id} className="flex items-center gap-3 py-2">
+            <a
+              href={result.imageUrl ?? undefined}
+              target="_blank"
+              rel="noreferrer"
+              className="flex-1"
+            >
+              <span className="font-medium">{result.imageFileName}</span>{' '}
+              <span className="text-slate-500">
+                {format(result.createdAt, 'PP')} ·{' '}
+                {result.status === 'succeeded' ? `${result.confidence}%` : result.status} ·{' '}
+                {formatDuration(result.processingTimeMs)}
+              </span>
+            </a>
+            <button
+              type="button"
+              aria-label={`Delete ${result.imageFileName}`}
+              onClick={() => onPurge([result.id])}
+              disabled={purge.isPending}
+              className="rounded p-1 hover:bg-slate-100"
+            >
+              <Trash2 className="size-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  const { user: me } = useAuth()
+  const utils = trpc.useUtils()
+  const [search, setSearch] = useState('')
+  const [offset, setOffset] = useState(0)
+  const [selected, setSelected] = useState<number | null>(null)
+  const users = trpc.admin.listUsers.useQuery({ search, limit: PAGE_SIZE, offset })
+  const setRole = trpc.admin.setUserRole.useMutation()
+
+  const onRoleChange = async (userId: number, role: 'user' | 'admin') => {
+    try {
+      await setRole.mutateAsync({ userId, role })
+      await utils.admin.listUsers.invalidate()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Role change failed')
+    }
+  }
+
+  const total = users.data?.total ?? 0
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-semibold">Admin</h1>
+      <HealthPanel />
+
+      <div className="flex items-center gap-2 rounded-md border bg-white px-2">
+        <Search className="size-4 text-slate-400" />
+        <input
+          value={search}
+          onChange={event => {
+            setSearch(event.target.value)
+            setOffset(0)
+          }}
+          placeholder="Search users by name, email or openId"
+          className="w-full py-1.5 text-sm outline-none"
+        />
+      </div>
+
+      <table className="w-full overflow-hidden rounded-xl border bg-white text-sm">
+        <thead className="bg-slate-50 text-left text-xs text-slate-500">
+          <tr>
+            <th className="px-3 py-2">User</th>
+            <th className="px-3 py-2">Role</th>
+            <th className="px-3 py-2 text-right">Results</th>
+            <th className="px-3 py-2 text-right">Avg confidence</th>
+            <th className="px-3 py-2 text-right">Processing</th>
+            <th className="px-3 py-2 text-right">Storage</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {(users.data?.items ?? []).map(user => (
+            <tr
+              key={user.id}
+              onClick={() => setSelected(user.id)}
+              className={user.id === selected ? 'bg-slate-100' : 'cursor-pointer hover:bg-slate-50'}
+            >
+              <td className="px-3 py-2">
+                <p className="font-medium">{user.name ?? user.openId}</p>
+                <p className="text-xs text-slate-500">{user.email}</p>
+              </td>
+              <td className="px-3 py-2">
+                <select
+                  value={user.role}
+                  disabled={user.id === me?.id || setRole.isPending}
+                  onClick={event => event.stopPropagation()}
+                  onChange={event => onRoleChange(user.id, event.target.value as 'user' | 'admin')}
+                  className="rounded-md border px-1 py-0.5"
+                >
+                  <option value="user">user</option>
+                  <option value="admin">admin</option>
+                </select>
+              </td>
+              <td className="px-3 py-2 text-right">{user.results}</td>
+              <td className="px-3 py-2 text-right">
+                {user.avgConfidence === null ? '–' : `${Math.round(user.avgConfidence)}%`}
+              </td>
+              <td className="px-3 py-2 text-right">
+                {formatDuration(user.totalProcessingTimeMs)}
+              </td>
+              <td className="px-3 py-2 text-right">{formatBytes(user.storageBytes)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {total > PAGE_SIZE && (
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            type="button"
+            onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+            disabled={offset === 0}
+            className="rounded-md border px-3 py-1 hover:bg-slate-100 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-slate-500">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <button
+            type="button"
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="rounded-md border px-3 py-1 hover:bg-slate-100 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {selected !== null && <UserPanel key={selected} userId={selected} />}
+    </div>
+  )
+}
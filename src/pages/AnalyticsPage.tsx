@@ -0,0 +1,184 @@
+import { useState, type ReactElement } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { useAuth } from '../hooks/useAuth'
+import { trpc } from '../lib/trpc'
+import { cn, formatDuration } from '../lib/utils'
+
+const RANGES = [7, 30, 90, 365]
+const COLORS = ['#0f172a', '#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed']
+const BUCKET_LABELS = Array.from(
+  { length: 10 },
+  (_, i) => `${i * 10}–${i === 9 ? 100 : i * 10 + 9}`,
+)
+
+type Histogram = { group: string; total: number; buckets: number[] }
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border bg-white p-4">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="mt-1 text-xl font-semibold">{value}</p>
+    </div>
+  )
+}
+
+function ChartCard({ title, children }: { title: string; children: ReactElement }) {
+  return (
+    <div className="rounded-xl border bg-white p-4">
+      <h2 className="mb-3 text-sm font-medium">{title}</h2>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          {children}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
+
+function ConfidenceChart({ title, histograms }: { title: string; histograms: Histogram[] }) {
+  // Bucket rows with one bar per group; small groups are left out to keep it readable
+  const groups = histograms.slice(0, COLORS.length)
+  const data = BUCKET_LABELS.map((bucket, i) => ({
+    bucket,
+    ...Object.fromEntries(groups.map(histogram => [histogram.group, histogram.buckets[i]])),
+  }))
+
+  return (
+    <ChartCard title={title}>
+      <BarChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis dataKey="bucket" fontSize={11} />
+        <YAxis allowDecimals={false} fontSize={11} />
+        <Tooltip />
+        <Legend />
+        {groups.map((histogram, i) => (
+          <Bar key={histogram.group} dataKey={histogram.group} fill={COLORS[i]} />
+        ))}
+      </BarChart>
+    </ChartCard>
+  )
+}
+
+export default function AnalyticsPage() {
+  const { user } = useAuth()
+  const [days, setDays] = useState(30)
+  const [global, setGlobal] = useState(false)
+  const own = trpc.analytics.get.useQuery({ days }, { enabled: !global })
+  const all = trpc.analytics.getGlobal.useQuery({ days }, { enabled: global })
+  const analytics = global ? all : own
+
+  const data = analytics.data
+  const percent = (value: number | null) => (value === null ? '–' : `${Math.round(value)}%`)
+  const duration = (value: number | null) => (value === null ? '–' : formatDuration(value))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="text-2xl font-semibold">Analytics</h1>
+        <div className="ml-auto flex gap-1">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              type="button"
+              onClick={() => setDays(range)}
+              className={cn(
+                'rounded-md px-3 py-1 text-sm',
+                range === days ? 'bg-slate-900 text-white' : 'border bg-white hover:bg-slate-100',
+              )}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+        {user?.role === 'admin' && (
+          <label className="flex items-center gap-1.5 text-sm">
+            <input
+              type="checkbox"
+              checked={global}
+              onChange={event => setGlobal(event.target.checked)}
+            />
+            All users
+          </label>
+        )}
+      </div>
+
+      {analytics.isLoading && <p className="text-slate-500">Loading…</p>}
+      {analytics.error && <p className="text-red-600">{analytics.error.message}</p>}
+
+      {data && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-5">
+            <Stat label="Results" value={String(data.summary.results)} />
+            <Stat label="Avg confidence" value={percent(data.summary.avgConfidence)} />
+            <Stat label="p50 processing" value={duration(data.summary.p50ProcessingTimeMs)} />
+            <Stat label="p95 processing" value={duration(data.summary.p95ProcessingTimeMs)} />
+            <Stat
+              label="Failure rate"
+              value={
+                data.summary.failureRate === null ? '–' : percent(data.summary.failureRate * 100)
+              }
+            />
+          </div>
+
+          <ChartCard title="Throughput per day">
+            <BarChart data={data.throughput}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="day" fontSize={11} />
+              <YAxis allowDecimals={false} fontSize={11} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="results" name="Results" fill={COLORS[0]} />
+              <Bar dataKey="pages" name="Pages" fill={COLORS[1]} />
+            </BarChart>
+          </ChartCard>
+
+          <ChartCard title="Processing time per day (ms)">
+            <LineChart data={data.throughput}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="day" fontSize={11} />
+              <YAxis fontSize={11} />
+              <Tooltip />
+              <Legend />
+              <Line dataKey="p50ProcessingTimeMs" name="p50" stroke={COLORS[1]} dot={false} />
+              <Line dataKey="p95ProcessingTimeMs" name="p95" stroke={COLORS[4]} dot={false} />
+            </LineChart>
+          </ChartCard>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <ConfidenceChart
+              title="Confidence by language"
+              histograms={data.confidence.byLanguage}
+            />
+            <ConfidenceChart
+              title="Confidence by preprocessing profile"
+              histograms={data.confidence.byPreprocessing}
+            />
+          </div>
+
+          <ChartCard title="Attempts per day">
+            <BarChart data={data.failures}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="day" fontSize={11} />
+              <YAxis allowDecimals={false} fontSize={11} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="succeeded" name="Succeeded" stackId="attempts" fill={COLORS[2]} />
+              <Bar dataKey="failed" name="Failed" stackId="attempts" fill={COLORS[4]} />
+            </BarChart>
+          </ChartCard>
+        </>
+      )}
+    </div>
+  )
+}
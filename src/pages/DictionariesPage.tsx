@@ -0,0 +1,204 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+
+const EXAMPLE_RULES = `[
+  { "type": "characters", "from": "OIl", "to": "011", "within": "(?<=-)[0-9OIl]+" },
+  { "type": "replace", "find": "Ho Chi Minh City", "replace": "Thành phố Hồ Chí Minh" }
+]`
+
+type Draft = {
+  id?: number
+  name: string
+  description: string
+  enabled: boolean
+  words: string
+  rules: string
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  description: '',
+  enabled: true,
+  words: '',
+  rules: EXAMPLE_RULES,
+}
+
+export default function DictionariesPage() {
+  const utils = trpc.useUtils()
+  const dictionaries = trpc.dictionaries.list.useQuery()
+  const create = trpc.dictionaries.create.useMutation()
+  const update = trpc.dictionaries.update.useMutation()
+  const remove = trpc.dictionaries.delete.useMutation()
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  const onSave = async () => {
+    if (!draft) return
+    let rules
+    try {
+      rules = draft.rules.trim() ? JSON.parse(draft.rules) : []
+    } catch {
+      toast.error('Rules must be valid JSON')
+      return
+    }
+
+    const values = {
+      name: draft.name,
+      description: draft.description || undefined,
+      enabled: draft.enabled,
+      words: draft.words
+        .split('\n')
+        .map(word => word.trim())
+        .filter(Boolean),
+      rules,
+    }
+    try {
+      if (draft.id) await update.mutateAsync({ id: draft.id, ...values })
+      else await create.mutateAsync(values)
+      await utils.dictionaries.list.invalidate()
+      setDraft(null)
+      toast.success('Dictionary saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Save failed')
+    }
+  }
+
+  const onDelete = async (id: number, name: string) => {
+    if (!window.confirm(`Delete dictionary ${name}?`)) return
+    try {
+      await remove.mutateAsync({ id })
+      await utils.dictionaries.list.invalidate()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Delete failed')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-semibold">Dictionaries</h1>
+        <button
+          type="button"
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="ml-auto flex items-center gap-1 rounded-md border bg-white px-3 py-1.5 text-sm hover:bg-slate-100"
+        >
+          <Plus className="size-4" /> New dictionary
+        </button>
+      </div>
+      <p className="text-sm text-slate-500">
+        Enabled dictionaries correct the text of every new result. Each change is listed on the
+        result page.
+      </p>
+
+      {draft && (
+        <div className="space-y-3 rounded-xl border bg-white p-4">
+          <input
+            value={draft.name}
+            onChange={event => setDraft({ ...draft, name: event.target.value })}
+            placeholder="Name, e.g. Product codes"
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+          <input
+            value={draft.description}
+            onChange={event => setDraft({ ...draft, description: event.target.value })}
+            placeholder="Description (optional)"
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+          <label className="flex items-center gap-1.5 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={event => setDraft({ ...draft, enabled: event.target.checked })}
+            />
+            Apply to new results
+          </label>
+          <label className="block text-sm font-medium">
+            Words (one per line)
+            <textarea
+              value={draft.words}
+              onChange={event => setDraft({ ...draft, words: event.target.value })}
+              placeholder={'Hà Nội\nĐà Nẵng\nWidgetron'}
+              className="mt-1 min-h-40 w-full rounded-md border p-2 text-sm font-normal"
+            />
+          </label>
+          <label className="block text-sm font-medium">
+            Rules (JSON)
+            <textarea
+              value={draft.rules}
+              onChange={event => setDraft({ ...draft, rules: event.target.value })}
+              spellCheck={false}
+              className="mt-1 min-h-32 w-full rounded-md border p-2 font-mono text-xs font-normal"
+            />
+          </label>
+          <p className="text-xs text-slate-500">
+            Words fix near misses and missing diacritics. Rules: replace (find, replace,
+            matchCase) for whole words or phrases, and characters (from, to, within) to swap
+            characters one for one inside the parts of a word matching the regular expression
+            within.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onSave}
+              className="rounded-md bg-slate-900 px-4 py-1.5 text-sm text-white hover:bg-slate-700"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-md border px-4 py-1.5 text-sm hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {dictionaries.data?.length === 0 && !draft && (
+        <p className="text-slate-500">No dictionaries yet.</p>
+      )}
+      <ul className="divide-y rounded-xl border bg-white">
+        {(dictionaries.data ?? []).map(dictionary => (
+          <li key={dictionary.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+            <div className="flex-1">
+              <p className="font-medium">
+                {dictionary.name}
+                {!dictionary.enabled && <span className="ml-2 text-slate-400">disabled</span>}
+              </p>
+              <p className="text-slate-500">
+                {dictionary.words.length} words, {dictionary.rules.length} rules
+              </p>
+            </div>
+            <button
+              type="button"
+              aria-label={`Edit ${dictionary.name}`}
+              onClick={() =>
+                setDraft({
+                  id: dictionary.id,
+                  name: dictionary.name,
+                  description: dictionary.description ?? '',
+                  enabled: dictionary.enabled,
+                  words: dictionary.words.join('\n'),
+                  rules: JSON.stringify(dictionary.rules, null, 2),
+                })
+              }
+              className="rounded p-1 hover:bg-slate-100"
+            >
+              <Pencil className="size-4" />
+            </button>
+            <button
+              type="button"
+              aria-label={`Delete ${dictionary.name}`}
+              onClick={() => onDelete(dictionary.id, dictionary.name)}
+              className="rounded p-1 text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="size-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { Link } from 'wouter'
+import { format } from 'date-fns'
+import { trpc } from '../lib/trpc'
+import { formatDuration } from '../lib/utils'
+
+const SORT_OPTIONS = [
+  { value: 'date', label: 'Date' },
+  { value: 'confidence', label: 'Confidence' },
+  { value: 'processingTime', label: 'Processing time' },
+  { value: 'fileName', label: 'File name' },
+] as const
+
+type SortBy = (typeof SORT_OPTIONS)[number]['value']
+
+export default function HistoryPage() {
+  const [sortBy, setSortBy] = useState<SortBy>('date')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  const [language, setLanguage] = useState('')
+  const [failedOnly, setFailedOnly] = useState(false)
+  const languages = trpc.ocr.listLanguages.useQuery()
+
+  const history = trpc.ocr.getHistory.useInfiniteQuery(
+    {
+      limit: 20,
+      sortBy,
+      sortOrder,
+      language: language || undefined,
+      status: failedOnly ? 'failed' : undefined,
+    },
+    { getNextPageParam: lastPage => lastPage.nextCursor ?? undefined },
+  )
+  const items = history.data?.pages.flatMap(page => page.items) ?? []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="text-2xl font-semibold">History</h1>
+        <div className="ml-auto flex flex-wrap gap-2 text-sm">
+          <label className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={failedOnly}
+              onChange={event => setFailedOnly(event.target.checked)}
+            />
+            Failed only
+          </label>
+          <select
+            value={language}
+            onChange={event => setLanguage(event.target.value)}
+            className="rounded-md border px-2 py-1"
+          >
+            <option value="">All languages</option>
+            {(languages.data ?? []).map(code => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          <select
+            value={sortBy}
+            onChange={event => setSortBy(event.target.value as SortBy)}
+            className="rounded-md border px-2 py-1"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setSortOrder(order => (order === 'desc' ? 'asc' : 'desc'))}
+            className="rounded-md border px-2 py-1 hover:bg-slate-100"
+          >
+            {sortOrder === 'desc' ? '↓ Desc' : '↑ Asc'}
+          </button>
+        </div>
+      </div>
+
+      {history.isLoading && <p className="text-slate-500">Loading…</p>}
+      {!history.isLoading && items.length === 0 && (
+        <p className="text-slate-500">
+          Nothing here yet. <Link href="/" className="underline">Upload an image</Link>.
+        </p>
+      )}
+
+      <ul className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {items.map(item => (
+          <li key={item.id}>
+            <Link
+              href={`/results/${item.id}`}
+              className="block h-full rounded-xl border bg-white p-4 hover:shadow"
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="truncate font-medium">{item.imageFileName}</span>
+                {item.status === 'succeeded' ? (
+                  <span className="shrink-0 text-sm text-slate-500">{item.confidence}%</span>
+                ) : (
+                  <span className="shrink-0 rounded bg-red-50 px-1.5 text-xs text-red-700">
+                    {item.status}
+                  </span>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-slate-500">
+                {format(item.createdAt, 'PPp')} · {item.language} ·{' '}
+                {formatDuration(item.processingTimeMs)}
+                {item.pageCount > 1 && ` · ${item.pageCount} pages`}
+              </p>
+              <p className="mt-2 line-clamp-3 text-sm text-slate-700">
+                {item.status === 'failed' ? item.errorMessage : item.textPreview}
+              </p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      {history.hasNextPage && (
+        <button
+          type="button"
+          onClick={() => history.fetchNextPage()}
+          disabled={history.isFetchingNextPage}
+          className="rounded-lg border bg-white px-4 py-2 text-sm hover:bg-slate-100"
+        >
+          {history.isFetchingNextPage ? 'Loading…' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import { Link, useParams } from 'wouter'
+import { toast } from 'sonner'
+import { trpc } from '../lib/trpc'
+import { cn } from '../lib/utils'
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-slate-200 text-slate-500',
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', STATUS_STYLES[status])}>
+      {status}
+    </span>
+  )
+}
+
+export default function JobPage() {
+  const params = useParams<{ id: string }>()
+  const id = Number(params.id)
+  const utils = trpc.useUtils()
+  const job = trpc.ocr.getJob.useQuery({ id })
+  const cancelJob = trpc.ocr.cancelJob.useMutation()
+  const [streamFailed, setStreamFailed] = useState(false)
+
+  // Live progress; fall back to polling if the stream drops
+  trpc.ocr.onJobProgress.useSubscription(
+    { id },
+    {
+      onData: snapshot => utils.ocr.getJob.setData({ id }, snapshot),
+      onError: () => setStreamFailed(true),
+    },
+  )
+  const finished = job.data && !['queued', 'running'].includes(job.data.status)
+  trpc.ocr.getJob.useQuery({ id }, { enabled: streamFailed && !finished, refetchInterval: 2000 })
+
+  if (job.isLoading) return <p className="text-slate-500">Loading…</p>
+  if (!job.data) return <p className="text-red-600">Job not found.</p>
+
+  const { items } = job.data
+  const done = items.filter(item => item.status !== 'queued' && item.status !== 'running').length
+
+  const onCancel = async () => {
+    try {
+      await cancelJob.mutateAsync({ id })
+      await utils.ocr.getJob.invalidate({ id })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Cancel failed')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-semibold">Batch #{id}</h1>
+        <StatusBadge status={job.data.status} />
+        <span className="text-sm text-slate-500">
+          {done} / {items.length} done
+        </span>
+        {!finished && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="ml-auto rounded-md border px-3 py-1 text-sm hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y rounded-xl border bg-white">
+        {items.map(item => (
+          <li key={item.id} className="space-y-1 px-4 py-3">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="flex-1 truncate font-medium">{item.fileName}</span>
+              <StatusBadge status={item.status} />
+              {item.ocrResultId && (
+                <Link href={`/results/${item.ocrResultId}`} className="text-blue-600 hover:underline">
+                  View
+                </Link>
+              )}
+            </div>
+            {item.status === 'running' && (
+              <div className="h-1.5 overflow-hidden rounded bg-slate-100">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${item.progress}%` }} />
+              </div>
+            )}
+            {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { getLoginUrl } from '../const'
+
+export default function LoginPage() {
+  return (
+    <main className="flex min-h-screen items-center justify-center p-6">
+      <div className="w-full max-w-sm rounded-xl bg-white p-8 text-center shadow">
+        <h1 className="text-2xl font-semibold">Text Recognition</h1>
+        <p className="mt-2 text-sm text-slate-500">
+          Sign in to extract text from images and scanned documents.
+        </p>
+        <a
+          href={getLoginUrl()}
+          className="mt-6 inline-block w-full rounded-lg bg-slate-900 px-4 py-2 font-medium text-white hover:bg-slate-700"
+        >
+          Sign in
+        </a>
+      </div>
+    </main>
+  )
+}
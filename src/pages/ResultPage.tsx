@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react'
+import { Link, useLocation, useParams } from 'wouter'
+import { toast } from 'sonner'
+import { Copy, Download, Save, Trash2 } from 'lucide-react'
+import CorrectionsPanel from '../components/CorrectionsPanel'
+import ExtractionPanel from '../components/ExtractionPanel'
+import LayoutOverlay from '../components/LayoutOverlay'
+import RegionsPanel from '../components/RegionsPanel'
+import RetryPanel from '../components/RetryPanel'
+import RevisionHistory from '../components/RevisionHistory'
+import SimilarPanel from '../components/SimilarPanel'
+import TablesPanel from '../components/TablesPanel'
+import { trpc } from '../lib/trpc'
+import { formatDuration } from '../lib/utils'
+
+const EXPORT_FORMATS = [
+  { format: 'pdf', label: 'Searchable PDF' },
+  { format: 'hocr', label: 'hOCR' },
+  { format: 'alto', label: 'ALTO XML' },
+  { format: 'tsv', label: 'TSV' },
+  { format: 'txt', label: 'Text' },
+] as const
+
+const LOW_CONFIDENCE = 60
+
+export default function ResultPage() {
+  const params = useParams<{ id: string }>()
+  const id = Number(params.id)
+  const [, navigate] = useLocation()
+  const [page, setPage] = useState(1)
+  const [highlight, setHighlight] = useState(true)
+  const [text, setText] = useState('')
+
+  const result = trpc.ocr.getResult.useQuery({ id })
+  const pageCount = result.data?.pageCount ?? 1
+  const pages = trpc.ocr.getPages.useQuery({ id }, { enabled: pageCount > 1 })
+  const layout = trpc.ocr.getLayout.useQuery({ id, page }, { retry: false })
+  const revisions = trpc.ocr.getRevisions.useQuery({ id })
+  const deleteResult = trpc.ocr.deleteResult.useMutation()
+  const updateText = trpc.ocr.updateText.useMutation()
+  const revertText = trpc.ocr.revertText.useMutation()
+  const utils = trpc.useUtils()
+
+  useEffect(() => {
+    if (result.data) setText(result.data.extractedText)
+  }, [result.data])
+
+  if (result.isLoading) return <p className="text-slate-500">Loading…</p>
+  if (!result.data) return <p className="text-red-600">Result not found.</p>
+
+  const data = result.data
+  const imageUrl =
+    pageCount > 1
+      ? pages.data?.find(p => p.pageNumber === page)?.imageUrl
+      : data.imageFileName.toLowerCase().endsWith('.pdf')
+        ? undefined
+        : data.imageUrl
+
+  const onDelete = async () => {
+    if (!window.confirm(`Delete ${data.imageFileName}?`)) return
+    try {
+      await deleteResult.mutateAsync({ id })
+      await utils.ocr.getHistory.invalidate()
+      toast.success('Deleted')
+      navigate('/history')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Delete failed')
+    }
+  }
+
+  if (data.status !== 'succeeded') {
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Link href="/history" className="text-sm text-slate-500 hover:underline">
+            ← History
+          </Link>
+          <h1 className="truncate text-xl font-semibold">{data.imageFileName}</h1>
+          <button
+            type="button"
+            onClick={onDelete}
+            className="ml-auto flex items-center gap-1 rounded-md px-2 py-1 text-sm text-red-600 hover:bg-red-50"
+          >
+            <Trash2 className="size-4" /> Delete
+          </button>
+        </div>
+        <RetryPanel
+          id={id}
+          status={data.status}
+          language={data.language}
+          errorMessage={data.errorMessage}
+          canRetry={Boolean(data.imageKey)}
+        />
+      </div>
+    )
+  }
+
+  const dirty = text !== data.extractedText
+
+  const refresh = () =>
+    Promise.all([utils.ocr.getResult.invalidate({ id }), utils.ocr.getRevisions.invalidate({ id })])
+
+  const onSave = async () => {
+    try {
+      const saved = await updateText.mutateAsync({
+        id,
+        text,
+        expectedRevision: data.revision,
+      })
+      await refresh()
+      toast.success(`Saved revision #${saved.revision}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Save failed')
+    }
+  }
+
+  const onRevert = async (revision: number) => {
+    if (dirty && !window.confirm('Discard unsaved changes?')) return
+    try {
+      await revertText.mutateAsync({ id, revision, expectedRevision: data.revision })
+      await refresh()
+      toast.success(revision === 0 ? 'Restored OCR output' : `Restored revision #${revision}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Revert failed')
+    }
+  }
+
+  const onCopy = async () => {
+    await navigator.clipboard.writeText(text)
+    toast.success('Copied to clipboard')
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Link href="/history" className="text-sm text-slate-500 hover:underline">
+          ← History
+        </Link>
+        <h1 className="truncate text-xl font-semibold">{data.imageFileName}</h1>
+        <span className="text-sm text-slate-500">
+          {data.confidence}% · {data.language} · {data.engine} · {formatDuration(data.processingTimeMs)}
+          {data.script && ` · ${data.script} script`}
+          {data.orientation ? ` · turned ${data.orientation}°` : ''}
+        </span>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="ml-auto flex items-center gap-1 rounded-md px-2 py-1 text-sm text-red-600 hover:bg-red-50"
+        >
+          <Trash2 className="size-4" /> Delete
+        </button>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <section className="space-y-2">
+          <div className="flex items-center gap-3 text-sm">
+            {pageCount > 1 && (
+              <select
+                value={page}
+                onChange={event => setPage(Number(event.target.value))}
+                className="rounded-md border px-2 py-1"
+              >
+                {Array.from({ length: pageCount }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>
+                    Page {i + 1} of {pageCount}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={highlight}
+                onChange={event => setHighlight(event.target.checked)}
+              />
+              Highlight words under {LOW_CONFIDENCE}% confidence
+            </label>
+          </div>
+          <div className="relative overflow-hidden rounded-xl border bg-white">
+            {imageUrl ? (
+              <>
+                <img src={imageUrl} alt={data.imageFileName} className="block w-full" />
+                {highlight && layout.data && (
+                  <LayoutOverlay layout={layout.data} threshold={LOW_CONFIDENCE} />
+                )}
+                {/* Regions are fractions of the rotated page, so only unrotated ones line up */}
+                {data.rotation === 0 &&
+                  data.regions
+                    ?.filter(region => region.page === page)
+                    .map((region, index) => (
+                      <div
+                        key={index}
+                        style={{
+                          left: `${region.x * 100}%`,
+                          top: `${region.y * 100}%`,
+                          width: `${region.width * 100}%`,
+                          height: `${region.height * 100}%`,
+                        }}
+                        className="pointer-events-none absolute border-2 border-blue-600"
+                      />
+                    ))}
+              </>
+            ) : (
+              <p className="p-8 text-center text-sm text-slate-500">Preview not available</p>
+            )}
+          </div>
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <button
+              type="button"
+              onClick={onSave}
+              disabled={!dirty || updateText.isPending}
+              className="flex items-center gap-1 rounded-md bg-slate-900 px-2 py-1 text-white disabled:opacity-40"
+            >
+              <Save className="size-4" /> Save
+            </button>
+            <button
+              type="button"
+              onClick={onCopy}
+              className="flex items-center gap-1 rounded-md border px-2 py-1 hover:bg-slate-100"
+            >
+              <Copy className="size-4" /> Copy
+            </button>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <a
+                key={format}
+                href={`/api/ocr/${id}/export?format=${format}`}
+                className="flex items-center gap-1 rounded-md border px-2 py-1 hover:bg-slate-100"
+              >
+                <Download className="size-4" /> {label}
+              </a>
+            ))}
+          </div>
+          <textarea
+            value={text}
+            onChange={event => setText(event.target.value)}
+            spellCheck={false}
+            className="min-h-[28rem] flex-1 rounded-xl border bg-white p-3 font-mono text-sm"
+          />
+          {data.regions && <RegionsPanel resultId={id} />}
+          <CorrectionsPanel resultId={id} />
+          <TablesPanel resultId={id} />
+          <SimilarPanel resultId={id} />
+          <ExtractionPanel resultId={id} />
+          {revisions.data && revisions.data.revisions.length > 0 && (
+            <RevisionHistory
+              original={revisions.data.original}
+              revisions={revisions.data.revisions}
+              currentRevision={revisions.data.currentRevision}
+              onRevert={onRevert}
+            />
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { trpc } from '../lib/trpc'
+
+const EXAMPLE_FIELDS = `[
+  { "key": "invoiceNumber", "rules": [{ "type": "regex", "pattern": "Invoice\\\\s*#\\\\s*(\\\\S+)" }] },
+  { "key": "date", "type": "date", "required": true, "rules": [{ "type": "anchor", "keyword": "Date" }] },
+  { "key": "total", "type": "amount", "rules": [{ "type": "anchor", "keyword": "Total" }] },
+  { "key": "taxId", "type": "taxId", "rules": [{ "type": "anchor", "keyword": "VAT No" }] }
+]`
+
+type Draft = { id?: number; name: string; description: string; fields: string }
+
+const EMPTY_DRAFT: Draft = { name: '', description: '', fields: EXAMPLE_FIELDS }
+
+export default function TemplatesPage() {
+  const utils = trpc.useUtils()
+  const templates = trpc.templates.list.useQuery()
+  const create = trpc.templates.create.useMutation()
+  const update = trpc.templates.update.useMutation()
+  const remove = trpc.templates.delete.useMutation()
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  const onSave = async () => {
+    if (!draft) return
+    let fields
+    try {
+      fields = JSON.parse(draft.fields)
+    } catch {
+      toast.error('Fields must be valid JSON')
+      return
+    }
+
+    const values = {
+      name: draft.name,
+      description: draft.description || undefined,
+      fields,
+    }
+    try {
+      if (draft.id) await update.mutateAsync({ id: draft.id, ...values })
+      else await create.mutateAsync(values)
+      await utils.templates.list.invalidate()
+      setDraft(null)
+      toast.success('Template saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Save failed')
+    }
+  }
+
+  const onDelete = async (id: number, name: string) => {
+    if (!window.confirm(`Delete template ${name}?`)) return
+    try {
+      await remove.mutateAsync({ id })
+      await utils.templates.list.invalidate()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Delete failed')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-semibold">Extraction templates</h1>
+        <button
+          type="button"
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="ml-auto flex items-center gap-1 rounded-md border bg-white px-3 py-1.5 text-sm hover:bg-slate-100"
+        >
+          <Plus className="size-4" /> New template
+        </button>
+      </div>
+
+      {draft && (
+        <div className="space-y-3 rounded-xl border bg-white p-4">
+          <input
+            value={draft.name}
+            onChange={event => setDraft({ ...draft, name: event.target.value })}
+            placeholder="Name, e.g. Supplier invoice"
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+          <input
+            value={draft.description}
+            onChange={event => setDraft({ ...draft, description: event.target.value })}
+            placeholder="Description (optional)"
+            className="w-full rounded-md border px-2 py-1.5"
+          />
+          <label className="block text-sm font-medium">
+            Fields (JSON)
+            <textarea
+              value={draft.fields}
+              onChange={event => setDraft({ ...draft, fields: event.target.value })}
+              spellCheck={false}
+              className="mt-1 min-h-64 w-full rounded-md border p-2 font-mono text-xs font-normal"
+            />
+          </label>
+          <p className="text-xs text-slate-500">
+            Field types: text, date, amount, number, taxId. Rules: regex (pattern, group), anchor
+            (keyword, direction right/below) and region (page, x, y, width, height as 0-1 page
+            fractions).
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onSave}
+              className="rounded-md bg-slate-900 px-4 py-1.5 text-sm text-white hover:bg-slate-700"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-md border px-4 py-1.5 text-sm hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {templates.data?.length === 0 && !draft && (
+        <p className="text-slate-500">No templates yet.</p>
+      )}
+      <ul className="divide-y rounded-xl border bg-white">
+        {(templates.data ?? []).map(template => (
+          <li key={template.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+            <div className="flex-1">
+              <p className="font-medium">{template.name}</p>
+              <p className="text-slate-500">
+                {template.fields.map(field => field.key).join(', ')}
+              </p>
+            </div>
+            <button
+              type="button"
+              aria-label={`Edit ${template.name}`}
+              onClick={() =>
+                setDraft({
+                  id: template.id,
+                  name: template.name,
+                  description: template.description ?? '',
+                  fields: JSON.stringify(template.fields, null, 2),
+                })
+              }
+              className="rounded p-1 hover:bg-slate-100"
+            >
+              <Pencil className="size-4" />
+            </button>
+            <button
+              type="button"
+              aria-label={`Delete ${template.name}`}
+              onClick={() => onDelete(template.id, template.name)}
+              className="rounded p-1 text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="size-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useLocation } from 'wouter'
+import { toast } from 'sonner'
+import { X } from 'lucide-react'
+import { OCR_AUTO_LANGUAGE } from '@shared/const'
+import type { OcrParameters } from '@shared/ocrParameters'
+import { PREPROCESSING_PRESET_NAMES, type PreprocessingPreset } from '@shared/preprocessing'
+import FileDropzone from '../components/FileDropzone'
+import ParametersFields from '../components/ParametersFields'
+import RegionSelector, { type RegionSelection } from '../components/RegionSelector'
+import UsageSummary from '../components/UsageSummary'
+import { trpc } from '../lib/trpc'
+import { uploadForOcr } from '../lib/upload'
+import { formatBytes, readFileAsBase64 } from '../lib/utils'
+
+// Types the browser can preview for drawing regions
+const PREVIEWABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+const NO_SELECTION: RegionSelection = { rotation: 0, regions: [] }
+
+type UploadOptions = {
+  languages: string[]
+  preprocessing: PreprocessingPreset
+  engine: string
+}
+
+export default function UploadPage() {
+  const [, navigate] = useLocation()
+  const [files, setFiles] = useState<File[]>([])
+  const [selection, setSelection] = useState(NO_SELECTION)
+  const [parameters, setParameters] = useState<OcrParameters>({})
+  const engines = trpc.ocr.listEngines.useQuery()
+  const [uploadProgress, setUploadProgress] = useState<number>()
+  const submitJob = trpc.ocr.submitJob.useMutation()
+  const utils = trpc.useUtils()
+  const { register, handleSubmit, formState, watch } = useForm<UploadOptions>({
+    defaultValues: { languages: ['eng'], preprocessing: 'default', engine: '' },
+  })
+  // Empty engine = server default
+  const engine = watch('engine') || undefined
+  const languages = trpc.ocr.listLanguages.useQuery({ engine })
+
+  const onSubmit = async (options: UploadOptions) => {
+    if (files.length === 0) {
+      toast.error('Add at least one file')
+      return
+    }
+    if (options.languages.length === 0) {
+      toast.error('Pick at least one language')
+      return
+    }
+
+    // Auto-detect replaces any languages picked alongside it
+    const language = options.languages.includes(OCR_AUTO_LANGUAGE)
+      ? OCR_AUTO_LANGUAGE
+      : options.languages.join('+')
+    const chosenParameters = Object.values(parameters).some(value => value !== undefined)
+      ? parameters
+      : undefined
+
+    try {
+      // One file is uploaded and recognized right away; several go to the job queue
+      if (files.length === 1) {
+        const result = await uploadForOcr(
+          files[0],
+          {
+            language,
+            preprocessing: options.preprocessing,
+            engine: options.engine || undefined,
+            rotation: selection.rotation || undefined,
+            regions:
+              selection.regions.length > 0
+                ? selection.regions.map(region => ({
+                    ...region,
+                    label: region.label?.trim() || undefined,
+                  }))
+                : undefined,
+            parameters: chosenParameters,
+          },
+          setUploadProgress,
+        )
+        toast.success(
+          result.reused
+            ? 'This file was recognized before; showing the saved result'
+            : `Recognized with ${result.confidence}% confidence`,
+        )
+        setFiles([])
+        setSelection(NO_SELECTION)
+        navigate(result.id ? `/results/${result.id}` : '/history')
+      } else {
+        const images = await Promise.all(
+          files.map(async file => ({
+            imageData: await readFileAsBase64(file),
+            fileName: file.name,
+            mimeType: file.type,
+            language,
+            preprocessing: options.preprocessing,
+            engine: options.engine || undefined,
+            parameters: chosenParameters,
+          })),
+        )
+        const { jobId } = await submitJob.mutateAsync({ images })
+        setFiles([])
+        navigate(`/jobs/${jobId}`)
+      }
+    } catch (error) {
+      const resultId = (error as { resultId?: number }).resultId
+      toast.error(error instanceof Error ? error.message : 'Upload failed', {
+        action: resultId
+          ? { label: 'Retry', onClick: () => navigate(`/results/${resultId}`) }
+          : undefined,
+      })
+    } finally {
+      setUploadProgress(undefined)
+      void utils.usage.get.invalidate()
+    }
+  }
+
+  const busy = formState.isSubmitting
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <h1 className="text-2xl font-semibold">Upload</h1>
+
+      <UsageSummary />
+
+      <FileDropzone
+        disabled={busy}
+        onFiles={added => {
+          setFiles(current => [...current, ...added])
+          setSelection(NO_SELECTION)
+        }}
+      />
+
+      {files.length > 0 && (
+        <ul className="divide-y rounded-xl border bg-white">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+              <span className="flex-1 truncate">{file.name}</span>
+              <span className="text-slate-500">{formatBytes(file.size)}</span>
+              <button
+                type="button"
+                aria-label={`Remove ${file.name}`}
+                onClick={() => {
+                  setFiles(current => current.filter((_, i) => i !== index))
+                  setSelection(NO_SELECTION)
+                }}
+                className="rounded p-1 hover:bg-slate-100"
+              >
+                <X className="size-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {files.length === 1 && PREVIEWABLE_TYPES.includes(files[0].type) && (
+        <RegionSelector file={files[0]} value={selection} onChange={setSelection} />
+      )}
+
+      <div className="grid gap-6 rounded-xl border bg-white p-4 sm:grid-cols-2">
+        <fieldset>
+          <legend className="mb-2 text-sm font-medium">Languages</legend>
+          <div className="flex flex-wrap gap-3">
+            <label className="flex items-center gap-1.5 text-sm">
+              <input type="checkbox" value={OCR_AUTO_LANGUAGE} {...register('languages')} />
+              Auto-detect
+            </label>
+            {(languages.data ?? []).map(code => (
+              <label key={code} className="flex items-center gap-1.5 text-sm">
+                <input type="checkbox" value={code} {...register('languages')} />
+                {code}
+              </label>
+            ))}
+            {languages.isLoading && <span className="text-sm text-slate-500">Loading…</span>}
+          </div>
+        </fieldset>
+        <label className="block">
+          <span className="mb-2 block text-sm font-medium">Preprocessing</span>
+          <select {...register('preprocessing')} className="w-full rounded-md border px-2 py-1.5">
+            {PREPROCESSING_PRESET_NAMES.map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {engines.data && engines.data.length > 1 && (
+          <label className="block">
+            <span className="mb-2 block text-sm font-medium">Engine</span>
+            <select {...register('engine')} className="w-full rounded-md border px-2 py-1.5">
+              <option value="">Server default</option>
+              {engines.data.map(option => (
+                <option key={option.name} value={option.name}>
+                  {option.name}
+                  {option.isDefault ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <ParametersFields value={parameters} onChange={setParameters} />
+
+      <button
+        type="submit"
+        disabled={busy || files.length === 0}
+        className="rounded-lg bg-slate-900 px-6 py-2 font-medium text-white hover:bg-slate-700 disabled:opacity-50"
+      >
+        {busy
+          ? uploadProgress !== undefined && uploadProgress < 1
+            ? `Uploading… ${Math.round(uploadProgress * 100)}%`
+            : 'Recognizing…'
+          : files.length > 1
+            ? `Recognize ${files.length} files`
+            : 'Recognize'}
+      </button>
+    </form>
+  )
+}
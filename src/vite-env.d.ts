@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_ID: string
+  readonly VITE_OAUTH_PORTAL_URL: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}